@@ -0,0 +1,289 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { I18nProvider } from './i18n';
+import en from './i18n/en';
+import App from './App';
+import { DEFAULT_BILLING_SETTINGS } from './services/usage';
+
+// The whole queue (import, job runner, provider, retries, results) runs for real
+// in jsdom. Only the network client, IndexedDB and image decoding are replaced.
+
+const generateContent = vi.fn();
+let savedSettings: Record<string, unknown>;
+
+vi.mock('@google/genai', () => ({
+  GoogleGenAI: vi.fn(() => ({ models: { generateContent } }))
+}));
+
+vi.mock('./services/providers/keyMode', async importOriginal => ({
+  ...await importOriginal<typeof import('./services/providers/keyMode')>(),
+  KEY_MODE: 'aistudio'
+}));
+
+vi.mock('./services/storage', async importOriginal => ({
+  ...await importOriginal<typeof import('./services/storage')>(),
+  loadQueue: async () => [],
+  saveQueue: async () => {},
+  loadSetting: async (key: string) => savedSettings[key],
+  saveSetting: async () => {},
+  getStorageEstimate: async () => null,
+  requestPersistentStorage: async () => false
+}));
+
+// jsdom can't decode images, so test files carry their size on the side
+const sizes = new WeakMap<Blob, { width: number; height: number }>();
+
+vi.mock('./utils/image', async importOriginal => ({
+  ...await importOriginal<typeof import('./utils/image')>(),
+  loadImage: async (blob: Blob) => {
+    const { width, height } = sizes.get(blob)!;
+    return { naturalWidth: width, naturalHeight: height };
+  }
+}));
+
+const createImage = (name: string, width: number, height: number) => {
+  const file = new File([`${name} pixels`], name, { type: 'image/png' });
+  sizes.set(file, { width, height });
+  return file;
+};
+
+const imageResponse = () => ({
+  candidates: [{ content: { parts: [{ inlineData: { data: btoa('result'), mimeType: 'image/png' } }] }, finishReason: 'STOP' }],
+  usageMetadata: { promptTokenCount: 1000, candidatesTokenCount: 2000, totalTokenCount: 3000 }
+});
+
+// Shaped like the SDK's ApiError: an HTTP status plus the JSON error body in the message
+const apiError = (status: number, error: object) =>
+  Object.assign(new Error(`got status: ${status}. ${JSON.stringify({ error })}`), { status });
+
+let container: HTMLDivElement;
+let root: Root;
+let keySelected: boolean;
+
+const renderApp = async () => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+  root.render(<I18nProvider><App /></I18nProvider>);
+  await vi.waitFor(() => expect(findButton(en.run.start)).toBeTruthy());
+};
+
+const findButton = (label: string) =>
+  Array.from(container.querySelectorAll('button')).find(button => button.textContent?.trim() === label);
+
+const findAll = (selector: string, text: string) =>
+  Array.from(container.querySelectorAll(selector)).filter(element => element.textContent?.trim() === text);
+
+const upload = async (...files: File[]) => {
+  const input = container.querySelector<HTMLInputElement>('input[type="file"][multiple]:not([webkitdirectory])')!;
+  Object.defineProperty(input, 'files', { value: files, configurable: true });
+  input.dispatchEvent(new Event('change', { bubbles: true }));
+  await vi.waitFor(() => expect(container.querySelectorAll('[data-queue-item]')).toHaveLength(files.length));
+};
+
+const selectSetting = (label: string, value: string) => {
+  const group = Array.from(container.querySelectorAll('.input-group'))
+    .find(element => element.querySelector('label')?.textContent === label)!;
+  const select = group.querySelector('select')!;
+  select.value = value;
+  select.dispatchEvent(new Event('change', { bubbles: true }));
+};
+
+const start = () => findButton(en.run.start)!.click();
+
+const waitForStatus = (label: string, count = 1) =>
+  vi.waitFor(() => expect(findAll('span', label)).toHaveLength(count), { timeout: 5000 });
+
+beforeEach(() => {
+  generateContent.mockReset();
+  savedSettings = {};
+  keySelected = true;
+  let urls = 0;
+  URL.createObjectURL = vi.fn(() => `blob:test/${++urls}`);
+  URL.revokeObjectURL = vi.fn();
+  vi.stubGlobal('createImageBitmap', async (blob: Blob) => ({ ...sizes.get(blob)!, close: () => {} }));
+  window.aistudio = {
+    hasSelectedApiKey: async () => keySelected,
+    openSelectKey: async () => {}
+  };
+});
+
+afterEach(() => {
+  root.unmount();
+  container.remove();
+  vi.unstubAllGlobals();
+});
+
+describe('queue lifecycle', () => {
+  it('generates every item with its detected ratio, the prompt and the chosen size', async () => {
+    generateContent.mockResolvedValue(imageResponse());
+    await renderApp();
+    await upload(createImage('wide.png', 1600, 900), createImage('tall.png', 900, 1600));
+    selectSetting(en.settings.imageSize, '1K');
+
+    start();
+    await waitForStatus(en.queue.success, 2);
+
+    expect(generateContent).toHaveBeenCalledTimes(2);
+    const requests = generateContent.mock.calls.map(([request]) => request);
+    expect(requests.map(request => request.config.imageConfig)).toEqual([
+      { imageSize: '1K', aspectRatio: '16:9' },
+      { imageSize: '1K', aspectRatio: '9:16' }
+    ]);
+    const [image, prompt] = requests[0].contents.parts;
+    expect(image.inlineData.mimeType).toBe('image/png');
+    expect(prompt.text).toContain('Replace the text with the following Traditional Chinese text.');
+
+    // Each card shows its result and the download for it
+    expect(container.querySelectorAll('img[src^="blob:test/"]').length).toBeGreaterThanOrEqual(4);
+    expect(findAll('button', en.queue.download('1K', en.exportFormats.png))).toHaveLength(2);
+  });
+
+  it('retries once when no image comes back, then reports it', async () => {
+    generateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'I cannot edit this image.' }] }, finishReason: 'STOP' }] });
+    await renderApp();
+    await upload(createImage('poster.png', 1000, 1000));
+
+    start();
+    await waitForStatus(en.queue.error);
+
+    expect(generateContent).toHaveBeenCalledTimes(2);
+    expect(container.textContent).toContain(en.errorCodes.no_image);
+  });
+
+  it('reports a safety block without retrying', async () => {
+    generateContent.mockResolvedValue({ promptFeedback: { blockReason: 'SAFETY' }, candidates: [] });
+    await renderApp();
+    await upload(createImage('poster.png', 1000, 1000));
+
+    start();
+    await waitForStatus(en.queue.error);
+
+    expect(generateContent).toHaveBeenCalledTimes(1);
+    expect(container.textContent).toContain(`${en.errorCodes.safety} (SAFETY)`);
+  });
+
+  it('waits out a 429 and then succeeds', async () => {
+    generateContent
+      .mockRejectedValueOnce(apiError(429, { code: 429, status: 'RESOURCE_EXHAUSTED', details: [{ retryDelay: '0.05s' }] }))
+      .mockResolvedValue(imageResponse());
+    await renderApp();
+    await upload(createImage('poster.png', 1200, 900));
+
+    start();
+    await waitForStatus(en.queue.success);
+
+    expect(generateContent).toHaveBeenCalledTimes(2);
+    expect(container.textContent).not.toContain(en.errorCodes.rate_limit);
+  });
+
+  it('stops the batch and asks for a new key when the key is rejected', async () => {
+    generateContent.mockImplementation(async ({ config }) => {
+      // The first request fails; any other one would hang until the batch stops
+      if (generateContent.mock.calls.length === 1) {
+        keySelected = false;
+        throw apiError(400, { code: 400, status: 'INVALID_ARGUMENT', details: [{ reason: 'API_KEY_INVALID' }] });
+      }
+      // Like fetch, a request sent with an already aborted signal fails straight away
+      return new Promise((_resolve, reject) => {
+        if (config.abortSignal.aborted) reject(new Error('aborted'));
+        config.abortSignal.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    });
+    await renderApp();
+    await upload(createImage('a.png', 1000, 1000), createImage('b.png', 1000, 1000), createImage('c.png', 1000, 1000));
+
+    start();
+    await vi.waitFor(() => expect(findButton(en.welcome.connectKey)).toBeTruthy());
+
+    // The second request was aborted and the third never sent
+    expect(generateContent).toHaveBeenCalledTimes(2);
+    expect(generateContent.mock.calls[1][0].config.abortSignal.aborted).toBe(true);
+
+    // Back in the queue once a key is connected, none of them marked as failed
+    // The app polls for a key every two seconds
+    keySelected = true;
+    await vi.waitFor(() => expect(findAll('span', en.queue.idle)).toHaveLength(3), { timeout: 5000 });
+    expect(findAll('span', en.queue.error)).toHaveLength(0);
+  }, 10000);
+
+  it('aborts the request of an item removed mid-run and keeps going with the rest', async () => {
+    const pending: { signal: AbortSignal; resolve: (response: unknown) => void }[] = [];
+    generateContent.mockImplementation(({ config }) => new Promise(resolve => {
+      pending.push({ signal: config.abortSignal, resolve });
+    }));
+    await renderApp();
+    await upload(createImage('keep.png', 1000, 1000), createImage('remove.png', 1000, 1000));
+
+    start();
+    await vi.waitFor(() => expect(pending).toHaveLength(2));
+
+    const removed = container.querySelectorAll('[data-queue-item]')[1];
+    removed.querySelector<HTMLButtonElement>(`button[title="${en.toolbar.remove}"]`)!.click();
+    await vi.waitFor(() => expect(container.querySelectorAll('[data-queue-item]')).toHaveLength(1));
+    expect(pending[1].signal.aborted).toBe(true);
+    expect(pending[0].signal.aborted).toBe(false);
+
+    // A response arriving after the removal is dropped
+    pending[1].resolve(imageResponse());
+    pending[0].resolve(imageResponse());
+    await waitForStatus(en.queue.success);
+    expect(container.textContent).toContain('keep.png');
+    expect(container.textContent).not.toContain('remove.png');
+    expect(findButton(en.run.start)).toBeTruthy();
+  });
+
+  it('resumes a paused batch when a selection is retried', async () => {
+    let finishSecond: (response: unknown) => void = () => {};
+    generateContent
+      .mockResolvedValueOnce({ promptFeedback: { blockReason: 'SAFETY' }, candidates: [] })
+      .mockImplementationOnce(() => new Promise(resolve => { finishSecond = resolve; }))
+      .mockResolvedValue(imageResponse());
+    await renderApp();
+    await upload(createImage('blocked.png', 1000, 1000), createImage('slow.png', 1000, 1000));
+
+    start();
+    await waitForStatus(en.queue.error);
+    findButton(en.run.pause)!.click();
+    await vi.waitFor(() => expect(findButton(en.run.resume)).toBeTruthy());
+    finishSecond(imageResponse());
+    await waitForStatus(en.queue.success);
+
+    container.querySelector<HTMLInputElement>('[data-queue-item] input[type="checkbox"]')!.click();
+    await vi.waitFor(() => expect(findButton(en.toolbar.retry)).toBeTruthy());
+    findButton(en.toolbar.retry)!.click();
+
+    await waitForStatus(en.queue.success, 2);
+    expect(generateContent).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps a batch paused by the spend cap paused when a selection is retried', async () => {
+    savedSettings.billing = { ...DEFAULT_BILLING_SETTINGS, spendCap: 0.1 };
+    const finish: ((response: unknown) => void)[] = [];
+    generateContent
+      .mockResolvedValueOnce({ promptFeedback: { blockReason: 'SAFETY' }, candidates: [] })
+      .mockImplementation(() => new Promise(resolve => { finish.push(resolve); }));
+    await renderApp();
+    await upload(createImage('blocked.png', 1000, 1000), createImage('costly.png', 1000, 1000), createImage('slow.png', 1000, 1000));
+
+    start();
+    await waitForStatus(en.queue.error);
+    await vi.waitFor(() => expect(finish).toHaveLength(2));
+    // About US$0.24, over the cap while slow.png is still running
+    finish[0](imageResponse());
+    await vi.waitFor(() => expect(container.textContent).toContain(en.cost.capReached));
+    await vi.waitFor(() => expect(findButton(en.run.resume)?.disabled).toBe(true));
+
+    container.querySelector<HTMLInputElement>('[data-queue-item] input[type="checkbox"]')!.click();
+    await vi.waitFor(() => expect(findButton(en.toolbar.retry)).toBeTruthy());
+    findButton(en.toolbar.retry)!.click();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(generateContent).toHaveBeenCalledTimes(3);
+
+    finish[1](imageResponse());
+    await waitForStatus(en.queue.success, 2);
+    expect(generateContent).toHaveBeenCalledTimes(3);
+  });
+});
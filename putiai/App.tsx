@@ -0,0 +1,1513 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Upload, X, Play, Pause, Square, Image as ImageIcon, Check, AlertCircle, Loader2, Download, Trash2, Settings, Plus, Columns, RefreshCw, Maximize2, Scan, Sparkles, FolderOpen, GripVertical } from 'lucide-react';
+import { QueueItem, TextReplacement, ImageSize, ItemError, AspectMode, PromptPreset, CallRecord, GenerationInfo, TargetLanguage } from './types';
+import { loadQueue, saveQueue, loadSetting, saveSetting, requestPersistentStorage } from './services/storage';
+import { createJobRunner, JobRunner, JobRunnerSnapshot } from './services/jobRunner';
+import { shouldRetry, getRetryAfterMs, toItemError, ERROR_POLICIES } from './services/errors';
+import { createProvider, PROVIDERS, MOCK_FAILURE_MODES, ProviderSettings, KEY_MODE } from './services/providers';
+import { ASPECT_MODES, prepareSource, restoreResult } from './services/framing';
+import { hasMask, cropToMask, compositeMasked } from './services/mask';
+import { DEFAULT_VERIFICATION_SETTINGS, MAX_AUTO_REGENERATIONS, VerificationSettings, getExpectedTexts, isBelowThreshold, verifyResult } from './services/verify';
+import StoragePanel from './components/StoragePanel';
+import ExportPanel from './components/ExportPanel';
+import ReplacementEditor from './components/ReplacementEditor';
+import ManifestPanel from './components/ManifestPanel';
+import { ManifestRow, applyManifest, matchManifest } from './services/manifest';
+import { ImportRejection, ImportSource, collectDroppedSources, collectInputSources, importSources } from './services/importer';
+import { QueueView, StatusFilter, countByFilter, getDisplayName, matchesFilter, moveItems, moveToFront } from './services/queue';
+import { buildPrompt } from './services/prompt';
+import { BUILTIN_PRESETS, DEFAULT_GLOBAL_PROMPT, resolveTemplate } from './services/presets';
+import { BillingSettings, DEFAULT_BILLING_SETTINGS, DEFAULT_PRICE_TABLE, estimateBatch, meterProvider, summarizeQueue } from './services/usage';
+import { createAttempt, getChosenAttempt, pickBestAttempt } from './services/attempts';
+import AttemptCompare from './components/AttemptCompare';
+import ReviewViewer from './components/ReviewViewer';
+import MaskEditor, { MaskedImage } from './components/MaskEditor';
+import VerificationBadge, { VerificationDetails } from './components/VerificationBadge';
+import PresetPanel from './components/PresetPanel';
+import CostPanel, { UsageLine, formatCost } from './components/CostPanel';
+import QueueToolbar from './components/QueueToolbar';
+import QueueTile from './components/QueueTile';
+import { DEFAULT_FILENAME_TEMPLATE, buildResultsZip, downloadBlob, getResultFilename } from './services/exporter';
+import { DEFAULT_EXPORT_SETTINGS, ExportSettings, encodeResult } from './services/encoder';
+import { DEFAULT_TARGET_LANGUAGE, TARGET_LANGUAGES } from './services/language';
+import { LOCALES, Locale, detectLocale, useI18n } from './i18n';
+import { formatImportNotes, formatImportProblem } from './i18n/format';
+
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+const DEFAULT_IMAGE_SIZE: ImageSize = '4K'; // CRITICAL for text legibility
+// Drafts are finalised at this size
+const FINAL_IMAGE_SIZE: ImageSize = '4K';
+const DEFAULT_CONCURRENCY = 2;
+const MAX_CONCURRENCY = 4;
+const MAX_RETRIES = 5;
+const MAX_VARIANTS = 4;
+// dataTransfer type for reordering, so queue drags aren't mistaken for file drops
+const QUEUE_DRAG_TYPE = 'application/x-puti-queue-items';
+
+// Release the object URLs held by an item before dropping it
+const revokeItemUrls = (item: QueueItem) => {
+  URL.revokeObjectURL(item.previewUrl);
+  item.attempts?.forEach(attempt => URL.revokeObjectURL(attempt.url));
+};
+
+const App = () => {
+  const { locale, preference, setPreference, t } = useI18n();
+  const [hasKey, setHasKey] = useState(false);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [variantCount, setVariantCount] = useState(1);
+  const [imageSize, setImageSize] = useState<ImageSize>(DEFAULT_IMAGE_SIZE);
+  const [aspectMode, setAspectMode] = useState<AspectMode>('nearest');
+  const [targetLanguage, setTargetLanguage] = useState<TargetLanguage>(DEFAULT_TARGET_LANGUAGE);
+  const [verification, setVerification] = useState<VerificationSettings>(DEFAULT_VERIFICATION_SETTINGS);
+  const [billing, setBilling] = useState<BillingSettings>(DEFAULT_BILLING_SETTINGS);
+  // Item whose attempts are open in the compare view
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [reviewId, setReviewId] = useState<string | null>(null);
+  const [maskId, setMaskId] = useState<string | null>(null);
+  const [filenameTemplate, setFilenameTemplate] = useState(DEFAULT_FILENAME_TEMPLATE);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>({ providerId: 'gemini', mockFailureMode: 'none' });
+  // Active batch manifest, also applied to files added later
+  const [manifest, setManifest] = useState<{ name: string; rows: ManifestRow[] } | null>(null);
+  const [runnerState, setRunnerState] = useState<JobRunnerSnapshot>({ running: 0, pending: 0, waiting: 0, paused: 0, isPaused: false });
+  // Initial prompt kept in English to maintain model performance as requested
+  const [globalPrompt, setGlobalPrompt] = useState(DEFAULT_GLOBAL_PROMPT);
+  // Built-in presets are named in the interface language they are first created in
+  const [presets, setPresets] = useState<PromptPreset[]>(() =>
+    BUILTIN_PRESETS.map(preset => ({ ...preset, name: t.builtinPresets[preset.id] ?? preset.name })));
+  const [dragActive, setDragActive] = useState(false);
+  const [importProgress, setImportProgress] = useState<{ done: number; total: number } | null>(null);
+  // Files skipped by recent imports, until dismissed
+  const [rejections, setRejections] = useState<ImportRejection[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [search, setSearch] = useState('');
+  const [queueView, setQueueView] = useState<QueueView>('list');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isDownloadingSelection, setIsDownloadingSelection] = useState(false);
+  // Where dragged items would land
+  const [dropTarget, setDropTarget] = useState<{ id: string; after: boolean } | null>(null);
+  const dragIdsRef = useRef<string[]>([]);
+  // Nothing is written back until the saved session has been restored
+  const [isRestored, setIsRestored] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Restore the previous session from IndexedDB
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const [savedQueue, savedPrompt, savedConcurrency, savedTemplate, savedManifest, savedProvider, savedVariants, savedAspectMode, savedVerification, savedPresets, savedBilling, savedImageSize, savedExportSettings, savedQueueView, savedTargetLanguage] = await Promise.all([
+          loadQueue(),
+          loadSetting<string>('globalPrompt'),
+          loadSetting<number>('concurrency'),
+          loadSetting<string>('filenameTemplate'),
+          loadSetting<{ name: string; rows: ManifestRow[] } | null>('manifest'),
+          loadSetting<ProviderSettings>('provider'),
+          loadSetting<number>('variantCount'),
+          loadSetting<AspectMode>('aspectMode'),
+          loadSetting<VerificationSettings>('verification'),
+          loadSetting<PromptPreset[]>('presets'),
+          loadSetting<BillingSettings>('billing'),
+          loadSetting<ImageSize>('imageSize'),
+          loadSetting<ExportSettings>('exportSettings'),
+          loadSetting<QueueView>('queueView'),
+          loadSetting<TargetLanguage>('targetLanguage')
+        ]);
+        setQueue(prev => [...savedQueue, ...prev]);
+        if (savedPrompt !== undefined) setGlobalPrompt(savedPrompt);
+        if (savedConcurrency !== undefined) setConcurrency(savedConcurrency);
+        if (savedTemplate !== undefined) setFilenameTemplate(savedTemplate);
+        if (savedManifest) setManifest(savedManifest);
+        if (savedProvider) setProviderSettings(savedProvider);
+        if (savedVariants !== undefined) setVariantCount(savedVariants);
+        if (savedAspectMode) setAspectMode(savedAspectMode);
+        if (savedTargetLanguage) setTargetLanguage(savedTargetLanguage);
+        if (savedImageSize) setImageSize(savedImageSize);
+        if (savedExportSettings) setExportSettings(savedExportSettings);
+        if (savedQueueView) setQueueView(savedQueueView);
+        if (savedVerification) setVerification(savedVerification);
+        if (savedPresets) setPresets(savedPresets);
+        // Models added since the table was saved get their default price
+        if (savedBilling) setBilling({ ...savedBilling, prices: { ...DEFAULT_PRICE_TABLE, ...savedBilling.prices } });
+        requestPersistentStorage();
+      } catch (err) {
+        console.error("Failed to restore saved queue:", err);
+      }
+      setIsRestored(true);
+    };
+    restore();
+  }, []);
+
+  useEffect(() => {
+    if (isRestored) saveQueue(queue);
+  }, [queue, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('globalPrompt', globalPrompt).catch(err => console.error("Failed to save prompt:", err));
+  }, [globalPrompt, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('presets', presets).catch(err => console.error("Failed to save presets:", err));
+  }, [presets, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('concurrency', concurrency).catch(err => console.error("Failed to save concurrency:", err));
+  }, [concurrency, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('variantCount', variantCount).catch(err => console.error("Failed to save variant count:", err));
+  }, [variantCount, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('imageSize', imageSize).catch(err => console.error("Failed to save image size:", err));
+  }, [imageSize, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('aspectMode', aspectMode).catch(err => console.error("Failed to save aspect mode:", err));
+  }, [aspectMode, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('targetLanguage', targetLanguage).catch(err => console.error("Failed to save target language:", err));
+  }, [targetLanguage, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('verification', verification).catch(err => console.error("Failed to save verification settings:", err));
+  }, [verification, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('billing', billing).catch(err => console.error("Failed to save billing settings:", err));
+  }, [billing, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('filenameTemplate', filenameTemplate).catch(err => console.error("Failed to save filename template:", err));
+  }, [filenameTemplate, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('exportSettings', exportSettings).catch(err => console.error("Failed to save export settings:", err));
+  }, [exportSettings, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('queueView', queueView).catch(err => console.error("Failed to save queue view:", err));
+  }, [queueView, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('manifest', manifest).catch(err => console.error("Failed to save manifest:", err));
+  }, [manifest, isRestored]);
+
+  useEffect(() => {
+    if (isRestored) saveSetting('provider', providerSettings).catch(err => console.error("Failed to save provider:", err));
+  }, [providerSettings, isRestored]);
+
+  // Rebuilt when settings change; jobs already running keep the provider they started with
+  const provider = useMemo(() => createProvider(providerSettings), [providerSettings]);
+  const providerRef = useRef(provider);
+  providerRef.current = provider;
+  
+  // Effect to check for API Key
+  useEffect(() => {
+    // Only AI Studio lets the user pick a key at runtime; the other modes are set at build time
+    if (KEY_MODE !== 'aistudio') {
+      setHasKey(KEY_MODE === 'proxy' || !!process.env.API_KEY);
+      return;
+    }
+    const checkKey = async () => {
+      if (window.aistudio) {
+        const selected = await window.aistudio.hasSelectedApiKey();
+        setHasKey(selected);
+      }
+    };
+    checkKey();
+    // Poll for key changes in case user sets it in another tab or dialog closes
+    const interval = setInterval(checkKey, 2000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleSelectKey = async () => {
+    if (window.aistudio) {
+      await window.aistudio.openSelectKey();
+      // We assume success or user interaction, polling will update state
+    }
+  };
+
+  // File Handling
+  const addSources = async (sources: ImportSource[]) => {
+    if (sources.length === 0) return;
+    setImportProgress({ done: 0, total: sources.length });
+    const { files, rejected } = await importSources(sources, (done, total) => setImportProgress({ done, total }));
+    setImportProgress(null);
+    if (rejected.length) setRejections(prev => [...prev, ...rejected]);
+
+    const newItems: QueueItem[] = files.map(({ file, relativePath, notes }) => ({
+      id: Math.random().toString(36).substr(2, 9),
+      file,
+      relativePath,
+      importNotes: notes,
+      previewUrl: URL.createObjectURL(file),
+      status: 'idle'
+    }));
+    setQueue(prev => [...prev, ...(manifest ? applyManifest(manifest.rows, newItems) : newItems)]);
+  };
+
+  const handleFiles = (input: HTMLInputElement) => {
+    if (input.files) addSources(collectInputSources(input.files));
+    // Allow picking the same files or folder again
+    input.value = '';
+  };
+
+  const importManifest = (rows: ManifestRow[], name: string) => {
+    setManifest({ name, rows });
+    setQueue(prev => applyManifest(rows, prev));
+  };
+
+  const manifestReport = useMemo(
+    () => manifest ? matchManifest(manifest.rows, queue).report : null,
+    [manifest, queue]
+  );
+
+  const onDragOver = (e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes(QUEUE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(true);
+  };
+
+  const onDragLeave = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+  };
+
+  const onDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+    collectDroppedSources(e.dataTransfer)
+      .then(addSources)
+      .catch(err => console.error("Failed to read dropped files:", err));
+  };
+
+  const removeItem = (id: string) => {
+    evictItems([id]);
+  };
+
+  // Drop items from the queue; the persistence effect deletes their stored data
+  const evictItems = (ids: string[]) => {
+    ids.forEach(id => runner.cancelJob(id));
+    queue.filter(item => ids.includes(item.id)).forEach(revokeItemUrls);
+    setQueue(prev => prev.filter(item => !ids.includes(item.id)));
+    setSelectedIds(prev => new Set([...prev].filter(id => !ids.includes(id))));
+  };
+
+  const clearQueue = () => {
+    runner.cancel();
+    queue.forEach(revokeItemUrls);
+    setQueue([]);
+    setSelectedIds(new Set());
+  };
+
+  const updateItemPrompt = (id: string, prompt: string) => {
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, customPrompt: prompt } : item));
+  };
+
+  const updateItemReplacements = (id: string, replacements: TextReplacement[]) => {
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, replacements } : item));
+  };
+
+  const updateItem = (id: string, patch: Partial<QueueItem>) => {
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  // Jobs look up the item when they start, so prompt edits made while queued still apply
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  const globalPromptRef = useRef(globalPrompt);
+  globalPromptRef.current = globalPrompt;
+  const presetsRef = useRef(presets);
+  presetsRef.current = presets;
+  const imageSizeRef = useRef(imageSize);
+  imageSizeRef.current = imageSize;
+  const aspectModeRef = useRef(aspectMode);
+  aspectModeRef.current = aspectMode;
+  const targetLanguageRef = useRef(targetLanguage);
+  targetLanguageRef.current = targetLanguage;
+  const verificationRef = useRef(verification);
+  verificationRef.current = verification;
+
+  // Attempts produced by each item's current run. Kept across retries and pauses,
+  // so a retry only generates the variants that are still missing.
+  // A finalising run carries the draft it finalises, whose prompt and framing it reuses.
+  const runsRef = useRef(new Map<string, {
+    target: number;
+    attemptIds: string[];
+    regenerated: number;
+    attempt: number;
+    imageSize: ImageSize;
+    draft?: GenerationInfo;
+  }>());
+
+  // End a run that produced at least one image; its best-verified attempt becomes the chosen result
+  const completeRun = (id: string, attemptIds: string[], error?: ItemError) => {
+    setQueue(prev => prev.map(item => {
+      if (item.id !== id) return item;
+      const best = pickBestAttempt((item.attempts ?? []).filter(attempt => attemptIds.includes(attempt.id)));
+      return { ...item, status: 'success', chosenAttemptId: best?.id ?? attemptIds[0], retryCount: undefined, error };
+    }));
+  };
+
+  const runnerRef = useRef<JobRunner | null>(null);
+  if (!runnerRef.current) {
+    runnerRef.current = createJobRunner({
+      concurrency: DEFAULT_CONCURRENCY,
+      maxRetries: MAX_RETRIES,
+      shouldRetry,
+      getRetryAfterMs,
+      onStart: (id, attempt) => {
+        const run = runsRef.current.get(id);
+        if (run) run.attempt = attempt;
+        updateItem(id, { status: 'processing', error: undefined, retryCount: attempt - 1 });
+      },
+      onRetry: (id, attempt, _delay, err) => updateItem(id, { retryCount: attempt, error: toItemError(err) }),
+      onPause: (id) => updateItem(id, { status: 'paused' }),
+      onCancel: (id) => {
+        runsRef.current.delete(id);
+        // Attempts made before the cancel stay in the history
+        setQueue(prev => prev.map(item => item.id === id
+          ? { ...item, status: item.attempts?.length ? 'success' : 'idle', retryCount: undefined, error: undefined }
+          : item));
+      },
+      onSuccess: (id) => {
+        const run = runsRef.current.get(id);
+        runsRef.current.delete(id);
+        if (run) completeRun(id, run.attemptIds);
+      },
+      onError: (id, err) => {
+        console.error("Error processing image:", err);
+        const error = toItemError(err);
+        const run = runsRef.current.get(id);
+        runsRef.current.delete(id);
+        // With AI Studio the user can pick another key; the "Connect API Key" screen takes over
+        const reconnectKey = error.code === 'auth' && KEY_MODE === 'aistudio' && !!window.aistudio && providerRef.current.requiresKey;
+
+        if (ERROR_POLICIES[error.code].stopsBatch) {
+          // Every other job would fail the same way, so the whole batch stops here
+          runnerRef.current?.cancel();
+          if (reconnectKey) setHasKey(false);
+        }
+
+        // Some variants made it; keep them and show the failure as a warning
+        if (run?.attemptIds.length) {
+          completeRun(id, run.attemptIds, error);
+        } else if (reconnectKey) {
+          updateItem(id, { status: 'idle' });
+        } else {
+          updateItem(id, { status: 'error', error, retryCount: undefined });
+        }
+      },
+      onChange: setRunnerState
+    });
+  }
+  const runner = runnerRef.current;
+
+  useEffect(() => {
+    runner.setConcurrency(concurrency);
+  }, [concurrency]);
+
+  // Masked items are always letterboxed: a reframed region couldn't be composited back in place
+  const getAspectMode = (item: QueueItem, globalMode: AspectMode): AspectMode => {
+    const mode = item.aspectMode ?? globalMode;
+    return hasMask(item.mask) && mode === 'nearest' ? 'pad' : mode;
+  };
+
+  const recordCall = (id: string, call: CallRecord) => {
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, calls: [...(item.calls ?? []), call] } : item));
+  };
+
+  // Processing Logic
+  const generateItem = async (id: string, signal: AbortSignal) => {
+    const item = queueRef.current.find(i => i.id === id);
+    const run = runsRef.current.get(id);
+    if (!item || !run) return;
+    const provider = meterProvider(providerRef.current, run.attempt, call => recordCall(id, call));
+
+    // With a mask, only the masked region is sent and later pasted back
+    const region = hasMask(item.mask) ? await cropToMask(item.file, item.mask) : undefined;
+    const source = region?.image ?? item.file;
+
+    // Ratio auto-detected from the source; pad / crop fit the source to it exactly
+    const aspectMode = run.draft?.aspectMode ?? getAspectMode(item, aspectModeRef.current);
+    const { image, mimeType, aspectRatio, frame } = await prepareSource(source, aspectMode);
+
+    // Construct prompt
+    const template = resolveTemplate(item, presetsRef.current, globalPromptRef.current);
+    const language = targetLanguageRef.current;
+    const finalPrompt = run.draft?.prompt ?? buildPrompt(template, item, aspectMode, language);
+    const { imageSize } = run;
+    const verify = verificationRef.current;
+    const expectedTexts = verify.enabled ? getExpectedTexts(item) : [];
+
+    while (run.attemptIds.length < run.target) {
+      const { images, model } = await provider.generate({
+        image,
+        mimeType,
+        prompt: finalPrompt,
+        imageSize,
+        aspectRatio,
+        signal
+      });
+
+      const outputs = images.slice(0, run.target - run.attemptIds.length);
+      // Back to the source's exact dimensions (a no-op in nearest mode)
+      const results = await Promise.all(outputs.map(async blob => {
+        const restored = await restoreResult(blob, frame, source);
+        return region && item.mask ? compositeMasked(item.file, restored, region, item.mask) : restored;
+      }));
+      // OCR reads the raw output, which for masked items is just the edited region
+      const verifications = expectedTexts.length
+        ? await Promise.all(outputs.map(blob => verifyResult(provider, blob, expectedTexts, language, signal)))
+        : [];
+
+      // The response can still arrive after a pause or cancel
+      if (signal.aborted) return;
+
+      const generation = { prompt: finalPrompt, model, imageSize, aspectRatio, aspectMode, completedAt: Date.now() };
+      const newAttempts = results.map((blob, i) => createAttempt(blob, generation, verifications[i]));
+      run.attemptIds.push(...newAttempts.map(attempt => attempt.id));
+
+      // Results that fail verification don't count towards the target, within a limit
+      if (verify.autoRegenerate) {
+        const failed = newAttempts.filter(attempt => isBelowThreshold(attempt.verification, verify.threshold)).length;
+        const extra = Math.min(failed, MAX_AUTO_REGENERATIONS - run.regenerated);
+        run.regenerated += extra;
+        run.target += extra;
+      }
+      setQueue(prev => prev.map(i => i.id === id ? { ...i, attempts: [...(i.attempts ?? []), ...newAttempts] } : i));
+    }
+  };
+
+  const getImageSize = (item: QueueItem, globalSize: ImageSize): ImageSize => item.imageSize ?? globalSize;
+
+  const enqueueItem = (item: QueueItem, draft?: GenerationInfo) => {
+    runsRef.current.set(item.id, {
+      // A finalising run makes one image: the draft was already picked from the variants
+      target: draft ? 1 : item.variants ?? variantCount,
+      attemptIds: [],
+      regenerated: 0,
+      attempt: 0,
+      imageSize: draft ? FINAL_IMAGE_SIZE : getImageSize(item, imageSizeRef.current),
+      draft
+    });
+    runner.add(item.id, signal => generateItem(item.id, signal));
+  };
+
+  const compareItem = queue.find(item => item.id === compareId && item.attempts?.length);
+  const reviewItems = queue.filter(item => item.status === 'success' && getChosenAttempt(item));
+  const isReviewing = reviewItems.some(item => item.id === reviewId);
+  const maskItem = queue.find(item => item.id === maskId);
+
+  const isProcessing = runnerState.running + runnerState.pending + runnerState.waiting > 0;
+  const pendingItems = queue.filter(item => (item.status === 'idle' || item.status === 'error') && !runner.has(item.id));
+
+  const usageSummary = useMemo(() => summarizeQueue(queue, billing.prices), [queue, billing.prices]);
+  const capReached = billing.spendCap !== null && usageSummary.cost >= billing.spendCap;
+  const batchEstimate = estimateBatch(
+    pendingItems,
+    { model: provider.model, ocrModel: provider.ocrModel, imageSize, variantCount, verify: verification.enabled },
+    billing.prices
+  );
+
+  // The queue order is the processing priority, including for jobs already waiting in the runner
+  const queueOrder = queue.map(item => item.id).join(',');
+  useEffect(() => {
+    runner.reorder(queue.map(item => item.id));
+  }, [queueOrder]);
+
+  // Stop dispatching once the spend cap is hit; requests already in flight still finish
+  useEffect(() => {
+    if (capReached && isProcessing && !runnerState.isPaused) runner.pause();
+  }, [capReached, isProcessing, runnerState.isPaused]);
+
+  // Every way of resuming goes through here, so none of them can undo the spend cap's pause
+  const resumeRunner = () => {
+    if (!capReached) runner.resume();
+  };
+
+  // Hand every idle / failed item to the runner; items added mid-run can be queued the same way
+  const processQueue = () => {
+    pendingItems.forEach(item => enqueueItem(item));
+    resumeRunner();
+  };
+
+  // Run a single item again with its current prompt; earlier attempts stay in its history
+  const regenerateItem = (item: QueueItem) => {
+    if (runner.has(item.id)) return;
+    enqueueItem(item);
+  };
+
+  // Re-run the chosen draft at full size with the exact prompt and framing it was made with
+  const finalizeItem = (item: QueueItem) => {
+    const chosen = getChosenAttempt(item);
+    if (!chosen || runner.has(item.id)) return;
+    enqueueItem(item, chosen.generation);
+  };
+
+  const downloadResult = async (item: QueueItem, index: number) => {
+    const attempt = getChosenAttempt(item);
+    if (!attempt) return;
+    try {
+      const blob = await encodeResult(attempt.blob, exportSettings);
+      downloadBlob(blob, getResultFilename(filenameTemplate, item, index, blob.type));
+    } catch (err) {
+      console.error("Failed to encode result:", err);
+      alert(t.queue.encodeFailed);
+    }
+  };
+
+  // Selection and bulk actions. None of them touch an item while it is processing.
+  const visibleItems = queue
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => matchesFilter(item, statusFilter, search));
+  const selectedItems = queue.filter(item => selectedIds.has(item.id));
+  const allVisibleSelected = visibleItems.length > 0 && visibleItems.every(({ item }) => selectedIds.has(item.id));
+  const isBusy = (item: QueueItem) => item.status === 'processing' || runner.has(item.id);
+
+  const setSelected = (ids: string[], selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => selected ? next.add(id) : next.delete(id));
+      return next;
+    });
+  };
+
+  // Like starting the batch, retrying resumes a paused runner; otherwise the jobs would just sit there
+  const retrySelected = () => {
+    selectedItems.filter(item => !isBusy(item)).forEach(item => enqueueItem(item));
+    if (runnerState.isPaused) resumeRunner();
+  };
+
+  const applyPromptToSelected = (presetId: string | undefined, note: string | undefined) => {
+    setQueue(prev => prev.map(item => selectedIds.has(item.id) && item.status !== 'processing'
+      ? { ...item, presetId, ...(note !== undefined ? { customPrompt: note } : {}) }
+      : item));
+  };
+
+  // Back to idle so the next batch picks them up; earlier attempts stay in the history
+  const resetSelected = () => {
+    const ids = selectedItems.filter(item => !isBusy(item)).map(item => item.id);
+    setQueue(prev => prev.map(item => ids.includes(item.id)
+      ? { ...item, status: 'idle', error: undefined, retryCount: undefined }
+      : item));
+  };
+
+  const removeSelected = () => {
+    const removable = selectedItems.filter(item => item.status !== 'processing');
+    if (removable.length && confirm(t.queue.confirmRemove(removable.length))) evictItems(removable.map(item => item.id));
+  };
+
+  const moveSelectedToFront = () => {
+    setQueue(prev => moveToFront(prev, [...selectedIds]));
+  };
+
+  const downloadSelected = async () => {
+    const ids = new Set<string>(selectedItems.filter(item => item.status === 'success' && getChosenAttempt(item)).map(item => item.id));
+    if (ids.size === 0) {
+      alert(t.queue.noSelectedResults);
+      return;
+    }
+    setIsDownloadingSelection(true);
+    try {
+      const zip = await buildResultsZip(queue, filenameTemplate, exportSettings, ids);
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[-:T]/g, '');
+      downloadBlob(zip, `Puti-AI-selected-${stamp}.zip`);
+    } catch (err) {
+      console.error("Failed to build ZIP:", err);
+      alert(t.common.zipFailed);
+    }
+    setIsDownloadingSelection(false);
+  };
+
+  // Drag to reorder. Dragging a selected item moves the whole selection; processing items stay put.
+  const getDragSourceProps = (item: QueueItem) => ({
+    draggable: item.status !== 'processing',
+    onDragStart: (e: React.DragEvent) => {
+      const ids = selectedIds.has(item.id)
+        ? selectedItems.filter(i => i.status !== 'processing').map(i => i.id)
+        : [item.id];
+      dragIdsRef.current = ids;
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData(QUEUE_DRAG_TYPE, ids.join(','));
+      const card = (e.currentTarget as HTMLElement).closest('[data-queue-item]');
+      if (card) e.dataTransfer.setDragImage(card, 20, 20);
+    },
+    onDragEnd: () => {
+      dragIdsRef.current = [];
+      setDropTarget(null);
+    }
+  });
+
+  const getDropTargetProps = (item: QueueItem) => {
+    const isTarget = dropTarget?.id === item.id;
+    const edge = queueView === 'grid'
+      ? (dropTarget?.after ? '3px 0 0 var(--accent-color)' : '-3px 0 0 var(--accent-color)')
+      : (dropTarget?.after ? '0 3px 0 var(--accent-color)' : '0 -3px 0 var(--accent-color)');
+    return {
+      'data-queue-item': item.id,
+      onDragOver: (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes(QUEUE_DRAG_TYPE)) return;
+        e.preventDefault();
+        const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+        const after = queueView === 'grid' ? e.clientX > rect.left + rect.width / 2 : e.clientY > rect.top + rect.height / 2;
+        if (!isTarget || dropTarget?.after !== after) setDropTarget({ id: item.id, after });
+      },
+      onDrop: (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes(QUEUE_DRAG_TYPE)) return;
+        e.preventDefault();
+        const after = dropTarget?.id === item.id && dropTarget.after;
+        setQueue(prev => moveItems(prev, dragIdsRef.current, item.id, after));
+        setDropTarget(null);
+      },
+      style: isTarget ? { boxShadow: edge } : undefined
+    };
+  };
+
+  // From the grid: results open in the viewer, anything else in the full list
+  const openTile = (item: QueueItem) => {
+    if (item.status === 'success' && getChosenAttempt(item)) {
+      setReviewId(item.id);
+      return;
+    }
+    setQueueView('list');
+    requestAnimationFrame(() => document.getElementById(`queue-item-${item.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+  };
+
+  const chooseAttempt = (id: string, attemptId: string) => {
+    updateItem(id, { chosenAttemptId: attemptId });
+  };
+
+  const deleteAttempt = (id: string, attemptId: string) => {
+    const deleted = queue.find(item => item.id === id)?.attempts?.find(attempt => attempt.id === attemptId);
+    if (deleted) URL.revokeObjectURL(deleted.url);
+    setQueue(prev => prev.map(item => {
+      if (item.id !== id) return item;
+      const attempts = (item.attempts ?? []).filter(attempt => attempt.id !== attemptId);
+      return {
+        ...item,
+        attempts,
+        chosenAttemptId: item.chosenAttemptId === attemptId ? undefined : item.chosenAttemptId,
+        status: item.status === 'success' && attempts.length === 0 ? 'idle' : item.status
+      };
+    }));
+  };
+
+  const togglePause = () => {
+    if (runnerState.isPaused) resumeRunner();
+    else runner.pause();
+  };
+
+  const cancelProcessing = () => {
+    runner.cancel();
+  };
+
+  if (!hasKey && provider.requiresKey) {
+    return (
+      <div style={{
+        display: 'flex', 
+        flexDirection: 'column', 
+        alignItems: 'center', 
+        justifyContent: 'center', 
+        height: '100vh',
+        gap: '20px',
+        textAlign: 'center'
+      }}>
+        <div style={{ padding: '20px', background: 'var(--surface-color)', borderRadius: '12px', border: '1px solid var(--border-color)', maxWidth: '400px' }}>
+          <ImageIcon size={48} color="var(--primary-color)" style={{ marginBottom: '16px' }} />
+          <h2>{t.welcome.title}</h2>
+          <p style={{ color: '#aaa', marginBottom: '24px' }}>
+            {t.welcome.body}
+          </p>
+          {KEY_MODE === 'aistudio' && window.aistudio ? (
+            <button className="btn" onClick={handleSelectKey}>
+              {t.welcome.connectKey}
+            </button>
+          ) : (
+            <p style={{ color: '#aaa', fontSize: '0.85rem' }}>
+              {KEY_MODE === 'aistudio'
+                ? t.welcome.notInAiStudio
+                : t.welcome.noBuildKey}
+            </p>
+          )}
+          <div style={{ marginTop: '12px' }}>
+            <button className="btn btn-secondary" onClick={() => setProviderSettings({ ...providerSettings, providerId: 'mock' })}>
+              {t.welcome.useMock}
+            </button>
+          </div>
+          <div style={{ marginTop: '16px', fontSize: '0.8rem' }}>
+            <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" style={{ color: 'var(--accent-color)' }}>
+              {t.welcome.billingDocs}
+            </a>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="app-container" style={{ minHeight: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <div style={{ flex: 1 }}>
+        {/* Header */}
+        <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '30px', borderBottom: '1px solid var(--border-color)', paddingBottom: '20px' }}>
+          <div>
+            <h1 style={{ margin: 0, fontSize: '1.5rem', display: 'flex', alignItems: 'center', gap: '10px' }}>
+              <ImageIcon /> {t.app.title}
+            </h1>
+            <p style={{ margin: '5px 0 0 0', color: '#888', fontSize: '0.9rem' }}>
+              {t.app.subtitle}
+            </p>
+          </div>
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <select
+              value={preference ?? ''}
+              onChange={(e) => setPreference((e.target.value || null) as Locale | null)}
+              title={t.app.interfaceLanguage}
+              aria-label={t.app.interfaceLanguage}
+            >
+              <option value="">{t.app.autoLanguage(LOCALES.find(l => l.id === detectLocale(navigator.languages ?? [navigator.language]))!.name)}</option>
+              {LOCALES.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+            <button className="btn btn-secondary" onClick={clearQueue} disabled={isProcessing || queue.length === 0}>
+              <Trash2 size={16} /> {t.app.clearAll}
+            </button>
+          </div>
+        </header>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '300px 1fr', gap: '30px' }}>
+          
+          {/* Left Sidebar: Controls */}
+          <div style={{ background: 'var(--surface-color)', padding: '20px', borderRadius: '12px', height: 'fit-content', border: '1px solid var(--border-color)' }}>
+            <h3 style={{ marginTop: 0, display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <Settings size={18} /> {t.settings.title}
+            </h3>
+            
+            <div className="input-group">
+              <label>{t.settings.globalPrompt}</label>
+              <textarea 
+                rows={5}
+                value={globalPrompt}
+                onChange={(e) => setGlobalPrompt(e.target.value)}
+                placeholder={t.settings.globalPromptPlaceholder}
+                style={{ resize: 'vertical' }}
+              />
+            </div>
+
+            <PresetPanel
+              presets={presets}
+              globalPrompt={globalPrompt}
+              onApply={setGlobalPrompt}
+              onChange={setPresets}
+            />
+
+            <div className="input-group">
+              <label>{t.settings.targetLanguage}</label>
+              <select value={targetLanguage} onChange={(e) => setTargetLanguage(e.target.value as TargetLanguage)}>
+                {TARGET_LANGUAGES.map(language => <option key={language} value={language}>{t.targetLanguages[language]}</option>)}
+              </select>
+              <div style={{ fontSize: '0.75rem', color: '#777' }}>{t.settings.targetLanguageHint}</div>
+            </div>
+
+            <div className="input-group">
+              <label>{t.settings.provider}</label>
+              <select
+                value={providerSettings.providerId}
+                onChange={(e) => setProviderSettings({ ...providerSettings, providerId: e.target.value as ProviderSettings['providerId'] })}
+              >
+                {PROVIDERS.map(id => <option key={id} value={id}>{t.providers[id]}</option>)}
+              </select>
+            </div>
+
+            {providerSettings.providerId === 'mock' && (
+              <div className="input-group">
+                <label>{t.settings.mockFailure}</label>
+                <select
+                  value={providerSettings.mockFailureMode}
+                  onChange={(e) => setProviderSettings({ ...providerSettings, mockFailureMode: e.target.value as ProviderSettings['mockFailureMode'] })}
+                >
+                  {MOCK_FAILURE_MODES.map(mode => <option key={mode} value={mode}>{t.mockFailures[mode]}</option>)}
+                </select>
+              </div>
+            )}
+
+            {providerSettings.providerId === 'gemini' && KEY_MODE === 'proxy' && (
+              <div className="input-group">
+                <label>{t.settings.proxyToken}</label>
+                <input
+                  type="password"
+                  value={providerSettings.proxyToken ?? ''}
+                  onChange={(e) => setProviderSettings({ ...providerSettings, proxyToken: e.target.value })}
+                  placeholder={t.settings.proxyTokenPlaceholder}
+                />
+              </div>
+            )}
+
+            <div className="input-group">
+              <label>{t.settings.variants}</label>
+              <select value={variantCount} onChange={(e) => setVariantCount(Number(e.target.value))}>
+                {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="input-group">
+              <label>{t.settings.imageSize}</label>
+              <select value={imageSize} onChange={(e) => setImageSize(e.target.value as ImageSize)}>
+                {IMAGE_SIZES.map(size => <option key={size} value={size}>{t.imageSizes[size]}</option>)}
+              </select>
+            </div>
+
+            <div className="input-group">
+              <label>{t.settings.aspectMode}</label>
+              <select value={aspectMode} onChange={(e) => setAspectMode(e.target.value as AspectMode)}>
+                {ASPECT_MODES.map(mode => <option key={mode} value={mode}>{t.aspectModes[mode]}</option>)}
+              </select>
+            </div>
+
+            <div className="input-group">
+              <label>{t.settings.verification}</label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.85rem', color: '#ccc' }}>
+                <input
+                  type="checkbox"
+                  checked={verification.enabled}
+                  onChange={(e) => setVerification({ ...verification, enabled: e.target.checked })}
+                />
+                {t.settings.verificationEnabled}
+              </label>
+              {verification.enabled && (
+                <>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.85rem', color: '#ccc' }}>
+                    {t.settings.threshold}
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={Math.round(verification.threshold * 100)}
+                      onChange={(e) => setVerification({ ...verification, threshold: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+                      style={{ width: '70px' }}
+                    />
+                    %
+                  </label>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.85rem', color: '#ccc' }}>
+                    <input
+                      type="checkbox"
+                      checked={verification.autoRegenerate}
+                      onChange={(e) => setVerification({ ...verification, autoRegenerate: e.target.checked })}
+                    />
+                    {t.settings.autoRegenerate(MAX_AUTO_REGENERATIONS)}
+                  </label>
+                </>
+              )}
+            </div>
+
+            <div className="input-group">
+              <label>{t.settings.concurrency}</label>
+              <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))}>
+                {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="input-group" style={{ marginTop: '20px' }}>
+              <button 
+                className="btn" 
+                onClick={processQueue} 
+                disabled={pendingItems.length === 0 || capReached}
+                style={{ justifyContent: 'center', background: isProcessing ? '#444' : 'var(--accent-color)' }}
+              >
+                {isProcessing ? (
+                  <> <Loader2 className="spin" size={20} /> {t.run.processing(runnerState.running, runnerState.pending + runnerState.waiting)} </>
+                ) : (
+                  <> <Play size={20} /> {t.run.start} </>
+                )}
+              </button>
+              {isProcessing && pendingItems.length > 0 && (
+                <div style={{ fontSize: '0.8rem', color: '#888', textAlign: 'center' }}>
+                  {t.run.addToBatch(pendingItems.length)}
+                </div>
+              )}
+              {pendingItems.length > 0 && (
+                <div style={{ fontSize: '0.8rem', color: '#888', textAlign: 'center' }}>
+                  {t.run.estimate(batchEstimate.calls, formatCost(batchEstimate.cost))}
+                  {billing.spendCap !== null && usageSummary.cost + batchEstimate.cost > billing.spendCap && (
+                    <span style={{ color: 'var(--error-color)' }}>{t.run.overCap}</span>
+                  )}
+                </div>
+              )}
+              {isProcessing && (
+                <div style={{ display: 'flex', gap: '10px', marginTop: '10px' }}>
+                  <button
+                    className="btn btn-secondary"
+                    onClick={togglePause}
+                    disabled={runnerState.isPaused && capReached}
+                    style={{ flex: 1, justifyContent: 'center' }}
+                  >
+                    {runnerState.isPaused ? <><Play size={16} /> {t.run.resume}</> : <><Pause size={16} /> {t.run.pause}</>}
+                  </button>
+                  <button className="btn btn-secondary" onClick={cancelProcessing} style={{ flex: 1, justifyContent: 'center' }}>
+                    <Square size={16} /> {t.run.stop}
+                  </button>
+                </div>
+              )}
+              {runnerState.isPaused && (
+                <div style={{ fontSize: '0.8rem', color: '#888', textAlign: 'center' }}>
+                  {t.run.pausedNote}
+                </div>
+              )}
+            </div>
+            
+            <div style={{ marginTop: '20px', padding: '15px', background: 'rgba(76, 141, 246, 0.1)', borderRadius: '8px', fontSize: '0.85rem', color: '#a8c7fa' }}>
+              <strong>{t.tips.title}</strong> 
+              <ul style={{ paddingLeft: '20px', margin: '10px 0 0 0' }}>
+                <li style={{ marginBottom: '5px' }}>{t.tips.aspect}</li>
+                <li>{t.tips.size[0]}<strong>{t.tips.size[1]}</strong>{t.tips.size[2]}</li>
+                <li>{t.tips.time}</li>
+                <li>{t.tips.saved}</li>
+              </ul>
+            </div>
+
+            <ManifestPanel
+              queue={queue}
+              manifestName={manifest?.name ?? null}
+              report={manifestReport}
+              onImport={importManifest}
+              onClear={() => setManifest(null)}
+            />
+
+            <ExportPanel
+              queue={queue}
+              filenameTemplate={filenameTemplate}
+              onTemplateChange={setFilenameTemplate}
+              settings={exportSettings}
+              onSettingsChange={setExportSettings}
+            />
+
+            <CostPanel summary={usageSummary} billing={billing} capReached={capReached} onChange={setBilling} />
+
+            <StoragePanel queue={queue} onEvict={evictItems} />
+          </div>
+
+          {/* Right Area: Upload & List */}
+          <div>
+            {/* Upload Area */}
+            <div 
+              onClick={() => fileInputRef.current?.click()}
+              onDragOver={onDragOver}
+              onDragLeave={onDragLeave}
+              onDrop={onDrop}
+              style={{
+                border: `2px dashed ${dragActive ? 'var(--accent-color)' : 'var(--border-color)'}`,
+                background: dragActive ? 'rgba(76, 141, 246, 0.05)' : 'transparent',
+                borderRadius: '12px',
+                padding: '40px',
+                textAlign: 'center',
+                cursor: 'pointer',
+                marginBottom: '30px',
+                transition: 'all 0.2s'
+              }}
+            >
+              <input 
+                type="file" 
+                multiple 
+                accept="image/*,.heic,.heif,application/pdf,.pdf" 
+                ref={fileInputRef} 
+                style={{ display: 'none' }} 
+                onChange={(e) => handleFiles(e.target)} 
+              />
+              <input
+                type="file"
+                webkitdirectory=""
+                ref={folderInputRef}
+                style={{ display: 'none' }}
+                onChange={(e) => handleFiles(e.target)}
+              />
+              <Upload size={32} color={dragActive ? "var(--accent-color)" : "#666"} />
+              <p style={{ margin: '10px 0 5px 0', fontSize: '1.1rem', fontWeight: 500 }}>
+                {t.upload.drop}
+              </p>
+              <p style={{ margin: 0, color: '#666', fontSize: '0.9rem' }}>
+                {t.upload.hint}
+              </p>
+              <button
+                className="btn btn-secondary"
+                onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click(); }}
+                style={{ marginTop: '15px', fontSize: '0.85rem', padding: '6px 12px' }}
+              >
+                <FolderOpen size={14} /> {t.upload.chooseFolder}
+              </button>
+              {importProgress && (
+                <div style={{ marginTop: '10px', color: 'var(--primary-color)', fontSize: '0.85rem', display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px' }}>
+                  <Loader2 className="spin" size={14} /> {t.upload.importing(importProgress.done, importProgress.total)}
+                </div>
+              )}
+            </div>
+
+            {rejections.length > 0 && (
+              <div style={{ marginTop: '-15px', marginBottom: '30px', padding: '12px 15px', background: 'rgba(242, 139, 130, 0.1)', borderRadius: '8px', fontSize: '0.85rem' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', color: 'var(--error-color)' }}>
+                  <strong>{t.upload.rejected(rejections.length)}</strong>
+                  <button
+                    onClick={() => setRejections([])}
+                    title={t.common.close}
+                    style={{ background: 'none', border: 'none', color: '#888', cursor: 'pointer', padding: 0 }}
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+                <ul style={{ margin: '8px 0 0', paddingLeft: '20px', color: '#ccc', maxHeight: '160px', overflow: 'auto' }}>
+                  {rejections.map((rejection, i) => (
+                    <li key={i}>{t.upload.rejection(rejection.name, formatImportProblem(t, rejection.problem))}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {queue.length > 0 && (
+              <QueueToolbar
+                filter={statusFilter}
+                counts={countByFilter(queue)}
+                search={search}
+                view={queueView}
+                visibleCount={visibleItems.length}
+                selectedCount={selectedItems.length}
+                allVisibleSelected={allVisibleSelected}
+                presets={presets}
+                isDownloading={isDownloadingSelection}
+                onFilterChange={setStatusFilter}
+                onSearchChange={setSearch}
+                onViewChange={setQueueView}
+                onSelectVisible={(selected) => setSelected(visibleItems.map(({ item }) => item.id), selected)}
+                onRetry={retrySelected}
+                onApplyPrompt={applyPromptToSelected}
+                onMoveToFront={moveSelectedToFront}
+                onReset={resetSelected}
+                onRemove={removeSelected}
+                onDownload={downloadSelected}
+              />
+            )}
+
+            {/* Queue List */}
+            <div style={queueView === 'grid'
+              ? { display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))', gap: '12px' }
+              : { display: 'flex', flexDirection: 'column', gap: '20px' }}
+            >
+              {queue.length === 0 && (
+                <div style={{ textAlign: 'center', padding: '40px', color: '#555' }}>
+                  {t.queue.empty}
+                </div>
+              )}
+              {queue.length > 0 && visibleItems.length === 0 && (
+                <div style={{ gridColumn: '1 / -1', textAlign: 'center', padding: '40px', color: '#555' }}>
+                  {t.queue.noMatch}
+                </div>
+              )}
+
+              {queueView === 'grid' && visibleItems.map(({ item, index }) => (
+                <React.Fragment key={item.id}>
+                  <QueueTile
+                    item={item}
+                    index={index}
+                    selected={selectedIds.has(item.id)}
+                    queued={runner.has(item.id)}
+                    onSelect={(selected) => setSelected([item.id], selected)}
+                    onOpen={() => openTile(item)}
+                    dragProps={{ ...getDragSourceProps(item), ...getDropTargetProps(item) }}
+                  />
+                </React.Fragment>
+              ))}
+
+              {queueView === 'list' && visibleItems.map(({ item, index }) => {
+                const attempts = item.attempts ?? [];
+                const chosen = getChosenAttempt(item);
+                const dropProps = getDropTargetProps(item);
+                return (
+                  <div key={item.id} id={`queue-item-${item.id}`} {...dropProps} style={{ 
+                    background: 'var(--surface-color)', 
+                    borderRadius: '12px', 
+                    border: `1px solid ${selectedIds.has(item.id) ? 'var(--accent-color)' : 'var(--border-color)'}`,
+                    overflow: 'hidden',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    ...dropProps.style
+                  }}>
+                    {/* Card Header */}
+                    <div style={{ 
+                      padding: '15px', 
+                      borderBottom: '1px solid var(--border-color)', 
+                      display: 'flex', 
+                      justifyContent: 'space-between', 
+                      alignItems: 'center',
+                      background: 'rgba(255,255,255,0.02)'
+                    }}>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                        <span
+                          {...getDragSourceProps(item)}
+                          title={item.status === 'processing' ? t.queue.dragDisabled : t.queue.dragHint}
+                          style={{ color: '#666', cursor: item.status === 'processing' ? 'not-allowed' : 'grab', display: 'flex' }}
+                        >
+                          <GripVertical size={16} />
+                        </span>
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(item.id)}
+                          onChange={(e) => setSelected([item.id], e.target.checked)}
+                        />
+                        <span style={{ 
+                          background: '#333', 
+                          width: '24px', 
+                          height: '24px', 
+                          borderRadius: '50%', 
+                          display: 'flex', 
+                          alignItems: 'center', 
+                          justifyContent: 'center',
+                          fontSize: '0.8rem',
+                          fontWeight: 'bold'
+                        }}>{index + 1}</span>
+                        <span title={getDisplayName(item)} style={{ fontSize: '0.9rem', color: '#eee', maxWidth: '300px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {getDisplayName(item)}
+                        </span>
+                        {!!item.importNotes?.length && <span style={{ fontSize: '0.75rem', color: '#777' }}>{formatImportNotes(t, item.importNotes)}</span>}
+                      </div>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                        {item.status === 'processing' && <span style={{ color: 'var(--primary-color)', fontSize: '0.85rem', display: 'flex', alignItems: 'center', gap: '5px' }}><Loader2 className="spin" size={14} /> {item.retryCount ? t.queue.retrying(item.retryCount) : t.queue.processing(runsRef.current.get(item.id)?.imageSize ?? getImageSize(item, imageSize))}</span>}
+                        {item.status === 'success' && <span style={{ color: 'var(--success-color)', fontSize: '0.85rem', display: 'flex', alignItems: 'center', gap: '5px' }}><Check size={14} /> {t.queue.success}</span>}
+                        {item.status === 'success' && <VerificationBadge verification={chosen?.verification} threshold={verification.threshold} />}
+                        {item.status === 'error' && <span style={{ color: 'var(--error-color)', fontSize: '0.85rem', display: 'flex', alignItems: 'center', gap: '5px' }}><AlertCircle size={14} /> {t.queue.error}</span>}
+                        {item.status === 'paused' && <span style={{ color: '#aaa', fontSize: '0.85rem', display: 'flex', alignItems: 'center', gap: '5px' }}><Pause size={14} /> {t.queue.paused}</span>}
+                        {item.status === 'idle' && <span style={{ color: '#666', fontSize: '0.85rem' }}>{runner.has(item.id) ? t.queue.queued : t.queue.idle}</span>}
+
+                        {item.status === 'processing' && (
+                          <button
+                            onClick={() => runner.pauseJob(item.id)}
+                            title={t.queue.pauseItem}
+                            style={{ background: 'none', border: 'none', color: '#666', cursor: 'pointer', padding: '5px' }}
+                          >
+                            <Pause size={16} />
+                          </button>
+                        )}
+                        {item.status === 'paused' && (
+                          <button
+                            onClick={() => runner.resumeJob(item.id)}
+                            title={t.queue.resumeItem}
+                            style={{ background: 'none', border: 'none', color: '#666', cursor: 'pointer', padding: '5px' }}
+                          >
+                            <Play size={16} />
+                          </button>
+                        )}
+                        {runner.has(item.id) && (
+                          <button
+                            onClick={() => runner.cancelJob(item.id)}
+                            title={t.queue.cancelItem}
+                            style={{ background: 'none', border: 'none', color: '#666', cursor: 'pointer', padding: '5px' }}
+                          >
+                            <Square size={16} />
+                          </button>
+                        )}
+                        
+                        <button 
+                          onClick={() => removeItem(item.id)}
+                          title={t.toolbar.remove}
+                          style={{ background: 'none', border: 'none', color: '#666', cursor: 'pointer', padding: '5px' }}
+                        >
+                          <X size={16} />
+                        </button>
+                      </div>
+                    </div>
+
+                    {/* Card Content */}
+                    <div style={{ padding: '20px', display: 'grid', gridTemplateColumns: '1fr 2fr 1fr', gap: '20px', alignItems: 'start' }}>
+                      {/* Source */}
+                      <div>
+                        <div style={{ fontSize: '0.8rem', color: '#888', marginBottom: '8px' }}>{t.queue.source}</div>
+                        <div style={{ 
+                          aspectRatio: item.status === 'success' ? 'auto' : '1', 
+                          background: '#000', 
+                          borderRadius: '8px', 
+                          overflow: 'hidden',
+                          display: 'flex',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          maxHeight: '200px'
+                        }}>
+                          <MaskedImage src={item.previewUrl} mask={item.mask} imageStyle={{ maxHeight: '200px' }} />
+                        </div>
+                        <button
+                          className="btn btn-secondary"
+                          onClick={() => setMaskId(item.id)}
+                          disabled={item.status === 'processing'}
+                          title={t.queue.maskHint}
+                          style={{ width: '100%', justifyContent: 'center', padding: '6px', fontSize: '0.8rem', marginTop: '8px' }}
+                        >
+                          <Scan size={14} /> {hasMask(item.mask) ? t.queue.editMask(item.mask.length) : t.queue.addMask}
+                        </button>
+                      </div>
+
+                      {/* Prompt Config */}
+                      <div>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px', fontSize: '0.8rem', color: '#888' }}>
+                          <span>{t.queue.prompt}</span>
+                          <select
+                            value={presets.some(preset => preset.id === item.presetId) ? item.presetId : ''}
+                            onChange={(e) => updateItem(item.id, { presetId: e.target.value || undefined })}
+                            disabled={item.status === 'processing'}
+                            style={{ padding: '4px 8px', fontSize: '0.8rem', minWidth: 0, flex: 1 }}
+                          >
+                            <option value="">{t.queue.globalPrompt}</option>
+                            {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                          </select>
+                        </div>
+                        <div style={{ fontSize: '0.8rem', color: '#888', marginBottom: '8px' }}>{t.queue.replacements}</div>
+                        <ReplacementEditor
+                          replacements={item.replacements ?? []}
+                          onChange={(replacements) => updateItemReplacements(item.id, replacements)}
+                          disabled={item.status === 'processing'}
+                        />
+                        <div style={{ fontSize: '0.8rem', color: '#888', margin: '12px 0 8px 0' }}>{t.queue.note}</div>
+                        <textarea 
+                          placeholder={t.queue.notePlaceholder}
+                          value={item.customPrompt || ''}
+                          onChange={(e) => updateItemPrompt(item.id, e.target.value)}
+                          disabled={item.status === 'processing'}
+                          rows={3}
+                          style={{ width: '100%', fontSize: '0.9rem' }}
+                        />
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '8px', fontSize: '0.8rem', color: '#888' }}>
+                          <span>{t.queue.variants}</span>
+                          <select
+                            value={item.variants ?? ''}
+                            onChange={(e) => updateItem(item.id, { variants: e.target.value ? Number(e.target.value) : undefined })}
+                            disabled={item.status === 'processing'}
+                            style={{ padding: '4px 8px', fontSize: '0.8rem' }}
+                          >
+                            <option value="">{t.queue.useDefault(String(variantCount))}</option>
+                            {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+                              <option key={n} value={n}>{n}</option>
+                            ))}
+                          </select>
+                          <span style={{ marginLeft: '8px' }}>{t.queue.imageSize}</span>
+                          <select
+                            value={item.imageSize ?? ''}
+                            onChange={(e) => updateItem(item.id, { imageSize: (e.target.value || undefined) as ImageSize | undefined })}
+                            disabled={item.status === 'processing'}
+                            style={{ padding: '4px 8px', fontSize: '0.8rem' }}
+                          >
+                            <option value="">{t.queue.useDefault(imageSize)}</option>
+                            {IMAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+                          </select>
+                          <span style={{ marginLeft: '8px' }}>{t.queue.aspectMode}</span>
+                          <select
+                            value={item.aspectMode ?? ''}
+                            onChange={(e) => updateItem(item.id, { aspectMode: (e.target.value || undefined) as AspectMode | undefined })}
+                            disabled={item.status === 'processing'}
+                            style={{ padding: '4px 8px', fontSize: '0.8rem', minWidth: 0, flex: 1 }}
+                          >
+                            <option value="">{t.queue.useDefault(t.aspectModes[aspectMode])}</option>
+                            {ASPECT_MODES.map(mode => <option key={mode} value={mode}>{t.aspectModes[mode]}</option>)}
+                          </select>
+                        </div>
+                        <details style={{ marginTop: '8px', fontSize: '0.8rem', color: '#888' }}>
+                          <summary style={{ cursor: 'pointer' }}>{t.queue.previewPrompt}</summary>
+                          <pre style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word', background: '#111', padding: '10px', borderRadius: '6px', color: '#ccc', fontFamily: 'inherit' }}>
+                            {buildPrompt(resolveTemplate(item, presets, globalPrompt), item, getAspectMode(item, aspectMode), targetLanguage)}
+                          </pre>
+                        </details>
+                        <UsageLine calls={item.calls ?? []} prices={billing.prices} />
+                        {item.error && (
+                           <div style={{ marginTop: '10px', color: item.status === 'error' ? 'var(--error-color)' : '#fdd663', fontSize: '0.85rem' }}>
+                             {item.status === 'error' ? t.queue.failedReason : t.queue.lastAttemptFailed} {t.errorCodes[item.error.code]}
+                             {item.error.blockReason && ` (${item.error.blockReason})`}
+                             <details style={{ marginTop: '6px', fontSize: '0.8rem', color: '#888' }}>
+                               <summary style={{ cursor: 'pointer' }}>{t.queue.errorDetails}</summary>
+                               <div style={{ marginTop: '6px' }}>
+                                 {t.queue.errorType}{item.error.code}{item.error.status !== undefined && ` · HTTP ${item.error.status}`} · {new Date(item.error.at).toLocaleString(locale)}
+                               </div>
+                               <pre style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word', background: '#111', padding: '10px', borderRadius: '6px', color: '#ccc', maxHeight: '240px', overflow: 'auto' }}>
+                                 {item.error.raw}
+                               </pre>
+                             </details>
+                           </div>
+                        )}
+                      </div>
+
+                      {/* Result */}
+                      <div>
+                        <div style={{ fontSize: '0.8rem', color: '#888', marginBottom: '8px' }}>{t.queue.result}{chosen && ` (${chosen.generation.imageSize})`}</div>
+                        {chosen ? (
+                          <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+                            <div
+                              onClick={() => item.status === 'success' && setReviewId(item.id)}
+                              style={{ 
+                                background: '#000', 
+                                borderRadius: '8px', 
+                                overflow: 'hidden',
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'center',
+                                maxHeight: '200px',
+                                cursor: item.status === 'success' ? 'zoom-in' : undefined
+                              }}
+                            >
+                              <img src={chosen.url} style={{ maxWidth: '100%', maxHeight: '200px', objectFit: 'contain' }} />
+                            </div>
+                            {attempts.length > 1 && (
+                              <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+                                {attempts.map((attempt, attemptIndex) => (
+                                  <button
+                                    key={attempt.id}
+                                    onClick={() => chooseAttempt(item.id, attempt.id)}
+                                    title={`${t.queue.attempt(attemptIndex + 1)}${attempt.verification && !attempt.verification.error ? ` · ${t.queue.attemptScore(Math.round(attempt.verification.score * 100))}` : ''}`}
+                                    style={{
+                                      width: '40px',
+                                      height: '40px',
+                                      padding: 0,
+                                      background: '#000',
+                                      border: `2px solid ${attempt.id === chosen.id ? 'var(--success-color)' : 'transparent'}`,
+                                      borderRadius: '4px',
+                                      cursor: 'pointer',
+                                      overflow: 'hidden'
+                                    }}
+                                  >
+                                    <img src={attempt.url} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                            {chosen.verification && <VerificationDetails verification={chosen.verification} />}
+                            <button
+                              className="btn"
+                              onClick={() => downloadResult(item, index)}
+                              style={{ width: '100%', justifyContent: 'center', padding: '8px', fontSize: '0.85rem' }}
+                            >
+                              <Download size={16} /> {t.queue.download(chosen.generation.imageSize, t.exportFormats[exportSettings.format])}
+                            </button>
+                            {chosen.generation.imageSize !== FINAL_IMAGE_SIZE && (
+                              <button
+                                className="btn btn-secondary"
+                                onClick={() => finalizeItem(item)}
+                                disabled={item.status === 'processing' || runner.has(item.id)}
+                                title={t.queue.finalizeHint}
+                                style={{ width: '100%', justifyContent: 'center', padding: '6px', fontSize: '0.8rem' }}
+                              >
+                                <Sparkles size={14} /> {t.queue.finalize(FINAL_IMAGE_SIZE)}
+                              </button>
+                            )}
+                            <div style={{ display: 'flex', gap: '8px' }}>
+                              <button
+                                className="btn btn-secondary"
+                                onClick={() => setCompareId(item.id)}
+                                style={{ flex: 1, justifyContent: 'center', padding: '6px', fontSize: '0.8rem' }}
+                              >
+                                <Columns size={14} /> {t.queue.compare(attempts.length)}
+                              </button>
+                              <button
+                                className="btn btn-secondary"
+                                onClick={() => setReviewId(item.id)}
+                                disabled={item.status !== 'success'}
+                                title={t.queue.reviewHint}
+                                style={{ flex: 1, justifyContent: 'center', padding: '6px', fontSize: '0.8rem' }}
+                              >
+                                <Maximize2 size={14} /> {t.queue.review}
+                              </button>
+                              <button
+                                className="btn btn-secondary"
+                                onClick={() => regenerateItem(item)}
+                                disabled={item.status === 'processing' || runner.has(item.id)}
+                                title={t.queue.regenerateHint}
+                                style={{ flex: 1, justifyContent: 'center', padding: '6px', fontSize: '0.8rem' }}
+                              >
+                                <RefreshCw size={14} /> {t.queue.regenerate}
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <div style={{ 
+                            height: '150px', 
+                            border: '1px dashed #444', 
+                            borderRadius: '8px', 
+                            display: 'flex', 
+                            alignItems: 'center', 
+                            justifyContent: 'center',
+                            color: '#444',
+                            fontSize: '0.8rem',
+                            fontStyle: 'italic'
+                          }}>
+                            {t.queue.waiting}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {compareItem && (
+        <AttemptCompare
+          item={compareItem}
+          onChoose={(attemptId) => chooseAttempt(compareItem.id, attemptId)}
+          onDelete={(attemptId) => deleteAttempt(compareItem.id, attemptId)}
+          onClose={() => setCompareId(null)}
+        />
+      )}
+
+      {maskItem && (
+        <MaskEditor
+          src={maskItem.previewUrl}
+          fileName={maskItem.file.name}
+          mask={maskItem.mask ?? []}
+          onSave={(mask) => {
+            updateItem(maskItem.id, { mask });
+            setMaskId(null);
+          }}
+          onClose={() => setMaskId(null)}
+        />
+      )}
+
+      {isReviewing && reviewId && (
+        <ReviewViewer
+          items={reviewItems}
+          currentId={reviewId}
+          onNavigate={setReviewId}
+          onClose={() => setReviewId(null)}
+        />
+      )}
+      
+      {/* Footer */}
+      <footer style={{ 
+        marginTop: '60px', 
+        paddingTop: '20px', 
+        borderTop: '1px solid var(--border-color)', 
+        textAlign: 'center', 
+        color: '#666',
+        fontSize: '0.85rem',
+        lineHeight: '1.6'
+      }}>
+        <div>{t.footer.author}</div>
+        <div>{t.footer.copyright}</div>
+        <div>{t.footer.nonCommercial}</div>
+        <div style={{ marginTop: '8px' }}>
+          {t.footer.more}<a href="https://padlet.com/clongwh/puti_ai_tools" target="_blank" style={{ color: 'var(--accent-color)', textDecoration: 'none' }}>{t.footer.library}</a>
+        </div>
+      </footer>
+      
+      <style>{`
+        .spin { animation: spin 1s linear infinite; }
+        @keyframes spin { 100% { transform: rotate(360deg); } }
+      `}</style>
+    </div>
+  );
+};
+
+export default App;
@@ -0,0 +1,127 @@
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ImageProvider } from '../services/providers/types';
+import { MOCK_MODEL, createMockProvider } from '../services/providers/mock';
+import { BatchOptions, BatchReport, REPORT_FILE, runBatch } from './batch';
+
+// Just enough of a PNG for the header reader: the signature and the IHDR size fields
+const png = (width: number, height: number) => {
+  const bytes = new Uint8Array(33);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  view.setUint32(8, 13);
+  bytes.set([0x49, 0x48, 0x44, 0x52], 12);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return bytes;
+};
+
+let root: string;
+let inputDir: string;
+let outputDir: string;
+let provider: ImageProvider;
+let generate: ReturnType<typeof vi.fn>;
+
+const run = (options: Partial<BatchOptions> = {}) => runBatch({
+  inputDir,
+  outputDir,
+  prompt: 'Fix {{name}}.',
+  concurrency: 2,
+  imageSize: '1K',
+  provider,
+  ...options
+});
+
+const readReport = async (): Promise<BatchReport> => JSON.parse(await readFile(path.join(outputDir, REPORT_FILE), 'utf8'));
+
+const generatedSources = () => generate.mock.calls.map(([request]) => request.image.name).sort();
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), 'puti-cli-'));
+  inputDir = path.join(root, 'in');
+  outputDir = path.join(root, 'out');
+  await mkdir(path.join(inputDir, 'menus'), { recursive: true });
+  await writeFile(path.join(inputDir, 'wide.png'), png(1600, 900));
+  await writeFile(path.join(inputDir, 'menus', 'tall.png'), png(900, 1600));
+
+  const mock = createMockProvider({ latencyMs: 0 });
+  generate = vi.fn(mock.generate);
+  provider = { ...mock, generate };
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('runBatch', () => {
+  it('writes every result and a report of what was sent', async () => {
+    const report = await run();
+
+    expect(generatedSources()).toEqual(['tall.png', 'wide.png']);
+    expect(await readFile(path.join(outputDir, 'wide.png'))).toEqual(Buffer.from(png(1600, 900)));
+    expect(await readFile(path.join(outputDir, 'menus', 'tall.png'))).toEqual(Buffer.from(png(900, 1600)));
+
+    // The file on disk is the report returned, with no temporary file left behind
+    expect(await readReport()).toEqual(report);
+    expect((await readdir(outputDir)).sort()).toEqual(['menus', REPORT_FILE, 'wide.png']);
+
+    expect(report.summary).toMatchObject({ total: 2, succeeded: 2, failed: 0, cancelled: 0, skipped: 0 });
+    expect(report.model).toBe(MOCK_MODEL);
+    expect(report.finishedAt).toBeDefined();
+    expect(report.items.map(({ source, status, output, aspectRatio, prompt }) => ({ source, status, output, aspectRatio, prompt }))).toEqual([
+      { source: 'menus/tall.png', status: 'success', output: 'menus/tall.png', aspectRatio: '9:16', prompt: 'Fix tall.' },
+      { source: 'wide.png', status: 'success', output: 'wide.png', aspectRatio: '16:9', prompt: 'Fix wide.' }
+    ]);
+    expect(report.items[0].calls).toHaveLength(1);
+  });
+
+  it('skips sources done in an earlier run', async () => {
+    await run();
+    generate.mockClear();
+
+    const report = await run();
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(report.summary).toMatchObject({ total: 2, succeeded: 0, skipped: 2 });
+    // Entries from the earlier run stay in the report
+    expect(report.items.map(entry => entry.status)).toEqual(['success', 'success']);
+    expect(await readReport()).toEqual(report);
+  });
+
+  it('redoes a source whose result was deleted, or that failed', async () => {
+    await writeFile(path.join(inputDir, 'blocked.png'), png(1000, 1000));
+    const first = await run({
+      manifestRows: [{ line: 2, file: 'blocked.png', prompt: '[mock:safety]' }]
+    });
+    expect(first.items.find(entry => entry.source === 'blocked.png')).toMatchObject({ status: 'error', error: { code: 'safety' } });
+    expect(first.summary).toMatchObject({ succeeded: 2, failed: 1 });
+
+    await rm(path.join(outputDir, 'wide.png'));
+    generate.mockClear();
+    const second = await run();
+
+    expect(generatedSources()).toEqual(['blocked.png', 'wide.png']);
+    expect(second.summary).toMatchObject({ total: 3, succeeded: 2, failed: 0, skipped: 1 });
+  });
+
+  it('regenerates everything with force', async () => {
+    await run();
+    generate.mockClear();
+
+    const report = await run({ force: true });
+
+    expect(generatedSources()).toEqual(['tall.png', 'wide.png']);
+    expect(report.summary).toMatchObject({ succeeded: 2, skipped: 0 });
+    expect(await readReport()).toEqual(report);
+  });
+
+  it('plans without calling the provider or writing anything on a dry run', async () => {
+    const report = await run({ dryRun: true });
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(report.items.map(entry => entry.status)).toEqual(['planned', 'planned']);
+    await expect(readdir(outputDir)).rejects.toThrow();
+  });
+});
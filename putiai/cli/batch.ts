@@ -0,0 +1,330 @@
+import { openAsBlob } from 'node:fs';
+import { access, mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { CallRecord, ErrorCode, ImageSize, QueueItem, TargetLanguage, TextVerification } from '../types';
+import { ImageProvider } from '../services/providers/types';
+import { buildPrompt } from '../services/prompt';
+import { ManifestRow, matchManifest } from '../services/manifest';
+import { createJobRunner } from '../services/jobRunner';
+import { ERROR_POLICIES, ProviderError, getRetryAfterMs, shouldRetry, toProviderError } from '../services/errors';
+import { DEFAULT_PRICE_TABLE, meterProvider, summarizeCalls } from '../services/usage';
+import { getExpectedTexts, verifyResult } from '../services/verify';
+import { DEFAULT_TARGET_LANGUAGE } from '../services/language';
+import { getExtension } from '../services/exporter';
+import { getClosestAspectRatio } from '../utils/image';
+import { readImageDimensions } from '../utils/dimensions';
+
+// Headless batch run over a folder: the same aspect-ratio detection, prompt
+// composition, retry policy and provider calls as the queue in the UI, with
+// results written next to a JSON report. Sources are sent as they are
+// (the "nearest" aspect mode); padding, cropping and masks need a canvas.
+//
+// The report is rewritten after every item, so an interrupted run resumes
+// where it stopped: sources whose result is already on disk are skipped.
+
+export const REPORT_FILE = 'puti-report.json';
+
+// Same ceiling as the UI queue
+const MAX_RETRIES = 5;
+
+const SOURCE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp'
+};
+
+export type ReportStatus = 'success' | 'error' | 'cancelled' | 'planned';
+
+export interface ReportEntry {
+  // Path relative to the input folder, with forward slashes
+  source: string;
+  status: ReportStatus;
+  // Path relative to the output folder
+  output?: string;
+  aspectRatio?: string;
+  prompt?: string;
+  model?: string;
+  imageSize?: ImageSize;
+  verification?: TextVerification;
+  calls: CallRecord[];
+  cost: number;
+  error?: { code: ErrorCode; detail: string };
+  completedAt?: string;
+}
+
+export interface BatchReport {
+  startedAt: string;
+  finishedAt?: string;
+  inputDir: string;
+  outputDir: string;
+  imageSize: ImageSize;
+  language: TargetLanguage;
+  model: string;
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+    cancelled: number;
+    // Done in an earlier run and left alone
+    skipped: number;
+    cost: number;
+  };
+  manifest?: {
+    // Line numbers of rows that matched no source
+    unmatchedRows: number[];
+    filesWithoutRow: string[];
+  };
+  items: ReportEntry[];
+}
+
+export interface BatchOptions {
+  inputDir: string;
+  outputDir: string;
+  // Global prompt template, may use {{variables}}
+  prompt: string;
+  manifestRows?: ManifestRow[];
+  concurrency: number;
+  imageSize: ImageSize;
+  // What the replacement text is written in; Traditional Chinese by default
+  language?: TargetLanguage;
+  provider: ImageProvider;
+  // OCR each result against its replacement texts
+  verify?: boolean;
+  // Regenerate sources that already have a result
+  force?: boolean;
+  // Work out ratios and prompts without calling the provider or writing anything
+  dryRun?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (entry: ReportEntry, done: number, total: number) => void;
+  onRetry?: (source: string, attempt: number, delayMs: number, error: ProviderError) => void;
+}
+
+const toPosix = (relative: string) => relative.split(path.sep).join('/');
+
+const exists = (file: string) => access(file).then(() => true, () => false);
+
+// Image files under dir, hidden entries and the output folder excluded, sorted for a stable order
+const collectSources = async (dir: string, exclude: string): Promise<string[]> => {
+  const found: string[] = [];
+  const walk = async (current: string) => {
+    const entries = await readdir(current, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (full !== exclude) await walk(full);
+      } else if (entry.isFile() && SOURCE_TYPES[path.extname(entry.name).toLowerCase()]) {
+        found.push(toPosix(path.relative(dir, full)));
+      }
+    }
+  };
+  await walk(dir);
+  return found.sort();
+};
+
+const loadReport = async (file: string): Promise<BatchReport | undefined> => {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch {
+    return undefined;
+  }
+};
+
+// Write to a temporary file first so an interrupted write never leaves a truncated report
+const saveReport = async (file: string, report: BatchReport) => {
+  await writeFile(`${file}.tmp`, JSON.stringify(report, null, 2));
+  await rename(`${file}.tmp`, file);
+};
+
+const stripExtension = (name: string) => name.replace(/\.[^./]+$/, '');
+
+// photo.jpg -> photo.png, unless another source shares the stem (photo.png), then photo.jpg.png
+const getOutputPath = (source: string, mimeType: string, sharedStems: Set<string>) => {
+  const stem = stripExtension(source);
+  return `${sharedStems.has(stem) ? source : stem}.${getExtension(mimeType)}`;
+};
+
+const createItem = async (inputDir: string, source: string): Promise<QueueItem> => {
+  const type = SOURCE_TYPES[path.extname(source).toLowerCase()];
+  // Backed by the file on disk, read only when the job runs
+  const blob = await openAsBlob(path.join(inputDir, source), { type });
+  return {
+    id: source,
+    file: new File([blob], path.posix.basename(source), { type }),
+    relativePath: source,
+    previewUrl: '',
+    status: 'idle'
+  };
+};
+
+export const runBatch = async (options: BatchOptions): Promise<BatchReport> => {
+  const { inputDir, outputDir, prompt, imageSize, provider } = options;
+  const language = options.language ?? DEFAULT_TARGET_LANGUAGE;
+  const reportFile = path.join(outputDir, REPORT_FILE);
+
+  const sources = await collectSources(inputDir, outputDir);
+  const previous = options.force ? undefined : await loadReport(reportFile);
+  const previousEntries = new Map((previous?.items ?? []).map(entry => [entry.source, entry]));
+
+  // Done means a successful entry whose output file is still there
+  const done = new Map<string, ReportEntry>();
+  for (const source of sources) {
+    const entry = previousEntries.get(source);
+    if (entry?.status === 'success' && entry.output && await exists(path.join(outputDir, entry.output))) {
+      done.set(source, entry);
+    }
+  }
+
+  // Every source takes part in manifest matching, so resumed runs report the same unmatched rows
+  const allItems = await Promise.all(sources.map(source => createItem(inputDir, source)));
+  const items = allItems.filter(item => !done.has(item.id));
+
+  const stems = sources.map(stripExtension);
+  const sharedStems = new Set(stems.filter((stem, index) => stems.indexOf(stem) !== index));
+
+  let manifest: BatchReport['manifest'];
+  if (options.manifestRows) {
+    const { assignments, report } = matchManifest(options.manifestRows, allItems);
+    items.forEach(item => Object.assign(item, assignments.get(item.id)));
+    manifest = { unmatchedRows: report.unmatchedRows.map(row => row.line), filesWithoutRow: report.filesWithoutRow };
+  }
+
+  const entries = new Map<string, ReportEntry>();
+  const report: BatchReport = {
+    startedAt: new Date().toISOString(),
+    inputDir,
+    outputDir,
+    imageSize,
+    language,
+    model: provider.model,
+    summary: { total: sources.length, succeeded: 0, failed: 0, cancelled: 0, skipped: done.size, cost: 0 },
+    manifest,
+    items: []
+  };
+
+  const buildReport = (): BatchReport => {
+    const items = sources.map(source => done.get(source) ?? entries.get(source)).filter((entry): entry is ReportEntry => !!entry);
+    const count = (status: ReportStatus) => items.filter(entry => entry.status === status && !done.has(entry.source)).length;
+    return {
+      ...report,
+      summary: {
+        ...report.summary,
+        succeeded: count('success'),
+        failed: count('error'),
+        cancelled: count('cancelled'),
+        cost: summarizeCalls(items.flatMap(entry => entry.calls), DEFAULT_PRICE_TABLE).cost
+      },
+      items
+    };
+  };
+
+  const prepare = async (item: QueueItem) => {
+    const dimensions = readImageDimensions(new Uint8Array(await item.file.arrayBuffer()));
+    if (!dimensions) throw new ProviderError('invalid_input', `Could not read the image size of ${item.id}`);
+    return {
+      aspectRatio: getClosestAspectRatio(dimensions.width, dimensions.height),
+      prompt: buildPrompt(prompt, item, 'nearest', language)
+    };
+  };
+
+  if (options.dryRun) {
+    for (const item of items) {
+      const entry: ReportEntry = { source: item.id, status: 'planned', imageSize, calls: [], cost: 0 };
+      try {
+        Object.assign(entry, await prepare(item));
+      } catch (err) {
+        const error = toProviderError(err);
+        entry.status = 'error';
+        entry.error = { code: error.code, detail: error.message };
+      }
+      entries.set(item.id, entry);
+      options.onProgress?.(entry, entries.size, items.length);
+    }
+    return buildReport();
+  }
+
+  await mkdir(outputDir, { recursive: true });
+
+  // Report writes are chained so they never interleave
+  let saving = Promise.resolve();
+  const persist = () => {
+    saving = saving.then(() => saveReport(reportFile, buildReport()));
+    return saving;
+  };
+
+  const attempts = new Map<string, number>();
+
+  const generateItem = async (item: QueueItem, signal: AbortSignal) => {
+    const entry = entries.get(item.id)!;
+    const metered = meterProvider(provider, attempts.get(item.id) ?? 1, call => entry.calls.push(call));
+    const { aspectRatio, prompt: finalPrompt } = await prepare(item);
+    Object.assign(entry, { aspectRatio, prompt: finalPrompt });
+
+    const { images, model } = await metered.generate({
+      image: item.file,
+      mimeType: item.file.type,
+      prompt: finalPrompt,
+      imageSize,
+      aspectRatio,
+      signal
+    });
+    const image = images[0];
+    const expectedTexts = options.verify ? getExpectedTexts(item) : [];
+    const verification = expectedTexts.length ? await verifyResult(metered, image, expectedTexts, language, signal) : undefined;
+    if (signal.aborted) return;
+
+    const output = getOutputPath(item.id, image.type, sharedStems);
+    await mkdir(path.dirname(path.join(outputDir, output)), { recursive: true });
+    await writeFile(path.join(outputDir, output), new Uint8Array(await image.arrayBuffer()));
+    Object.assign(entry, { output, model, verification, error: undefined });
+  };
+
+  await new Promise<void>(resolve => {
+    if (items.length === 0) return resolve();
+    let settled = 0;
+
+    const finish = (id: string, status: ReportStatus, err?: unknown) => {
+      const entry = entries.get(id)!;
+      entry.status = status;
+      entry.cost = summarizeCalls(entry.calls, DEFAULT_PRICE_TABLE).cost;
+      entry.completedAt = new Date().toISOString();
+      if (err !== undefined) {
+        const error = toProviderError(err);
+        entry.error = { code: error.code, detail: error.message };
+      }
+      settled++;
+      options.onProgress?.(entry, settled, items.length);
+      persist().catch(error => console.error('Failed to write report:', error));
+      if (settled === items.length) resolve();
+    };
+
+    const runner = createJobRunner({
+      concurrency: options.concurrency,
+      // Per-error limits come from ERROR_POLICIES through shouldRetry
+      maxRetries: MAX_RETRIES,
+      shouldRetry,
+      getRetryAfterMs,
+      onStart: (id, attempt) => attempts.set(id, attempt),
+      onRetry: (id, attempt, delayMs, error) => options.onRetry?.(id, attempt, delayMs, toProviderError(error)),
+      onSuccess: id => finish(id, 'success'),
+      onError: (id, err) => {
+        finish(id, 'error', err);
+        // Every other job would fail the same way
+        if (ERROR_POLICIES[toProviderError(err).code].stopsBatch) runner.cancel();
+      },
+      onCancel: id => finish(id, 'cancelled')
+    });
+
+    options.signal?.addEventListener('abort', () => runner.cancel(), { once: true });
+    items.forEach(item => {
+      entries.set(item.id, { source: item.id, status: 'planned', imageSize, calls: [], cost: 0 });
+      runner.add(item.id, signal => generateItem(item, signal));
+    });
+    if (options.signal?.aborted) runner.cancel();
+  });
+
+  report.finishedAt = new Date().toISOString();
+  await persist();
+  return buildReport();
+};
@@ -0,0 +1,172 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { ImageSize, TargetLanguage } from '../types';
+import { createGeminiProvider } from '../services/providers/gemini';
+import { createMockProvider } from '../services/providers/mock';
+import { parseManifest } from '../services/manifest';
+import { DEFAULT_GLOBAL_PROMPT } from '../services/presets';
+import { DEFAULT_TARGET_LANGUAGE, TARGET_LANGUAGES } from '../services/language';
+import { REPORT_FILE, runBatch } from './batch';
+
+// Unattended batch runs from a folder, for pipelines.
+//
+//   GEMINI_API_KEY=... npm run cli -- --input ./posters --out ./results --manifest texts.csv
+//
+// Set PUTI_PROXY_URL (and PUTI_PROXY_TOKEN) to go through the proxy server instead of holding a key,
+// or pass --provider mock to run offline without any.
+
+const USAGE = `Usage: npm run cli -- --input <dir> --out <dir> [options]
+
+  -i, --input <dir>        Folder of PNG / JPEG / WebP sources, searched recursively
+  -o, --out <dir>          Where results and ${REPORT_FILE} are written
+  -p, --prompt <text>      Global prompt template (default: the built-in text replacement prompt)
+      --prompt-file <file> Read the global prompt from a file
+  -m, --manifest <file>    CSV or JSON manifest of per-file prompts and replacements
+  -c, --concurrency <n>    Parallel requests (default 2)
+  -s, --size <size>        1K, 2K or 4K (default 4K)
+  -l, --language <lang>    Language of the replacement text: zh-Hant, zh-Hans, ja or en (default zh-Hant)
+      --provider <name>    gemini, or mock to run offline with the sources copied as results (default gemini)
+      --verify             OCR each result against its replacement texts
+      --force              Regenerate sources already done in an earlier run
+      --dry-run            Print each source's ratio and prompt without calling the API
+  -h, --help               Show this message`;
+
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+const PROVIDERS = ['gemini', 'mock'];
+const MAX_CONCURRENCY = 8;
+
+class UsageError extends Error {}
+
+const readArgs = () => {
+  try {
+    return parseArgs({
+      options: {
+        input: { type: 'string', short: 'i' },
+        out: { type: 'string', short: 'o' },
+        prompt: { type: 'string', short: 'p' },
+        'prompt-file': { type: 'string' },
+        manifest: { type: 'string', short: 'm' },
+        concurrency: { type: 'string', short: 'c', default: '2' },
+        size: { type: 'string', short: 's', default: '4K' },
+        language: { type: 'string', short: 'l', default: DEFAULT_TARGET_LANGUAGE },
+        provider: { type: 'string', default: 'gemini' },
+        verify: { type: 'boolean', default: false },
+        force: { type: 'boolean', default: false },
+        'dry-run': { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    }).values;
+  } catch (err) {
+    // Unknown or malformed options
+    throw new UsageError((err as Error).message);
+  }
+};
+
+const parseOptions = () => {
+  const values = readArgs();
+  if (values.help) return undefined;
+
+  if (!values.input || !values.out) throw new UsageError('--input and --out are required');
+  const inputDir = path.resolve(values.input);
+  const outputDir = path.resolve(values.out);
+  if (inputDir === outputDir) throw new UsageError('--out must differ from --input');
+
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+    throw new UsageError(`--concurrency must be between 1 and ${MAX_CONCURRENCY}`);
+  }
+  const imageSize = values.size?.toUpperCase() as ImageSize;
+  if (!IMAGE_SIZES.includes(imageSize)) throw new UsageError(`--size must be one of ${IMAGE_SIZES.join(', ')}`);
+  const language = values.language as TargetLanguage;
+  if (!TARGET_LANGUAGES.includes(language)) throw new UsageError(`--language must be one of ${TARGET_LANGUAGES.join(', ')}`);
+  if (!PROVIDERS.includes(values.provider!)) throw new UsageError(`--provider must be one of ${PROVIDERS.join(', ')}`);
+
+  return {
+    inputDir,
+    outputDir,
+    prompt: values.prompt,
+    promptFile: values['prompt-file'],
+    manifest: values.manifest,
+    concurrency,
+    imageSize,
+    language,
+    providerName: values.provider!,
+    verify: values.verify,
+    force: values.force,
+    dryRun: values['dry-run']
+  };
+};
+
+const createProvider = (name: string) => {
+  if (name === 'mock') return createMockProvider();
+  const proxyUrl = process.env.PUTI_PROXY_URL;
+  if (proxyUrl) {
+    // The proxy ignores the key unless it checks tokens, but the SDK needs one
+    return createGeminiProvider(() => process.env.PUTI_PROXY_TOKEN || 'proxy', { baseUrl: proxyUrl, requiresKey: false });
+  }
+  if (!process.env.GEMINI_API_KEY) throw new UsageError('Set GEMINI_API_KEY, or PUTI_PROXY_URL to use the proxy server');
+  return createGeminiProvider(() => process.env.GEMINI_API_KEY);
+};
+
+const main = async () => {
+  const options = parseOptions();
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const prompt = options.promptFile ? await readFile(options.promptFile, 'utf8') : options.prompt ?? DEFAULT_GLOBAL_PROMPT;
+  const manifestRows = options.manifest
+    ? parseManifest(await readFile(options.manifest, 'utf8'), options.manifest)
+    : undefined;
+  const provider = options.dryRun && options.providerName === 'gemini'
+    ? createGeminiProvider(() => undefined)
+    : createProvider(options.providerName);
+
+  // First Ctrl+C cancels in-flight requests and writes the report; a second one exits at once
+  const controller = new AbortController();
+  process.on('SIGINT', () => {
+    if (controller.signal.aborted) process.exit(130);
+    console.error('Cancelling, press Ctrl+C again to exit immediately');
+    controller.abort();
+  });
+
+  const report = await runBatch({
+    ...options,
+    prompt,
+    manifestRows,
+    provider,
+    signal: controller.signal,
+    onProgress: (entry, done, total) => {
+      const detail = entry.status === 'error'
+        ? `${entry.error?.code}: ${entry.error?.detail}`
+        : options.dryRun ? `${entry.aspectRatio}\n${entry.prompt}\n` : entry.output ?? '';
+      console.error(`[${done}/${total}] ${entry.status} ${entry.source} ${detail}`);
+    },
+    onRetry: (source, attempt, delayMs, error) => {
+      console.error(`Retrying ${source} in ${Math.round(delayMs / 1000)}s (attempt ${attempt}, ${error.code})`);
+    }
+  });
+
+  const { summary } = report;
+  if (report.manifest?.unmatchedRows.length) {
+    console.error(`Manifest rows matching no source: ${report.manifest.unmatchedRows.join(', ')}`);
+  }
+  console.error(
+    `${summary.succeeded} succeeded, ${summary.failed} failed, ${summary.cancelled} cancelled, ` +
+    `${summary.skipped} skipped of ${summary.total}; estimated cost $${summary.cost.toFixed(2)}`
+  );
+  if (!options.dryRun) console.error(`Report: ${path.join(options.outputDir, REPORT_FILE)}`);
+
+  if (controller.signal.aborted) return 130;
+  return summary.failed > 0 || summary.cancelled > 0 ? 1 : 0;
+};
+
+main().then(
+  code => { process.exitCode = code; },
+  err => {
+    console.error(err instanceof UsageError ? `${err.message}\n\n${USAGE}` : err);
+    process.exitCode = err instanceof UsageError ? 2 : 1;
+  }
+);
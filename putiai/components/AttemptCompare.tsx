@@ -0,0 +1,114 @@
+import React, { useEffect } from 'react';
+import { X, Check, Trash2 } from 'lucide-react';
+import { QueueItem } from '../types';
+import { getChosenAttempt } from '../services/attempts';
+import { VerificationDetails } from './VerificationBadge';
+import { useI18n } from '../i18n';
+
+interface AttemptCompareProps {
+  item: QueueItem;
+  onChoose: (attemptId: string) => void;
+  onDelete: (attemptId: string) => void;
+  onClose: () => void;
+}
+
+const cardStyle: React.CSSProperties = {
+  background: 'var(--surface-color)',
+  border: '1px solid var(--border-color)',
+  borderRadius: '12px',
+  overflow: 'hidden',
+  display: 'flex',
+  flexDirection: 'column'
+};
+
+const imageBoxStyle: React.CSSProperties = {
+  background: '#000',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  height: '45vh'
+};
+
+// Side-by-side view of every attempt generated for an item
+const AttemptCompare = ({ item, onChoose, onDelete, onClose }: AttemptCompareProps) => {
+  const { locale, t } = useI18n();
+  const attempts = item.attempts ?? [];
+  const chosen = getChosenAttempt(item);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      onClick={onClose}
+      style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.85)', zIndex: 100, overflowY: 'auto', padding: '30px' }}
+    >
+      <div onClick={(e) => e.stopPropagation()} style={{ maxWidth: '1600px', margin: '0 auto' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+          <h2 style={{ margin: 0, fontSize: '1.2rem' }}>{t.compare.title(item.file.name)}</h2>
+          <button className="btn btn-secondary" onClick={onClose}>
+            <X size={16} /> {t.common.close}
+          </button>
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(360px, 1fr))', gap: '20px' }}>
+          <div style={cardStyle}>
+            <div style={imageBoxStyle}>
+              <img src={item.previewUrl} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+            </div>
+            <div style={{ padding: '12px', fontSize: '0.85rem', color: '#888' }}>{t.compare.source}</div>
+          </div>
+
+          {attempts.map((attempt, index) => {
+            const isChosen = attempt.id === chosen?.id;
+            return (
+              <div key={attempt.id} style={{ ...cardStyle, borderColor: isChosen ? 'var(--success-color)' : 'var(--border-color)' }}>
+                <div style={imageBoxStyle}>
+                  <img src={attempt.url} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+                </div>
+                <div style={{ padding: '12px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.85rem' }}>
+                    <span>{t.queue.attempt(index + 1)}</span>
+                    <span style={{ color: '#888' }}>{new Date(attempt.generation.completedAt).toLocaleString(locale)}</span>
+                  </div>
+                  {attempt.verification && <VerificationDetails verification={attempt.verification} />}
+                  <details style={{ fontSize: '0.8rem', color: '#888' }}>
+                    <summary style={{ cursor: 'pointer' }}>{t.compare.prompt}</summary>
+                    <pre style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word', fontFamily: 'inherit', color: '#ccc' }}>
+                      {attempt.generation.prompt}
+                    </pre>
+                  </details>
+                  <div style={{ display: 'flex', gap: '8px' }}>
+                    <button
+                      className="btn"
+                      onClick={() => onChoose(attempt.id)}
+                      disabled={isChosen}
+                      style={{ flex: 1, justifyContent: 'center', padding: '8px', fontSize: '0.85rem', background: isChosen ? 'var(--success-color)' : undefined, color: isChosen ? '#000' : undefined }}
+                    >
+                      <Check size={14} /> {isChosen ? t.compare.chosen : t.compare.choose}
+                    </button>
+                    <button
+                      className="btn btn-secondary"
+                      onClick={() => onDelete(attempt.id)}
+                      title={t.compare.deleteHint}
+                      style={{ padding: '8px' }}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttemptCompare;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { Receipt } from 'lucide-react';
+import { CallRecord } from '../types';
+import { BillingSettings, DEFAULT_PRICE_TABLE, PriceTable, UsageSummary, summarizeCalls } from '../services/usage';
+import { formatBytes } from '../utils/image';
+import { Messages, useI18n } from '../i18n';
+
+interface CostPanelProps {
+  summary: UsageSummary;
+  billing: BillingSettings;
+  capReached: boolean;
+  onChange: (billing: BillingSettings) => void;
+}
+
+export const formatCost = (usd: number) => `US$ ${usd < 1 ? usd.toFixed(3) : usd.toFixed(2)}`;
+
+const formatSeconds = (ms: number, t: Messages) => t.cost.seconds((ms / 1000).toFixed(1));
+
+// One-line usage summary for a single item
+export const UsageLine = ({ calls, prices }: { calls: CallRecord[]; prices: PriceTable }) => {
+  const { locale, t } = useI18n();
+  if (calls.length === 0) return null;
+  const summary = summarizeCalls(calls, prices);
+  const parts = [
+    t.cost.lineCalls(summary.calls),
+    formatSeconds(summary.latencyMs, t),
+    `${(summary.inputTokens + summary.outputTokens).toLocaleString(locale)} tokens`,
+    formatCost(summary.cost)
+  ];
+  if (summary.retries) parts.push(t.cost.lineRetries(summary.retries));
+  if (summary.outputBytes) parts.push(formatBytes(summary.outputBytes));
+  return <div style={{ marginTop: '8px', fontSize: '0.75rem', color: '#777' }}>{parts.join(' · ')}</div>;
+};
+
+const CostPanel = ({ summary, billing, capReached, onChange }: CostPanelProps) => {
+  const { locale, t } = useI18n();
+  const setPrice = (model: string, field: 'inputPerMillion' | 'outputPerMillion', value: number) => {
+    onChange({ ...billing, prices: { ...billing.prices, [model]: { ...billing.prices[model], [field]: value } } });
+  };
+
+  return (
+    <div style={{ marginTop: '20px', paddingTop: '20px', borderTop: '1px solid var(--border-color)' }}>
+      <h3 style={{ marginTop: 0, display: 'flex', alignItems: 'center', gap: '8px', fontSize: '1rem' }}>
+        <Receipt size={16} /> {t.cost.title}
+      </h3>
+
+      <div style={{ fontSize: '0.85rem', color: '#aaa', lineHeight: '1.6' }}>
+        <div>{t.cost.calls(summary.calls, summary.failed, summary.retries)}</div>
+        <div>{t.cost.tokens(summary.inputTokens.toLocaleString(locale), summary.outputTokens.toLocaleString(locale))}</div>
+        <div>{t.cost.time(formatSeconds(summary.latencyMs, t), formatBytes(summary.outputBytes))}</div>
+        <div style={{ color: '#eee', marginTop: '4px' }}>{t.cost.estimated}<strong>{formatCost(summary.cost)}</strong></div>
+      </div>
+
+      <div className="input-group" style={{ marginTop: '12px' }}>
+        <label>{t.cost.spendCap}</label>
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          value={billing.spendCap ?? ''}
+          placeholder={t.cost.noLimit}
+          onChange={(e) => onChange({ ...billing, spendCap: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+        />
+        {capReached && (
+          <div style={{ color: 'var(--error-color)', fontSize: '0.8rem' }}>
+            {t.cost.capReached}
+          </div>
+        )}
+      </div>
+
+      <details style={{ fontSize: '0.8rem', color: '#888' }}>
+        <summary style={{ cursor: 'pointer' }}>{t.cost.priceTable}</summary>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 64px 64px', gap: '6px', alignItems: 'center', marginTop: '8px' }}>
+          <span />
+          <span>{t.cost.input}</span>
+          <span>{t.cost.output}</span>
+          {Object.entries(billing.prices).map(([model, price]) => (
+            <React.Fragment key={model}>
+              <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={model}>{model}</span>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={price.inputPerMillion}
+                onChange={(e) => setPrice(model, 'inputPerMillion', Math.max(0, Number(e.target.value)))}
+                style={{ padding: '4px', fontSize: '0.8rem' }}
+              />
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={price.outputPerMillion}
+                onChange={(e) => setPrice(model, 'outputPerMillion', Math.max(0, Number(e.target.value)))}
+                style={{ padding: '4px', fontSize: '0.8rem' }}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+        <button
+          className="btn btn-secondary"
+          onClick={() => onChange({ ...billing, prices: DEFAULT_PRICE_TABLE })}
+          style={{ width: '100%', justifyContent: 'center', fontSize: '0.8rem', padding: '6px', marginTop: '8px' }}
+        >
+          {t.cost.resetPrices}
+        </button>
+      </details>
+    </div>
+  );
+};
+
+export default CostPanel;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Archive, Loader2 } from 'lucide-react';
+import { QueueItem } from '../types';
+import { buildResultsZip, downloadBlob, FILENAME_TOKENS } from '../services/exporter';
+import { hasResult } from '../services/attempts';
+import { EXPORT_FORMATS, ExportFormat, ExportSettings, MAX_DIMENSION_OPTIONS } from '../services/encoder';
+import { useI18n } from '../i18n';
+
+interface ExportPanelProps {
+  queue: QueueItem[];
+  filenameTemplate: string;
+  onTemplateChange: (template: string) => void;
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+}
+
+const ExportPanel = ({ queue, filenameTemplate, onTemplateChange, settings, onSettingsChange }: ExportPanelProps) => {
+  const { t } = useI18n();
+  const [isExporting, setIsExporting] = useState(false);
+  const successCount = queue.filter(item => item.status === 'success' && hasResult(item)).length;
+
+  const exportAll = async () => {
+    setIsExporting(true);
+    try {
+      const zip = await buildResultsZip(queue, filenameTemplate, settings);
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[-:T]/g, '');
+      downloadBlob(zip, `Puti-AI-${stamp}.zip`);
+    } catch (err) {
+      console.error("Failed to build ZIP:", err);
+      alert(t.common.zipFailed);
+    }
+    setIsExporting(false);
+  };
+
+  return (
+    <div style={{ marginTop: '20px', paddingTop: '20px', borderTop: '1px solid var(--border-color)' }}>
+      <h3 style={{ marginTop: 0, display: 'flex', alignItems: 'center', gap: '8px', fontSize: '1rem' }}>
+        <Archive size={16} /> {t.export.title}
+      </h3>
+
+      <div className="input-group">
+        <label>{t.export.filenameTemplate}</label>
+        <input
+          type="text"
+          value={filenameTemplate}
+          onChange={(e) => onTemplateChange(e.target.value)}
+        />
+        <div style={{ fontSize: '0.75rem', color: '#777', lineHeight: '1.6' }}>
+          {FILENAME_TOKENS.map(token => (
+            <span key={token} style={{ marginRight: '8px', whiteSpace: 'nowrap' }}>
+              <code style={{ color: '#aaa' }}>{`{${token}}`}</code> {t.filenameTokens[token]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="input-group">
+        <label>{t.export.format}</label>
+        <select value={settings.format} onChange={(e) => onSettingsChange({ ...settings, format: e.target.value as ExportFormat })}>
+          {EXPORT_FORMATS.map(f => <option key={f.id} value={f.id}>{t.exportFormats[f.id]}</option>)}
+        </select>
+        {EXPORT_FORMATS.find(f => f.id === settings.format)?.lossy && (
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.85rem', color: '#ccc' }}>
+            {t.export.quality}
+            <input
+              type="range"
+              min={50}
+              max={100}
+              value={Math.round(settings.quality * 100)}
+              onChange={(e) => onSettingsChange({ ...settings, quality: Number(e.target.value) / 100 })}
+              style={{ flex: 1 }}
+            />
+            {Math.round(settings.quality * 100)}
+          </label>
+        )}
+      </div>
+
+      <div className="input-group">
+        <label>{t.export.maxDimension}</label>
+        <select
+          value={settings.maxDimension ?? ''}
+          onChange={(e) => onSettingsChange({ ...settings, maxDimension: e.target.value ? Number(e.target.value) : null })}
+        >
+          <option value="">{t.export.originalSize}</option>
+          {MAX_DIMENSION_OPTIONS.map(n => <option key={n} value={n}>{n} px</option>)}
+        </select>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.85rem', color: '#ccc' }}>
+          <input
+            type="checkbox"
+            checked={settings.keepMetadata}
+            onChange={(e) => onSettingsChange({ ...settings, keepMetadata: e.target.checked })}
+          />
+          {t.export.keepMetadata}
+        </label>
+        {/* Results are PNG, and metadata only carries over within the same format */}
+        {settings.keepMetadata && settings.format !== 'png' && (
+          <div style={{ fontSize: '0.75rem', color: '#777' }}>{t.export.metadataLost}</div>
+        )}
+      </div>
+
+      <button
+        className="btn"
+        onClick={exportAll}
+        disabled={isExporting || successCount === 0}
+        style={{ width: '100%', justifyContent: 'center' }}
+      >
+        {isExporting ? <Loader2 className="spin" size={16} /> : <Archive size={16} />}
+        {t.export.downloadAll(successCount)}
+      </button>
+      <div style={{ fontSize: '0.75rem', color: '#777', marginTop: '6px' }}>
+        {t.export.zipNote}
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,129 @@
+import React, { useRef, useState } from 'react';
+import { FileSpreadsheet, Upload, Download, X } from 'lucide-react';
+import { QueueItem } from '../types';
+import { ManifestRow, ManifestReport, ManifestParseError, ManifestProblem, ManifestFormat, parseManifest, exportManifest } from '../services/manifest';
+import { downloadBlob } from '../services/exporter';
+import { useI18n } from '../i18n';
+import { formatManifestProblem } from '../i18n/format';
+
+interface ManifestPanelProps {
+  queue: QueueItem[];
+  manifestName: string | null;
+  report: ManifestReport | null;
+  onImport: (rows: ManifestRow[], fileName: string) => void;
+  onClear: () => void;
+}
+
+// Show at most this many entries per report section
+const REPORT_LIMIT = 5;
+
+const ReportSection = ({ title, entries, color }: { title: string; entries: string[]; color: string }) => {
+  const { t } = useI18n();
+  if (entries.length === 0) return null;
+  return (
+    <div style={{ marginTop: '8px' }}>
+      <div style={{ color }}>{title} ({entries.length})</div>
+      <ul style={{ margin: '4px 0 0 0', paddingLeft: '18px', color: '#999' }}>
+        {entries.slice(0, REPORT_LIMIT).map((entry, i) => <li key={i}>{entry}</li>)}
+        {entries.length > REPORT_LIMIT && <li>{t.manifest.more(entries.length - REPORT_LIMIT)}</li>}
+      </ul>
+    </div>
+  );
+};
+
+const ManifestPanel = ({ queue, manifestName, report, onImport, onClear }: ManifestPanelProps) => {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  // A structured problem from the parser, or 'unreadable' for anything else
+  const [parseError, setParseError] = useState<ManifestProblem | 'unreadable' | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const rows = parseManifest(await file.text(), file.name);
+      setParseError(null);
+      onImport(rows, file.name);
+    } catch (err) {
+      if (!(err instanceof ManifestParseError)) console.error("Failed to read manifest:", err);
+      setParseError(err instanceof ManifestParseError ? err.problem : 'unreadable');
+    }
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const handleExport = (format: ManifestFormat) => {
+    const content = exportManifest(queue, format);
+    const type = format === 'json' ? 'application/json' : 'text/csv';
+    downloadBlob(new Blob([content], { type }), `Puti-AI-manifest.${format}`);
+  };
+
+  const describeRow = (row: ManifestRow) => t.manifest.row(row.line, row.file);
+
+  return (
+    <div style={{ marginTop: '20px', paddingTop: '20px', borderTop: '1px solid var(--border-color)' }}>
+      <h3 style={{ marginTop: 0, display: 'flex', alignItems: 'center', gap: '8px', fontSize: '1rem' }}>
+        <FileSpreadsheet size={16} /> {t.manifest.title}
+      </h3>
+
+      <input
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        ref={inputRef}
+        style={{ display: 'none' }}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <button
+        className="btn btn-secondary"
+        onClick={() => inputRef.current?.click()}
+        style={{ width: '100%', justifyContent: 'center', fontSize: '0.85rem', padding: '8px' }}
+      >
+        <Upload size={14} /> {t.manifest.import}
+      </button>
+      <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+        <button
+          className="btn btn-secondary"
+          onClick={() => handleExport('csv')}
+          disabled={queue.length === 0}
+          style={{ flex: 1, justifyContent: 'center', fontSize: '0.85rem', padding: '8px' }}
+        >
+          <Download size={14} /> CSV
+        </button>
+        <button
+          className="btn btn-secondary"
+          onClick={() => handleExport('json')}
+          disabled={queue.length === 0}
+          style={{ flex: 1, justifyContent: 'center', fontSize: '0.85rem', padding: '8px' }}
+        >
+          <Download size={14} /> JSON
+        </button>
+      </div>
+
+      {parseError && (
+        <div style={{ marginTop: '10px', color: 'var(--error-color)', fontSize: '0.8rem' }}>
+          {t.common.importFailed(parseError === 'unreadable' ? t.manifest.readFailed : formatManifestProblem(t, parseError))}
+        </div>
+      )}
+
+      {manifestName && report && (
+        <div style={{ marginTop: '12px', fontSize: '0.8rem', color: '#aaa' }}>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{t.manifest.active(manifestName)}</span>
+            <button
+              onClick={onClear}
+              title={t.manifest.disable}
+              style={{ background: 'none', border: 'none', color: '#666', cursor: 'pointer', padding: '2px' }}
+            >
+              <X size={14} />
+            </button>
+          </div>
+          <div style={{ color: 'var(--success-color)', marginTop: '4px' }}>{t.manifest.applied(report.matchedFiles)}</div>
+          <ReportSection title={t.manifest.unmatchedRows} entries={report.unmatchedRows.map(describeRow)} color="var(--error-color)" />
+          <ReportSection title={t.manifest.duplicateRows} entries={report.duplicateRows.map(describeRow)} color="#fdd663" />
+          <ReportSection title={t.manifest.filesWithoutRow} entries={report.filesWithoutRow} color="#fdd663" />
+          <div style={{ marginTop: '8px', color: '#777' }}>{t.manifest.appliesToNew}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ManifestPanel;
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { X, Check, Square, Brush, Undo2, Trash2 } from 'lucide-react';
+import { MaskShape } from '../types';
+import { getStrokeWidth } from '../services/mask';
+import { useI18n } from '../i18n';
+
+interface MaskEditorProps {
+  src: string;
+  fileName: string;
+  mask: MaskShape[];
+  onSave: (mask: MaskShape[] | undefined) => void;
+  onClose: () => void;
+}
+
+type Tool = 'rect' | 'brush';
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const MASK_COLOR = '#ff5050';
+const DEFAULT_BRUSH_SIZE = 0.02;
+// Rectangles smaller than this (normalised) are treated as stray clicks
+const MIN_RECT_SIZE = 0.005;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const renderShape = (shape: MaskShape, size: Size, key: React.Key) => {
+  if (shape.type === 'rect') {
+    return (
+      <rect
+        key={key}
+        x={shape.x * size.width}
+        y={shape.y * size.height}
+        width={shape.width * size.width}
+        height={shape.height * size.height}
+        fill={MASK_COLOR}
+      />
+    );
+  }
+  const strokeWidth = getStrokeWidth(shape.size, size.width, size.height);
+  if (shape.points.length === 1) {
+    const [[x, y]] = shape.points;
+    return <circle key={key} cx={x * size.width} cy={y * size.height} r={strokeWidth / 2} fill={MASK_COLOR} />;
+  }
+  return (
+    <polyline
+      key={key}
+      points={shape.points.map(([x, y]) => `${x * size.width},${y * size.height}`).join(' ')}
+      fill="none"
+      stroke={MASK_COLOR}
+      strokeWidth={strokeWidth}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  );
+};
+
+interface MaskedImageProps {
+  src: string;
+  mask?: MaskShape[];
+  imageStyle?: React.CSSProperties;
+  children?: React.ReactNode;
+}
+
+// Image with its mask drawn on top. The overlay shares the image's pixel grid,
+// so brush widths render the same as they are composited.
+export const MaskedImage = ({ src, mask = [], imageStyle, children }: MaskedImageProps) => {
+  const [size, setSize] = useState<Size | null>(null);
+
+  return (
+    <div style={{ position: 'relative', display: 'inline-block', maxWidth: '100%', lineHeight: 0 }}>
+      <img
+        src={src}
+        draggable={false}
+        onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        style={{ maxWidth: '100%', ...imageStyle }}
+      />
+      {size && (
+        <svg
+          viewBox={`0 0 ${size.width} ${size.height}`}
+          preserveAspectRatio="none"
+          style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none' }}
+        >
+          <g opacity={0.45}>{mask.map((shape, i) => renderShape(shape, size, i))}</g>
+        </svg>
+      )}
+      {children}
+    </div>
+  );
+};
+
+// Draw rectangles or brush strokes over the text regions to regenerate
+const MaskEditor = ({ src, fileName, mask, onSave, onClose }: MaskEditorProps) => {
+  const { t } = useI18n();
+  const [shapes, setShapes] = useState<MaskShape[]>(mask);
+  const [draft, setDraft] = useState<MaskShape | null>(null);
+  const [tool, setTool] = useState<Tool>('rect');
+  const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH_SIZE);
+  const [origin, setOrigin] = useState<[number, number] | null>(null);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'z' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setShapes(prev => prev.slice(0, -1));
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [clamp01((e.clientX - rect.left) / rect.width), clamp01((e.clientY - rect.top) / rect.height)];
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toPoint(e);
+    setOrigin(point);
+    setDraft(tool === 'rect'
+      ? { type: 'rect', x: point[0], y: point[1], width: 0, height: 0 }
+      : { type: 'stroke', points: [point], size: brushSize });
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!draft || !origin) return;
+    const [x, y] = toPoint(e);
+    if (draft.type === 'rect') {
+      setDraft({
+        type: 'rect',
+        x: Math.min(origin[0], x),
+        y: Math.min(origin[1], y),
+        width: Math.abs(x - origin[0]),
+        height: Math.abs(y - origin[1])
+      });
+    } else {
+      setDraft({ ...draft, points: [...draft.points, [x, y]] });
+    }
+  };
+
+  const onPointerUp = () => {
+    if (draft && (draft.type === 'stroke' || (draft.width > MIN_RECT_SIZE && draft.height > MIN_RECT_SIZE))) {
+      setShapes(prev => [...prev, draft]);
+    }
+    setDraft(null);
+    setOrigin(null);
+  };
+
+  const toolButton = (id: Tool, icon: React.ReactNode, label: string) => (
+    <button
+      className={tool === id ? 'btn' : 'btn btn-secondary'}
+      onClick={() => setTool(id)}
+      style={{ padding: '6px 12px', fontSize: '0.85rem' }}
+    >
+      {icon} {label}
+    </button>
+  );
+
+  return (
+    <div
+      onClick={onClose}
+      style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.85)', zIndex: 100, overflowY: 'auto', padding: '30px' }}
+    >
+      <div onClick={(e) => e.stopPropagation()} style={{ maxWidth: '1600px', margin: '0 auto' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px', gap: '10px' }}>
+          <h2 style={{ margin: 0, fontSize: '1.2rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{t.mask.title(fileName)}</h2>
+          <button className="btn btn-secondary" onClick={onClose}>
+            <X size={16} /> {t.common.cancel}
+          </button>
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '10px', flexWrap: 'wrap', marginBottom: '16px' }}>
+          {toolButton('rect', <Square size={14} />, t.mask.rect)}
+          {toolButton('brush', <Brush size={14} />, t.mask.brush)}
+          {tool === 'brush' && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.85rem', color: '#aaa' }}>
+              {t.mask.brushSize}
+              <input
+                type="range"
+                min={0.005}
+                max={0.08}
+                step={0.005}
+                value={brushSize}
+                onChange={(e) => setBrushSize(Number(e.target.value))}
+              />
+            </label>
+          )}
+          <button
+            className="btn btn-secondary"
+            onClick={() => setShapes(shapes.slice(0, -1))}
+            disabled={shapes.length === 0}
+            title={t.mask.undoHint}
+            style={{ padding: '6px 12px', fontSize: '0.85rem' }}
+          >
+            <Undo2 size={14} /> {t.mask.undo}
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={() => setShapes([])}
+            disabled={shapes.length === 0}
+            style={{ padding: '6px 12px', fontSize: '0.85rem' }}
+          >
+            <Trash2 size={14} /> {t.mask.clear}
+          </button>
+          <span style={{ flex: 1 }} />
+          <button className="btn" onClick={() => onSave(shapes.length ? shapes : undefined)} style={{ padding: '6px 16px' }}>
+            <Check size={16} /> {t.mask.save}
+          </button>
+        </div>
+
+        <div style={{ textAlign: 'center', background: '#000', borderRadius: '12px', padding: '10px' }}>
+          <MaskedImage src={src} mask={draft ? [...shapes, draft] : shapes} imageStyle={{ maxHeight: '75vh' }}>
+            <div
+              onPointerDown={onPointerDown}
+              onPointerMove={onPointerMove}
+              onPointerUp={onPointerUp}
+              onPointerCancel={onPointerUp}
+              style={{ position: 'absolute', inset: 0, cursor: 'crosshair', touchAction: 'none' }}
+            />
+          </MaskedImage>
+        </div>
+
+        <div style={{ fontSize: '0.8rem', color: '#888', marginTop: '10px', lineHeight: '1.6' }}>
+          {t.mask.hint}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { BookMarked, Upload, Download, Save, Trash2 } from 'lucide-react';
+import { PromptPreset } from '../types';
+import { PresetParseError, PresetProblem, createPreset, exportPresets, mergePresets, parsePresets } from '../services/presets';
+import { PROMPT_VARIABLES } from '../services/prompt';
+import { downloadBlob } from '../services/exporter';
+import { useI18n } from '../i18n';
+import { formatPresetProblem } from '../i18n/format';
+
+interface PresetPanelProps {
+  presets: PromptPreset[];
+  globalPrompt: string;
+  onApply: (template: string) => void;
+  onChange: (presets: PromptPreset[]) => void;
+}
+
+const smallButton: React.CSSProperties = { justifyContent: 'center', fontSize: '0.8rem', padding: '6px 8px' };
+
+const PresetPanel = ({ presets, globalPrompt, onApply, onChange }: PresetPanelProps) => {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState(presets[0]?.id ?? '');
+  const [name, setName] = useState('');
+  const [parseError, setParseError] = useState<PresetProblem | 'unreadable' | null>(null);
+  const selected = presets.find(preset => preset.id === selectedId);
+
+  // Saving under an existing name updates that preset
+  const saveCurrent = () => {
+    const trimmed = name.trim();
+    if (!trimmed || !globalPrompt.trim()) return;
+    const preset = createPreset(trimmed, globalPrompt);
+    const next = mergePresets(presets, [preset]);
+    onChange(next);
+    setSelectedId(next.find(p => p.name === trimmed)!.id);
+    setName('');
+  };
+
+  const deleteSelected = () => {
+    if (!selected) return;
+    const next = presets.filter(preset => preset.id !== selected.id);
+    onChange(next);
+    setSelectedId(next[0]?.id ?? '');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onChange(mergePresets(presets, parsePresets(await file.text())));
+      setParseError(null);
+    } catch (err) {
+      if (!(err instanceof PresetParseError)) console.error("Failed to read presets:", err);
+      setParseError(err instanceof PresetParseError ? err.problem : 'unreadable');
+    }
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <div className="input-group">
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+        <BookMarked size={14} /> {t.presets.title}
+      </label>
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <select value={selectedId} onChange={(e) => setSelectedId(e.target.value)} style={{ flex: 1, minWidth: 0 }}>
+          {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+        </select>
+        <button className="btn btn-secondary" onClick={() => selected && onApply(selected.template)} disabled={!selected} style={smallButton}>
+          {t.common.apply}
+        </button>
+        <button className="btn btn-secondary" onClick={deleteSelected} disabled={!selected} title={t.presets.deleteHint} style={smallButton}>
+          <Trash2 size={14} />
+        </button>
+      </div>
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') saveCurrent(); }}
+          placeholder={t.presets.namePlaceholder}
+          style={{ flex: 1, minWidth: 0 }}
+        />
+        <button
+          className="btn btn-secondary"
+          onClick={saveCurrent}
+          disabled={!name.trim() || !globalPrompt.trim()}
+          title={t.presets.saveHint}
+          style={smallButton}
+        >
+          <Save size={14} /> {t.common.save}
+        </button>
+      </div>
+
+      <input
+        type="file"
+        accept=".json,application/json"
+        ref={inputRef}
+        style={{ display: 'none' }}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button className="btn btn-secondary" onClick={() => inputRef.current?.click()} style={{ ...smallButton, flex: 1 }}>
+          <Upload size={14} /> {t.common.import}
+        </button>
+        <button
+          className="btn btn-secondary"
+          onClick={() => downloadBlob(new Blob([exportPresets(presets)], { type: 'application/json' }), 'Puti-AI-presets.json')}
+          disabled={presets.length === 0}
+          style={{ ...smallButton, flex: 1 }}
+        >
+          <Download size={14} /> {t.common.export}
+        </button>
+      </div>
+      {parseError && (
+        <div style={{ color: 'var(--error-color)', fontSize: '0.8rem' }}>
+          {t.common.importFailed(parseError === 'unreadable' ? t.presets.readFailed : formatPresetProblem(t, parseError))}
+        </div>
+      )}
+
+      <div style={{ fontSize: '0.75rem', color: '#777', lineHeight: '1.6' }}>
+        {t.presets.variables}
+        {PROMPT_VARIABLES.map(({ name: variable }) => (
+          <span key={variable} style={{ marginRight: '8px', whiteSpace: 'nowrap' }}>
+            <code style={{ color: '#aaa' }}>{`{{${variable}}}`}</code> {t.promptVariables[variable]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PresetPanel;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Check, AlertCircle, Loader2, Pause } from 'lucide-react';
+import { QueueItem } from '../types';
+import { getChosenAttempt } from '../services/attempts';
+import { getDisplayName } from '../services/queue';
+import { useI18n } from '../i18n';
+
+interface QueueTileProps {
+  item: QueueItem;
+  index: number;
+  selected: boolean;
+  queued: boolean;
+  onSelect: (selected: boolean) => void;
+  onOpen: () => void;
+  dragProps: React.HTMLAttributes<HTMLDivElement>;
+}
+
+const STATUS_ICONS: Record<QueueItem['status'], React.ReactNode> = {
+  idle: null,
+  processing: <Loader2 className="spin" size={14} color="var(--primary-color)" />,
+  paused: <Pause size={14} color="#aaa" />,
+  success: <Check size={14} color="var(--success-color)" />,
+  error: <AlertCircle size={14} color="var(--error-color)" />
+};
+
+// Compact grid cell: the result (or the source until there is one), status and name
+const QueueTile = ({ item, index, selected, queued, onSelect, onOpen, dragProps }: QueueTileProps) => {
+  const { t } = useI18n();
+  const chosen = getChosenAttempt(item);
+  const badge = queued && item.status === 'idle' ? t.queue.queued : STATUS_ICONS[item.status];
+  return (
+    <div
+      {...dragProps}
+      style={{
+        background: 'var(--surface-color)',
+        borderRadius: '8px',
+        border: `1px solid ${selected ? 'var(--accent-color)' : 'var(--border-color)'}`,
+        overflow: 'hidden',
+        ...dragProps.style
+      }}
+    >
+      <div
+        onClick={onOpen}
+        style={{ position: 'relative', aspectRatio: '1', background: '#000', display: 'flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer' }}
+      >
+        <img src={chosen?.url ?? item.previewUrl} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+        <input
+          type="checkbox"
+          checked={selected}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => onSelect(e.target.checked)}
+          style={{ position: 'absolute', top: '6px', left: '6px' }}
+        />
+        {badge && (
+          <span style={{ position: 'absolute', top: '6px', right: '6px', display: 'flex', alignItems: 'center', background: 'rgba(0,0,0,0.6)', borderRadius: '4px', padding: '2px 4px', fontSize: '0.7rem', color: '#ccc' }}>
+            {badge}
+          </span>
+        )}
+      </div>
+      <div
+        title={getDisplayName(item)}
+        style={{ padding: '6px 8px', fontSize: '0.75rem', color: '#ccc', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+      >
+        {index + 1}. {getDisplayName(item)}
+      </div>
+    </div>
+  );
+};
+
+export default QueueTile;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Search, List, LayoutGrid, RefreshCw, RotateCcw, Trash2, Download, ArrowUpToLine, Loader2 } from 'lucide-react';
+import { PromptPreset } from '../types';
+import { QueueView, STATUS_FILTERS, StatusFilter } from '../services/queue';
+import { useI18n } from '../i18n';
+
+interface QueueToolbarProps {
+  filter: StatusFilter;
+  counts: Record<StatusFilter, number>;
+  search: string;
+  view: QueueView;
+  visibleCount: number;
+  selectedCount: number;
+  allVisibleSelected: boolean;
+  presets: PromptPreset[];
+  isDownloading: boolean;
+  onFilterChange: (filter: StatusFilter) => void;
+  onSearchChange: (search: string) => void;
+  onViewChange: (view: QueueView) => void;
+  onSelectVisible: (selected: boolean) => void;
+  onRetry: () => void;
+  // presetId undefined means the global prompt; note undefined leaves each item's note alone
+  onApplyPrompt: (presetId: string | undefined, note: string | undefined) => void;
+  onMoveToFront: () => void;
+  onReset: () => void;
+  onRemove: () => void;
+  onDownload: () => void;
+}
+
+const smallButton: React.CSSProperties = { fontSize: '0.8rem', padding: '6px 10px' };
+
+const QueueToolbar = (props: QueueToolbarProps) => {
+  const { t } = useI18n();
+  const { filter, counts, search, view, visibleCount, selectedCount, allVisibleSelected, presets, isDownloading } = props;
+  const [presetId, setPresetId] = useState('');
+  const [note, setNote] = useState('');
+
+  const applyPrompt = () => {
+    props.onApplyPrompt(presetId || undefined, note.trim() ? note : undefined);
+    setNote('');
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', marginBottom: '20px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '10px', flexWrap: 'wrap' }}>
+        <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+          {STATUS_FILTERS.map(f => (
+            <button
+              key={f.id}
+              className={f.id === filter ? 'btn' : 'btn btn-secondary'}
+              onClick={() => props.onFilterChange(f.id)}
+              style={smallButton}
+            >
+              {t.statusFilters[f.id]} ({counts[f.id]})
+            </button>
+          ))}
+        </div>
+        <div style={{ flex: 1, minWidth: '160px', display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <Search size={14} color="#888" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => props.onSearchChange(e.target.value)}
+            placeholder={t.toolbar.search}
+            style={{ flex: 1, minWidth: 0, padding: '6px 10px' }}
+          />
+        </div>
+        <div style={{ display: 'flex', gap: '4px' }}>
+          <button
+            className={view === 'list' ? 'btn' : 'btn btn-secondary'}
+            onClick={() => props.onViewChange('list')}
+            title={t.toolbar.listView}
+            style={smallButton}
+          >
+            <List size={14} />
+          </button>
+          <button
+            className={view === 'grid' ? 'btn' : 'btn btn-secondary'}
+            onClick={() => props.onViewChange('grid')}
+            title={t.toolbar.gridView}
+            style={smallButton}
+          >
+            <LayoutGrid size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap', fontSize: '0.85rem', color: '#aaa' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={allVisibleSelected}
+            disabled={visibleCount === 0}
+            onChange={(e) => props.onSelectVisible(e.target.checked)}
+          />
+          {t.toolbar.selectVisible}
+        </label>
+        <span>{t.toolbar.selected(selectedCount)}</span>
+        {selectedCount > 0 && (
+          <>
+            <button className="btn btn-secondary" onClick={props.onRetry} title={t.toolbar.retryHint} style={smallButton}>
+              <RefreshCw size={14} /> {t.toolbar.retry}
+            </button>
+            <button className="btn btn-secondary" onClick={props.onMoveToFront} title={t.toolbar.moveToFrontHint} style={smallButton}>
+              <ArrowUpToLine size={14} /> {t.toolbar.moveToFront}
+            </button>
+            <button className="btn btn-secondary" onClick={props.onReset} title={t.toolbar.resetHint} style={smallButton}>
+              <RotateCcw size={14} /> {t.toolbar.reset}
+            </button>
+            <button className="btn btn-secondary" onClick={props.onDownload} disabled={isDownloading} title={t.toolbar.downloadHint} style={smallButton}>
+              {isDownloading ? <Loader2 className="spin" size={14} /> : <Download size={14} />} {t.toolbar.download}
+            </button>
+            <button className="btn btn-secondary" onClick={props.onRemove} title={t.toolbar.removeHint} style={smallButton}>
+              <Trash2 size={14} /> {t.toolbar.remove}
+            </button>
+          </>
+        )}
+      </div>
+
+      {selectedCount > 0 && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap', fontSize: '0.85rem', color: '#aaa' }}>
+          <span>{t.toolbar.applyPrompt}</span>
+          <select value={presetId} onChange={(e) => setPresetId(e.target.value)} style={{ padding: '6px 8px', fontSize: '0.8rem' }}>
+            <option value="">{t.queue.globalPrompt}</option>
+            {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+          </select>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t.toolbar.notePlaceholder}
+            style={{ flex: 1, minWidth: '160px', padding: '6px 10px' }}
+          />
+          <button className="btn btn-secondary" onClick={applyPrompt} style={smallButton}>
+            {t.toolbar.applyTo(selectedCount)}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueueToolbar;
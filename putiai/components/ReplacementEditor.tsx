@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Plus, X, ArrowRight, SlidersHorizontal } from 'lucide-react';
+import { TextReplacement } from '../types';
+import { createReplacement } from '../services/prompt';
+import { useI18n } from '../i18n';
+
+interface ReplacementEditorProps {
+  replacements: TextReplacement[];
+  onChange: (replacements: TextReplacement[]) => void;
+  disabled?: boolean;
+}
+
+const inputStyle: React.CSSProperties = { flex: 1, minWidth: 0, fontSize: '0.85rem', padding: '6px 8px' };
+const iconButtonStyle: React.CSSProperties = { background: 'none', border: 'none', color: '#666', cursor: 'pointer', padding: '4px' };
+
+const ReplacementEditor = ({ replacements, onChange, disabled }: ReplacementEditorProps) => {
+  const { t } = useI18n();
+  // Rows whose style hints are expanded
+  const [openHints, setOpenHints] = useState<Set<string>>(new Set());
+
+  const updatePair = (id: string, patch: Partial<TextReplacement>) => {
+    onChange(replacements.map(pair => pair.id === id ? { ...pair, ...patch } : pair));
+  };
+
+  const removePair = (id: string) => {
+    onChange(replacements.filter(pair => pair.id !== id));
+  };
+
+  const toggleHints = (id: string) => {
+    setOpenHints(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      {replacements.map(pair => {
+        const hasHints = !!(pair.font || pair.color || pair.position);
+        return (
+          <div key={pair.id} style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <input
+                type="text"
+                placeholder={t.replacements.original}
+                value={pair.original}
+                onChange={(e) => updatePair(pair.id, { original: e.target.value })}
+                disabled={disabled}
+                style={inputStyle}
+              />
+              <ArrowRight size={14} color="#666" style={{ flexShrink: 0 }} />
+              <input
+                type="text"
+                placeholder={t.replacements.replacement}
+                value={pair.replacement}
+                onChange={(e) => updatePair(pair.id, { replacement: e.target.value })}
+                disabled={disabled}
+                style={inputStyle}
+              />
+              <button
+                onClick={() => toggleHints(pair.id)}
+                title={t.replacements.hints}
+                style={{ ...iconButtonStyle, color: hasHints ? 'var(--primary-color)' : '#666' }}
+              >
+                <SlidersHorizontal size={14} />
+              </button>
+              <button onClick={() => removePair(pair.id)} disabled={disabled} title={t.common.delete} style={iconButtonStyle}>
+                <X size={14} />
+              </button>
+            </div>
+            {openHints.has(pair.id) && (
+              <div style={{ display: 'flex', gap: '6px', paddingLeft: '12px' }}>
+                <input
+                  type="text"
+                  placeholder={t.replacements.font}
+                  value={pair.font ?? ''}
+                  onChange={(e) => updatePair(pair.id, { font: e.target.value })}
+                  disabled={disabled}
+                  style={inputStyle}
+                />
+                <input
+                  type="text"
+                  placeholder={t.replacements.color}
+                  value={pair.color ?? ''}
+                  onChange={(e) => updatePair(pair.id, { color: e.target.value })}
+                  disabled={disabled}
+                  style={inputStyle}
+                />
+                <input
+                  type="text"
+                  placeholder={t.replacements.position}
+                  value={pair.position ?? ''}
+                  onChange={(e) => updatePair(pair.id, { position: e.target.value })}
+                  disabled={disabled}
+                  style={inputStyle}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <button
+        className="btn btn-secondary"
+        onClick={() => onChange([...replacements, createReplacement()])}
+        disabled={disabled}
+        style={{ alignSelf: 'flex-start', padding: '6px 12px', fontSize: '0.8rem' }}
+      >
+        <Plus size={14} /> {t.replacements.add}
+      </button>
+    </div>
+  );
+};
+
+export default ReplacementEditor;
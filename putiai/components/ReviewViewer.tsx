@@ -0,0 +1,308 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Maximize, Flame, Columns, SquareSplitHorizontal, Loader2 } from 'lucide-react';
+import { QueueItem } from '../types';
+import { getChosenAttempt } from '../services/attempts';
+import { computeDiffHeatmap, DiffResult } from '../utils/diff';
+import { useI18n } from '../i18n';
+
+interface ReviewViewerProps {
+  // Reviewable items in queue order; arrow keys step through them
+  items: QueueItem[];
+  currentId: string;
+  onNavigate: (id: string) => void;
+  onClose: () => void;
+}
+
+type ViewMode = 'slider' | 'side';
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const ZOOM_STEP = 1.25;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const paneStyle: React.CSSProperties = {
+  position: 'relative',
+  flex: 1,
+  overflow: 'hidden',
+  background: '#000',
+  cursor: 'grab',
+  touchAction: 'none'
+};
+
+const labelStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: '10px',
+  padding: '4px 10px',
+  borderRadius: '4px',
+  background: 'rgba(0,0,0,0.6)',
+  fontSize: '0.8rem',
+  pointerEvents: 'none'
+};
+
+// Full-screen before/after review with synced pan/zoom and a pixel-difference overlay.
+// Both images are laid out on the result's pixel grid, so 100% zoom is 1:1 with the result.
+const ReviewViewer = ({ items, currentId, onNavigate, onClose }: ReviewViewerProps) => {
+  const { t } = useI18n();
+  const index = items.findIndex(item => item.id === currentId);
+  const item = items[index];
+  const attempt = item ? getChosenAttempt(item) : undefined;
+
+  const [mode, setMode] = useState<ViewMode>('slider');
+  const [sliderPos, setSliderPos] = useState(0.5);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [view, setView] = useState<ViewTransform>({ scale: 1, x: 0, y: 0 });
+  const [showDiff, setShowDiff] = useState(false);
+  const [diff, setDiff] = useState<DiffResult | null>(null);
+  const [isDiffing, setIsDiffing] = useState(false);
+
+  const paneRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  // Heatmaps are cached per attempt for the lifetime of the viewer
+  const diffCache = useRef(new Map<string, DiffResult>());
+
+  const getPaneSize = () => {
+    const rect = paneRef.current?.getBoundingClientRect();
+    return { width: rect?.width ?? 0, height: rect?.height ?? 0 };
+  };
+
+  const getFitScale = useCallback(() => {
+    if (!size) return 1;
+    const pane = getPaneSize();
+    return Math.min(1, pane.width / size.width, pane.height / size.height);
+  }, [size]);
+
+  // Scale around a point in pane coordinates, keeping that point fixed on screen
+  const zoomTo = useCallback((scale: number, originX?: number, originY?: number) => {
+    const pane = getPaneSize();
+    const ox = originX ?? pane.width / 2;
+    const oy = originY ?? pane.height / 2;
+    setView(prev => {
+      const next = clamp(scale, getFitScale(), 1);
+      const ratio = next / prev.scale;
+      return { scale: next, x: ox - (ox - prev.x) * ratio, y: oy - (oy - prev.y) * ratio };
+    });
+  }, [getFitScale]);
+
+  const fitToPane = useCallback(() => {
+    if (!size) return;
+    const pane = getPaneSize();
+    const scale = getFitScale();
+    setView({ scale, x: (pane.width - size.width * scale) / 2, y: (pane.height - size.height * scale) / 2 });
+  }, [size, getFitScale]);
+
+  // Refit whenever the image or the pane layout changes
+  useEffect(() => {
+    fitToPane();
+    window.addEventListener('resize', fitToPane);
+    return () => window.removeEventListener('resize', fitToPane);
+  }, [fitToPane, mode]);
+
+  useEffect(() => {
+    const cache = diffCache.current;
+    return () => cache.forEach(result => URL.revokeObjectURL(result.url));
+  }, []);
+
+  useEffect(() => {
+    setDiff(null);
+    if (!showDiff || !item || !attempt) return;
+
+    const key = `${item.id}:${attempt.id}`;
+    const cached = diffCache.current.get(key);
+    if (cached) {
+      setDiff(cached);
+      return;
+    }
+
+    let isCurrent = true;
+    setIsDiffing(true);
+    computeDiffHeatmap(item.file, attempt.blob)
+      .then(result => {
+        diffCache.current.set(key, result);
+        if (isCurrent) setDiff(result);
+      })
+      .catch(err => console.error("Failed to compute diff:", err))
+      .finally(() => { if (isCurrent) setIsDiffing(false); });
+    return () => { isCurrent = false; };
+  }, [showDiff, item, attempt]);
+
+  const step = useCallback((delta: number) => {
+    const next = items[index + delta];
+    if (next) onNavigate(next.id);
+  }, [items, index, onNavigate]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      switch (e.key) {
+        case 'Escape': onClose(); break;
+        case 'ArrowLeft': step(-1); break;
+        case 'ArrowRight': step(1); break;
+        case '+':
+        case '=': zoomTo(view.scale * ZOOM_STEP); break;
+        case '-': zoomTo(view.scale / ZOOM_STEP); break;
+        case '0': fitToPane(); break;
+        case '1': zoomTo(1); break;
+        case 'd':
+        case 'D': setShowDiff(prev => !prev); break;
+        case 's':
+        case 'S': setMode(prev => prev === 'slider' ? 'side' : 'slider'); break;
+        default: return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose, step, zoomTo, fitToPane, view.scale]);
+
+  if (!item || !attempt) return null;
+
+  const onWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    zoomTo(view.scale * (e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP), e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, x: view.x, y: view.y };
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setView(prev => ({ ...prev, x: drag.x + e.clientX - drag.pointerX, y: drag.y + e.clientY - drag.pointerY }));
+  };
+
+  const onPointerUp = () => { dragRef.current = null; };
+
+  const onSliderPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Keep the pane from starting a pan underneath the handle
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const onSliderPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const rect = paneRef.current!.getBoundingClientRect();
+    setSliderPos(clamp((e.clientX - rect.left) / rect.width, 0, 1));
+  };
+
+  const layerStyle: React.CSSProperties = {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    width: size?.width,
+    height: size?.height,
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+    transformOrigin: '0 0'
+  };
+
+  // The source is stretched onto the result's grid; ratios differ slightly when snapped to a supported one
+  const renderBefore = () => (
+    <img src={item.previewUrl} draggable={false} style={{ ...layerStyle, objectFit: 'fill' }} />
+  );
+
+  const renderAfter = () => (
+    <>
+      <img
+        src={attempt.url}
+        draggable={false}
+        onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        style={layerStyle}
+      />
+      {showDiff && diff && (
+        <img src={diff.url} draggable={false} style={layerStyle} />
+      )}
+    </>
+  );
+
+  const paneHandlers = { onWheel, onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, background: '#000', zIndex: 110, display: 'flex', flexDirection: 'column' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '10px', padding: '10px 16px', borderBottom: '1px solid var(--border-color)', background: 'var(--surface-color)' }}>
+        <button className="btn btn-secondary" onClick={() => step(-1)} disabled={index <= 0} title={t.review.previous} style={{ padding: '6px' }}>
+          <ChevronLeft size={16} />
+        </button>
+        <span style={{ fontSize: '0.85rem', color: '#888' }}>{index + 1} / {items.length}</span>
+        <button className="btn btn-secondary" onClick={() => step(1)} disabled={index >= items.length - 1} title={t.review.next} style={{ padding: '6px' }}>
+          <ChevronRight size={16} />
+        </button>
+        <span style={{ flex: 1, fontSize: '0.9rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {item.file.name}
+        </span>
+
+        <button
+          className="btn btn-secondary"
+          onClick={() => setMode(mode === 'slider' ? 'side' : 'slider')}
+          title={t.review.toggleMode}
+          style={{ padding: '6px 10px', fontSize: '0.8rem' }}
+        >
+          {mode === 'slider' ? <><Columns size={14} /> {t.review.sideBySide}</> : <><SquareSplitHorizontal size={14} /> {t.review.slider}</>}
+        </button>
+        <button
+          className="btn btn-secondary"
+          onClick={() => setShowDiff(!showDiff)}
+          title={t.review.diffHint}
+          style={{ padding: '6px 10px', fontSize: '0.8rem', color: showDiff ? 'var(--primary-color)' : undefined }}
+        >
+          {isDiffing ? <Loader2 className="spin" size={14} /> : <Flame size={14} />}
+          {t.review.diff}{showDiff && diff ? ` ${(diff.changedRatio * 100).toFixed(1)}%` : ''}
+        </button>
+        <button className="btn btn-secondary" onClick={() => zoomTo(view.scale / ZOOM_STEP)} title={t.review.zoomOut} style={{ padding: '6px' }}>
+          <ZoomOut size={16} />
+        </button>
+        <button className="btn btn-secondary" onClick={() => zoomTo(1)} title={t.review.actualSize} style={{ padding: '6px 10px', fontSize: '0.8rem', minWidth: '60px', justifyContent: 'center' }}>
+          {Math.round(view.scale * 100)}%
+        </button>
+        <button className="btn btn-secondary" onClick={() => zoomTo(view.scale * ZOOM_STEP)} title={t.review.zoomIn} style={{ padding: '6px' }}>
+          <ZoomIn size={16} />
+        </button>
+        <button className="btn btn-secondary" onClick={fitToPane} title={t.review.fit} style={{ padding: '6px' }}>
+          <Maximize size={16} />
+        </button>
+        <button className="btn btn-secondary" onClick={onClose} title={t.review.close} style={{ padding: '6px' }}>
+          <X size={16} />
+        </button>
+      </div>
+
+      {mode === 'slider' ? (
+        <div ref={paneRef} style={paneStyle} {...paneHandlers}>
+          {renderBefore()}
+          <div style={{ position: 'absolute', inset: 0, clipPath: `inset(0 0 0 ${sliderPos * 100}%)` }}>
+            {renderAfter()}
+          </div>
+          <span style={{ ...labelStyle, left: '10px' }}>{t.review.source}</span>
+          <span style={{ ...labelStyle, right: '10px' }}>{t.review.result}</span>
+          <div
+            onPointerDown={onSliderPointerDown}
+            onPointerMove={onSliderPointerMove}
+            style={{ position: 'absolute', top: 0, bottom: 0, left: `calc(${sliderPos * 100}% - 12px)`, width: '24px', cursor: 'ew-resize', display: 'flex', justifyContent: 'center' }}
+          >
+            <div style={{ width: '2px', height: '100%', background: 'var(--primary-color)', boxShadow: '0 0 4px rgba(0,0,0,0.8)' }} />
+          </div>
+        </div>
+      ) : (
+        <div style={{ flex: 1, display: 'flex', gap: '2px' }}>
+          <div ref={paneRef} style={paneStyle} {...paneHandlers}>
+            {renderBefore()}
+            <span style={{ ...labelStyle, left: '10px' }}>{t.review.source}</span>
+          </div>
+          <div style={paneStyle} {...paneHandlers}>
+            {renderAfter()}
+            <span style={{ ...labelStyle, left: '10px' }}>{t.review.result}</span>
+          </div>
+        </div>
+      )}
+
+      <div style={{ padding: '6px 16px', fontSize: '0.75rem', color: '#666', background: 'var(--surface-color)', borderTop: '1px solid var(--border-color)' }}>
+        {t.review.shortcuts}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewViewer;
@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { HardDrive, Trash2, X } from 'lucide-react';
+import { QueueItem } from '../types';
+import { getItemSize, getStorageEstimate, StorageEstimate } from '../services/storage';
+import { formatBytes } from '../utils/image';
+import { useI18n } from '../i18n';
+
+interface StoragePanelProps {
+  queue: QueueItem[];
+  onEvict: (ids: string[]) => void;
+}
+
+const StoragePanel = ({ queue, onEvict }: StoragePanelProps) => {
+  const { t } = useI18n();
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  // Refresh the browser-wide estimate whenever the queue changes
+  useEffect(() => {
+    getStorageEstimate().then(setEstimate);
+  }, [queue]);
+
+  const evictable = queue.filter(item => item.status !== 'processing');
+  const completedIds = evictable.filter(item => item.status === 'success').map(item => item.id);
+  const queueSize = queue.reduce((sum, item) => sum + getItemSize(item), 0);
+
+  return (
+    <div style={{ marginTop: '20px', paddingTop: '20px', borderTop: '1px solid var(--border-color)' }}>
+      <h3 style={{ marginTop: 0, display: 'flex', alignItems: 'center', gap: '8px', fontSize: '1rem' }}>
+        <HardDrive size={16} /> {t.storage.title}
+      </h3>
+
+      <div style={{ fontSize: '0.85rem', color: '#aaa', lineHeight: '1.6' }}>
+        <div>{t.storage.queueData(formatBytes(queueSize), queue.length)}</div>
+        {estimate && (
+          <>
+            <div>{t.storage.browserUsage(formatBytes(estimate.usage), formatBytes(estimate.quota))}</div>
+            <div style={{ height: '6px', background: '#333', borderRadius: '3px', overflow: 'hidden', marginTop: '6px' }}>
+              <div style={{
+                width: `${estimate.quota ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0}%`,
+                height: '100%',
+                background: 'var(--accent-color)'
+              }} />
+            </div>
+          </>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginTop: '12px' }}>
+        <button
+          className="btn btn-secondary"
+          onClick={() => onEvict(completedIds)}
+          disabled={completedIds.length === 0}
+          style={{ justifyContent: 'center', fontSize: '0.85rem', padding: '8px' }}
+        >
+          <Trash2 size={14} /> {t.storage.removeCompleted(completedIds.length)}
+        </button>
+        <button
+          className="btn btn-secondary"
+          onClick={() => setExpanded(!expanded)}
+          disabled={queue.length === 0}
+          style={{ justifyContent: 'center', fontSize: '0.85rem', padding: '8px' }}
+        >
+          {expanded ? t.storage.hideDetails : t.storage.showDetails}
+        </button>
+      </div>
+
+      {expanded && (
+        <div style={{ marginTop: '10px', maxHeight: '240px', overflowY: 'auto', fontSize: '0.8rem' }}>
+          {queue.map(item => (
+            <div key={item.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '4px 0', borderBottom: '1px solid #2a2a2a' }}>
+              <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: '#ccc' }}>
+                {item.file.name}
+              </span>
+              <span style={{ color: '#888' }}>{formatBytes(getItemSize(item))}</span>
+              <button
+                onClick={() => onEvict([item.id])}
+                disabled={item.status === 'processing'}
+                title={t.storage.evict}
+                style={{ background: 'none', border: 'none', color: '#666', cursor: 'pointer', padding: '2px' }}
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoragePanel;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { ScanText } from 'lucide-react';
+import { TextVerification } from '../types';
+import { Messages, useI18n } from '../i18n';
+
+interface VerificationBadgeProps {
+  verification?: TextVerification;
+  threshold: number;
+}
+
+const describeIssues = (verification: TextVerification, t: Messages): string => {
+  const lines: string[] = [];
+  if (verification.wrongScript.length) {
+    const pairs = verification.wrongScript.map(({ expected, found }) => `${expected}→${found}`).join(t.common.listSeparator);
+    lines.push(t.verification.issue(t.verification.wrongScript[verification.language], pairs));
+  }
+  if (verification.missing.length) lines.push(t.verification.issue(t.verification.missing, verification.missing.join('')));
+  return lines.join('\n');
+};
+
+// OCR score shown next to an item's status
+const VerificationBadge = ({ verification, threshold }: VerificationBadgeProps) => {
+  const { t } = useI18n();
+  if (!verification) return null;
+
+  if (verification.error) {
+    return (
+      <span title={t.errorCodes[verification.error]} style={{ color: '#888', fontSize: '0.8rem', display: 'flex', alignItems: 'center', gap: '4px' }}>
+        <ScanText size={14} /> {t.verification.unverified}
+      </span>
+    );
+  }
+
+  const passed = verification.score >= threshold;
+  return (
+    <span
+      title={describeIssues(verification, t) || t.verification.allFound}
+      style={{ color: passed ? 'var(--success-color)' : '#fdd663', fontSize: '0.8rem', display: 'flex', alignItems: 'center', gap: '4px' }}
+    >
+      <ScanText size={14} /> {t.verification.score(Math.round(verification.score * 100))}
+    </span>
+  );
+};
+
+// What the OCR read and which characters didn't match
+export const VerificationDetails = ({ verification }: { verification: TextVerification }) => {
+  const { t } = useI18n();
+  const issues = describeIssues(verification, t);
+  return (
+    <details style={{ fontSize: '0.8rem', color: '#888' }}>
+      <summary style={{ cursor: 'pointer' }}>{t.verification.details}</summary>
+      {verification.error ? (
+        <div style={{ marginTop: '6px' }}>{t.verification.failed(t.errorCodes[verification.error])}</div>
+      ) : (
+        <>
+          <div style={{ marginTop: '6px', whiteSpace: 'pre-wrap', color: issues ? '#fdd663' : 'var(--success-color)' }}>
+            {issues || t.verification.allFound}
+          </div>
+          <pre style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word', background: '#111', padding: '10px', borderRadius: '6px', color: '#ccc', fontFamily: 'inherit' }}>
+            {verification.recognized || t.verification.nothingRecognized}
+          </pre>
+          <div>{t.verification.checkedAs(t.targetLanguages[verification.language])}</div>
+        </>
+      )}
+    </details>
+  );
+};
+
+export default VerificationBadge;
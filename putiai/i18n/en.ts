@@ -0,0 +1,378 @@
+import { Messages } from './zh-TW';
+
+const messages: Messages = {
+  common: {
+    close: 'Close',
+    cancel: 'Cancel',
+    delete: 'Delete',
+    apply: 'Apply',
+    save: 'Save',
+    import: 'Import',
+    export: 'Export',
+    importFailed: (reason) => `Import failed: ${reason}`,
+    zipFailed: 'Could not build the ZIP, please try again',
+    listSeparator: ', '
+  },
+  app: {
+    title: 'Puti-AI Batch Image Text Fixer',
+    subtitle: 'High-definition text repair and localisation for images',
+    clearAll: 'Clear all',
+    interfaceLanguage: 'Interface language',
+    autoLanguage: (name) => `Automatic (${name})`
+  },
+  welcome: {
+    title: 'Welcome to the Puti-AI 4K batch repair tool',
+    body: 'Generating high-quality 4K images with Gemini 3 Pro (Nano Banana Pro) requires a paid API key.',
+    connectKey: 'Connect API key',
+    notInAiStudio: 'Not running inside AI Studio, so no key can be selected. Rebuild with PUTI_KEY_MODE=proxy (recommended) or direct.',
+    noBuildKey: 'GEMINI_API_KEY was not set at build time. Set it in .env.local and rebuild, or use PUTI_KEY_MODE=proxy.',
+    useMock: 'Use the local mock mode (offline development)',
+    billingDocs: 'Billing documentation'
+  },
+  settings: {
+    title: 'Global settings',
+    globalPrompt: 'Global prompt (English gives the best results)',
+    globalPromptPlaceholder: 'Instructions applied to every image...',
+    targetLanguage: 'Target text language',
+    targetLanguageHint: 'Sets {{language}} in prompts, the script rule for replacement text and what OCR verification expects.',
+    provider: 'Generation service',
+    mockFailure: 'Simulated failure',
+    proxyToken: 'Proxy access token',
+    proxyTokenPlaceholder: 'Leave empty if the server uses no tokens',
+    variants: 'Versions per image',
+    imageSize: 'Resolution',
+    aspectMode: 'Aspect ratio handling',
+    verification: 'Text verification (OCR)',
+    verificationEnabled: 'Read the text back after generation and compare it with the replacements',
+    threshold: 'Pass threshold',
+    autoRegenerate: (max) => `Regenerate automatically below the threshold (up to ${max} times)`,
+    concurrency: 'Parallel requests'
+  },
+  run: {
+    processing: (running, waiting) => `Processing queue... (${running} running / ${waiting} waiting)`,
+    start: 'Start batch',
+    addToBatch: (count) => `Click to add ${count} new images to this batch`,
+    estimate: (calls, cost) => `Estimated ${calls} calls · about ${cost}`,
+    overCap: ' (may exceed the spend cap)',
+    resume: 'Resume',
+    pause: 'Pause',
+    stop: 'Stop',
+    pausedNote: 'Dispatch paused: requests in flight will finish, but no new items will start'
+  },
+  tips: {
+    title: 'Puti-AI tips:',
+    aspect: 'The original aspect ratio is detected and kept automatically.',
+    size: ['Generate at ', '4K resolution', ' for the most reliable text; you can draft quickly at 1K and finalise at 4K once you are happy.'],
+    time: 'Each image takes about 10-20 seconds.',
+    saved: 'The queue and results are saved in the browser and survive a reload.'
+  },
+  upload: {
+    drop: 'Drop images here or click to upload',
+    hint: 'Batches and whole folders are supported. PDFs are split into one image per page; HEIC and oversized images are converted and scaled down.',
+    chooseFolder: 'Choose folder',
+    importing: (done, total) => `Importing (${done} / ${total})`,
+    rejected: (count) => count === 1 ? '1 file was not imported, or only partly' : `${count} files were not imported, or only partly`,
+    rejection: (name, reason) => `${name}: ${reason}`
+  },
+  importProblems: {
+    decode_failed: 'The image could not be decoded; the file may be damaged',
+    too_large: (limit) => `Still larger than ${limit} after compression`,
+    heic_failed: 'The HEIC file could not be converted; convert it to JPEG first',
+    pdf_locked: 'The PDF is password protected',
+    pdf_failed: 'The PDF could not be opened; the file may be damaged',
+    pdf_truncated: (pages, limit) => `${pages} pages; only the first ${limit} were imported`,
+    empty: 'The file is empty',
+    unsupported: (format) => `Unsupported file format (${format})`,
+    unknownFormat: 'unknown',
+    unexpected: 'Unexpected error during import'
+  },
+  importNotes: {
+    pdf_page: (page) => `PDF page ${page}`,
+    heic: 'Converted from HEIC to JPEG',
+    downscaled: (from, to) => `Scaled down ${from} → ${to}`,
+    converted: (format) => `Converted to ${format}`,
+    recompressed: (from, to) => `Recompressed ${from} → ${to}`,
+    separator: ', '
+  },
+  queue: {
+    empty: 'The queue is empty',
+    noMatch: 'No items match',
+    dragDisabled: 'Items being processed cannot be moved',
+    dragHint: 'Drag to change the processing order',
+    retrying: (count) => `Retrying (attempt ${count})`,
+    processing: (size) => `Processing (${size})`,
+    success: 'Done',
+    error: 'Error',
+    paused: 'Paused',
+    queued: 'Queued',
+    idle: 'Pending',
+    pauseItem: 'Pause this item',
+    resumeItem: 'Resume this item',
+    cancelItem: 'Cancel this item',
+    source: 'Original',
+    maskHint: 'Regenerate only the marked text areas; every other pixel stays the same',
+    editMask: (count) => `Edit mask (${count})`,
+    addMask: 'Mark areas to edit',
+    prompt: 'Prompt',
+    globalPrompt: 'Global prompt',
+    replacements: 'Text replacements',
+    note: 'Extra instructions (optional)',
+    notePlaceholder: 'Anything else about this image (e.g. keep the logo in the bottom right)...',
+    variants: 'Versions',
+    imageSize: 'Resolution',
+    aspectMode: 'Aspect ratio',
+    useDefault: (value) => `Default (${value})`,
+    previewPrompt: 'Preview the full prompt',
+    failedReason: 'Failed:',
+    lastAttemptFailed: 'Last attempt failed:',
+    errorDetails: 'Full error details',
+    errorType: 'Type: ',
+    result: 'Puti-AI result',
+    attempt: (number) => `Version ${number}`,
+    attemptScore: (score) => `text ${score}%`,
+    download: (size, format) => `Download ${size} image (${format})`,
+    finalize: (size) => `Finalise at ${size}`,
+    finalizeHint: 'Regenerate at full resolution with this version\'s prompt and framing',
+    compare: (count) => `Compare (${count})`,
+    review: 'Review',
+    reviewHint: 'Before / after, zoom and difference view',
+    regenerate: 'Regenerate',
+    regenerateHint: 'Generate again with the current prompt, keeping existing versions',
+    waiting: 'Waiting to be processed...',
+    confirmRemove: (count) => count === 1 ? 'Remove 1 item?' : `Remove ${count} items?`,
+    noSelectedResults: 'None of the selected items has a finished result',
+    encodeFailed: 'Could not convert the image, please try again'
+  },
+  toolbar: {
+    search: 'Search file names',
+    listView: 'List view',
+    gridView: 'Grid view',
+    selectVisible: 'Select all shown',
+    selected: (count) => `${count} selected`,
+    retry: 'Reprocess',
+    retryHint: 'Process the selected items again (except those in progress)',
+    moveToFront: 'Prioritise',
+    moveToFrontHint: 'Move to the front of the queue',
+    reset: 'Reset to pending',
+    resetHint: 'Clear errors and mark as pending (except items in progress or queued)',
+    download: 'Download',
+    downloadHint: 'Download the finished results among the selection as a ZIP',
+    remove: 'Remove',
+    removeHint: 'Remove the selected items (except those in progress)',
+    applyPrompt: 'Apply prompt',
+    notePlaceholder: 'Extra instructions (leave empty to keep each item\'s own)',
+    applyTo: (count) => `Apply to ${count}`
+  },
+  errorCodes: {
+    auth: 'The API key is invalid or has expired',
+    rate_limit: 'Too many requests, please wait',
+    safety: 'Blocked by safety filters',
+    no_image: 'The model returned no image',
+    invalid_input: 'The image is too large or in an unsupported format',
+    network: 'Network error or service timeout',
+    unknown: 'Generation failed'
+  },
+  verification: {
+    unverified: 'Text not verified',
+    score: (score) => `Text ${score}%`,
+    allFound: 'All replacement text was recognised',
+    wrongScript: {
+      'zh-Hant': 'Simplified forms',
+      'zh-Hans': 'Traditional forms',
+      ja: 'Wrong character forms',
+      en: 'Wrong character forms'
+    },
+    issue: (label, detail) => `${label}: ${detail}`,
+    missing: 'Missing',
+    details: 'Text verification',
+    checkedAs: (language) => `Checked as ${language}`,
+    failed: (reason) => `Recognition failed: ${reason}`,
+    nothingRecognized: '(no text recognised)'
+  },
+  compare: {
+    title: (name) => `Compare versions: ${name}`,
+    source: 'Original',
+    prompt: 'Prompt',
+    chosen: 'Chosen',
+    choose: 'Use this version',
+    deleteHint: 'Delete this version'
+  },
+  cost: {
+    title: 'Usage and cost',
+    calls: (calls, failed, retries) => `API calls: ${calls} (${failed} failed, ${retries} retries)`,
+    tokens: (input, output) => `Tokens: ${input} in · ${output} out`,
+    time: (time, bytes) => `Total time: ${time} · ${bytes} output`,
+    estimated: 'Estimated cost: ',
+    spendCap: 'Spend cap (US$, pauses the queue when reached)',
+    noLimit: 'No limit',
+    capReached: 'The spend cap was reached and the queue paused. Raise the cap and press Resume to continue.',
+    priceTable: 'Prices (US$ per million tokens)',
+    input: 'Input',
+    output: 'Output',
+    resetPrices: 'Restore default prices',
+    seconds: (seconds) => `${seconds} s`,
+    lineCalls: (calls) => calls === 1 ? '1 call' : `${calls} calls`,
+    lineRetries: (retries) => retries === 1 ? '1 retry' : `${retries} retries`
+  },
+  export: {
+    title: 'Batch export',
+    filenameTemplate: 'File name template',
+    format: 'Format',
+    quality: 'Quality',
+    maxDimension: 'Maximum long edge',
+    originalSize: 'Original size',
+    keepMetadata: 'Keep metadata (EXIF, XMP, provenance)',
+    metadataLost: 'Results are PNG; metadata cannot be kept when converting to another format.',
+    downloadAll: (count) => `Download all results (ZIP, ${count})`,
+    zipNote: 'The ZIP includes manifest.json with each image\'s source name, prompt, model, resolution and aspect ratio.'
+  },
+  manifest: {
+    title: 'Batch manifest (CSV / JSON)',
+    import: 'Import manifest',
+    readFailed: 'Could not read the manifest file',
+    active: (name) => `Active: ${name}`,
+    disable: 'Stop using this manifest',
+    applied: (count) => count === 1 ? 'Applied to 1 file' : `Applied to ${count} files`,
+    unmatchedRows: 'Rows matching no file',
+    duplicateRows: 'Duplicate rows (ignored)',
+    filesWithoutRow: 'Files not in the manifest',
+    appliesToNew: 'Images added later are matched against this manifest too.',
+    row: (line, file) => `Row ${line}: ${file}`,
+    more: (count) => `⋯ ${count} more`
+  },
+  manifestProblems: {
+    empty_csv: 'The CSV file is empty',
+    missing_file_column: 'The CSV has no "file" column',
+    invalid_json: 'Invalid JSON',
+    not_array: 'A JSON manifest must be an array',
+    missing_file: (line) => `Row ${line} has no file name`
+  },
+  presets: {
+    title: 'Prompt presets',
+    deleteHint: 'Delete this preset',
+    namePlaceholder: 'Preset name',
+    saveHint: 'Save the current global prompt as a preset',
+    readFailed: 'Could not read the preset file',
+    variables: 'Variables: '
+  },
+  presetProblems: {
+    invalid_json: 'Invalid JSON',
+    missing_list: 'No presets array found',
+    missing_fields: (index) => `Entry ${index} has no name or template`
+  },
+  builtinPresets: {
+    'poster-text-swap': 'Poster text swap',
+    'menu-translation': 'Menu translation',
+    'sign-cleanup': 'Sign cleanup',
+    'simplified-to-traditional': 'Simplified to Traditional'
+  },
+  replacements: {
+    original: 'Original text',
+    replacement: 'Replace with',
+    hints: 'Font, colour and position hints',
+    font: 'Font (e.g. bold sans)',
+    color: 'Colour (e.g. gold)',
+    position: 'Position (e.g. top heading)',
+    add: 'Add text replacement'
+  },
+  review: {
+    previous: 'Previous (←)',
+    next: 'Next (→)',
+    toggleMode: 'Switch slider / side by side (S)',
+    sideBySide: 'Side by side',
+    slider: 'Slider',
+    diffHint: 'Difference heat map (D)',
+    diff: 'Diff',
+    zoomOut: 'Zoom out (-)',
+    actualSize: 'Actual pixels 1:1 (1)',
+    zoomIn: 'Zoom in (+)',
+    fit: 'Fit to window (0)',
+    close: 'Close (Esc)',
+    source: 'Original',
+    result: 'Result',
+    shortcuts: '← → switch image · wheel / + - zoom · drag to pan · 0 fit · 1 actual pixels · S slider / side by side · D difference · Esc close'
+  },
+  storage: {
+    title: 'Local storage',
+    queueData: (size, count) => `Queue data: ${size} (${count} images)`,
+    browserUsage: (usage, quota) => `Browser usage: ${usage} / ${quota}`,
+    removeCompleted: (count) => `Remove finished items (${count})`,
+    hideDetails: 'Hide details',
+    showDetails: 'Show usage per item',
+    evict: 'Remove from storage'
+  },
+  mask: {
+    title: (name) => `Edit mask: ${name}`,
+    rect: 'Rectangle',
+    brush: 'Brush',
+    brushSize: 'Brush size',
+    undo: 'Undo',
+    undoHint: 'Undo (Ctrl+Z)',
+    clear: 'Clear',
+    save: 'Save mask',
+    hint: 'Mark the areas whose text should change. Only the masked region (plus a little surrounding background) is sent for generation; the result is feathered back into the original and every pixel outside the mask stays identical.'
+  },
+  footer: {
+    author: '👨‍🏫 Created by Puti-AI teacher 黃朝榮',
+    copyright: '©️ Please respect the copyright: ask before making derivative works and credit the original author when publishing.',
+    nonCommercial: '🚫 No commercial use.',
+    more: '🔗 More tools: ',
+    library: 'Puti-AI teaching tools'
+  },
+  statusFilters: {
+    all: 'All',
+    idle: 'Pending',
+    processing: 'Processing',
+    success: 'Done',
+    error: 'Errors'
+  },
+  targetLanguages: {
+    'zh-Hant': 'Traditional Chinese',
+    'zh-Hans': 'Simplified Chinese',
+    ja: 'Japanese',
+    en: 'English'
+  },
+  providers: {
+    gemini: 'Gemini 3 Pro Image',
+    mock: 'Local mock (free)'
+  },
+  mockFailures: {
+    none: 'Always succeed',
+    flaky: 'Intermittent 429 (every other call)',
+    rate_limit: 'Always 429',
+    safety: 'Safety block',
+    timeout: 'Timeout',
+    empty: 'No image returned'
+  },
+  imageSizes: {
+    '1K': '1K (draft, fastest)',
+    '2K': '2K',
+    '4K': '4K (sharpest text)'
+  },
+  aspectModes: {
+    nearest: 'Nearest ratio (the model recomposes)',
+    pad: 'Pad to ratio, crop back afterwards',
+    crop: 'Centre-crop to ratio, paste back afterwards'
+  },
+  exportFormats: {
+    png: 'PNG (lossless)',
+    jpeg: 'JPEG',
+    webp: 'WebP'
+  },
+  filenameTokens: {
+    name: 'source name',
+    index: 'queue position',
+    date: 'date',
+    ratio: 'aspect ratio'
+  },
+  promptVariables: {
+    file: 'file name',
+    name: 'file name without extension',
+    original: 'original text',
+    replacement: 'replacement text',
+    note: 'extra instructions',
+    language: 'target text language'
+  }
+};
+
+export default messages;
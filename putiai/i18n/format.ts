@@ -0,0 +1,47 @@
+import { ImportNote } from '../types';
+import { ImportProblem } from '../services/importer';
+import { ManifestProblem } from '../services/manifest';
+import { PresetProblem } from '../services/presets';
+import { formatBytes } from '../utils/image';
+import { Messages } from './zh-TW';
+
+// Wording for the structured problems and notes services report
+
+export const formatImportProblem = (t: Messages, problem: ImportProblem): string => {
+  const messages = t.importProblems;
+  switch (problem.code) {
+    case 'too_large':
+      return messages.too_large(formatBytes(problem.limit));
+    case 'pdf_truncated':
+      return messages.pdf_truncated(problem.pages, problem.limit);
+    case 'unsupported':
+      return messages.unsupported(problem.format || messages.unknownFormat);
+    default:
+      return messages[problem.code];
+  }
+};
+
+const formatImportNote = (t: Messages, note: ImportNote): string => {
+  const messages = t.importNotes;
+  switch (note.kind) {
+    case 'pdf_page':
+      return messages.pdf_page(note.page);
+    case 'heic':
+      return messages.heic;
+    case 'downscaled':
+      return messages.downscaled(note.from.join('×'), note.to.join('×'));
+    case 'converted':
+      return messages.converted(note.format);
+    case 'recompressed':
+      return messages.recompressed(formatBytes(note.from), formatBytes(note.to));
+  }
+};
+
+export const formatImportNotes = (t: Messages, notes: ImportNote[]): string =>
+  notes.map(note => formatImportNote(t, note)).join(t.importNotes.separator);
+
+export const formatManifestProblem = (t: Messages, problem: ManifestProblem): string =>
+  problem.code === 'missing_file' ? t.manifestProblems.missing_file(problem.line) : t.manifestProblems[problem.code];
+
+export const formatPresetProblem = (t: Messages, problem: PresetProblem): string =>
+  problem.code === 'missing_fields' ? t.presetProblems.missing_fields(problem.index) : t.presetProblems[problem.code];
@@ -0,0 +1,90 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { loadSetting, saveSetting } from '../services/storage';
+import zhTW, { Messages } from './zh-TW';
+import zhCN from './zh-CN';
+import en from './en';
+import ja from './ja';
+
+// Interface language. Separate from the target language, which decides what
+// the generated text is written in.
+
+export type Locale = 'zh-TW' | 'zh-CN' | 'en' | 'ja';
+export type { Messages };
+
+// Each named in its own language
+export const LOCALES: { id: Locale; name: string }[] = [
+  { id: 'zh-TW', name: '繁體中文' },
+  { id: 'zh-CN', name: '简体中文' },
+  { id: 'en', name: 'English' },
+  { id: 'ja', name: '日本語' }
+];
+
+const MESSAGES: Record<Locale, Messages> = { 'zh-TW': zhTW, 'zh-CN': zhCN, en, ja };
+
+// First supported language in the browser's preference list; English when there is none
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const tag of languages) {
+    const [language, ...subtags] = tag.toLowerCase().split('-');
+    if (language === 'zh') {
+      if (subtags.includes('hant')) return 'zh-TW';
+      return subtags.some(subtag => ['hans', 'cn', 'sg', 'my'].includes(subtag)) ? 'zh-CN' : 'zh-TW';
+    }
+    if (language === 'ja') return 'ja';
+    if (language === 'en') return 'en';
+  }
+  return 'en';
+};
+
+const browserLanguages = () => navigator.languages?.length ? navigator.languages : [navigator.language];
+
+interface I18nContextValue {
+  locale: Locale;
+  // null follows the browser
+  preference: Locale | null;
+  setPreference: (locale: Locale | null) => void;
+  t: Messages;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider = ({ children }: { children: React.ReactNode }) => {
+  const [preference, setPreferenceState] = useState<Locale | null>(null);
+  const [detected, setDetected] = useState<Locale>(() => detectLocale(browserLanguages()));
+  // Children wait for the saved preference so the app never renders in the wrong language
+  const [isLoaded, setIsLoaded] = useState(false);
+  const locale = preference ?? detected;
+  const t = MESSAGES[locale];
+
+  useEffect(() => {
+    loadSetting<Locale | null>('locale')
+      .then(saved => { if (saved && MESSAGES[saved]) setPreferenceState(saved); })
+      .catch(err => console.error("Failed to load locale:", err))
+      .finally(() => setIsLoaded(true));
+
+    const onLanguageChange = () => setDetected(detectLocale(browserLanguages()));
+    window.addEventListener('languagechange', onLanguageChange);
+    return () => window.removeEventListener('languagechange', onLanguageChange);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = t.app.title;
+  }, [locale]);
+
+  const setPreference = (next: Locale | null) => {
+    setPreferenceState(next);
+    saveSetting('locale', next).catch(err => console.error("Failed to save locale:", err));
+  };
+
+  return (
+    <I18nContext.Provider value={{ locale, preference, setPreference, t }}>
+      {isLoaded && children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useI18n = (): I18nContextValue => {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside I18nProvider');
+  return value;
+};
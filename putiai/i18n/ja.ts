@@ -0,0 +1,378 @@
+import { Messages } from './zh-TW';
+
+const messages: Messages = {
+  common: {
+    close: '閉じる',
+    cancel: 'キャンセル',
+    delete: '削除',
+    apply: '適用',
+    save: '保存',
+    import: 'インポート',
+    export: 'エクスポート',
+    importFailed: (reason) => `インポートに失敗しました：${reason}`,
+    zipFailed: 'ZIP を作成できませんでした。しばらくしてから再度お試しください',
+    listSeparator: '、'
+  },
+  app: {
+    title: 'Puti-AI 画像文字一括修正',
+    subtitle: '画像内テキストの高精細修復とローカライズ',
+    clearAll: 'すべてクリア',
+    interfaceLanguage: '表示言語',
+    autoLanguage: (name) => `自動 (${name})`
+  },
+  welcome: {
+    title: 'Puti-AI 4K 一括修復ツールへようこそ',
+    body: 'Gemini 3 Pro (Nano Banana Pro) で高品質な 4K 画像を生成するには、有料の API キーを接続する必要があります。',
+    connectKey: 'API キーを接続',
+    notInAiStudio: 'AI Studio の外で実行されているため、キーを選択できません。PUTI_KEY_MODE=proxy (推奨) または direct で再ビルドしてください。',
+    noBuildKey: 'ビルド時に GEMINI_API_KEY が設定されていません。.env.local に設定して再ビルドするか、PUTI_KEY_MODE=proxy を使用してください。',
+    useMock: 'ローカルのモックモードを使う (オフライン開発)',
+    billingDocs: '料金に関するドキュメント'
+  },
+  settings: {
+    title: '全体設定',
+    globalPrompt: '共通プロンプト (品質のため英語のままを推奨)',
+    globalPromptPlaceholder: 'すべての画像に適用する指示...',
+    targetLanguage: '出力テキストの言語',
+    targetLanguageHint: 'プロンプトの {{language}}、置換テキストの字形ルール、OCR 検証の基準を決めます。',
+    provider: '生成サービス',
+    mockFailure: '模擬エラー',
+    proxyToken: 'プロキシのアクセストークン',
+    proxyTokenPlaceholder: 'サーバーでトークンを使わない場合は空欄',
+    variants: '1 枚あたりの生成数',
+    imageSize: '解像度',
+    aspectMode: 'アスペクト比の扱い',
+    verification: 'テキスト検証 (OCR)',
+    verificationEnabled: '生成後に文字を読み取り、置換内容と照合する',
+    threshold: '合格ライン',
+    autoRegenerate: (max) => `合格ライン未満なら自動で再生成 (最大 ${max} 回)`,
+    concurrency: '同時処理数'
+  },
+  run: {
+    processing: (running, waiting) => `キューを処理中... (実行中 ${running} / 待機 ${waiting})`,
+    start: '一括処理を開始',
+    addToBatch: (count) => `クリックすると新しい画像 ${count} 枚をこのバッチに追加します`,
+    estimate: (calls, cost) => `推定 ${calls} 回の呼び出し · 約 ${cost}`,
+    overCap: ' (利用上限を超える可能性があります)',
+    resume: '再開',
+    pause: '一時停止',
+    stop: '停止',
+    pausedNote: '送信を一時停止しました。実行中のリクエストが終わった後、新しい項目は開始されません'
+  },
+  tips: {
+    title: 'Puti-AI のヒント：',
+    aspect: '元画像のアスペクト比を自動で検出して維持します。',
+    size: ['文字を正しく表示するには ', '4K 解像度', ' での生成をおすすめします。1K で素早く試し、納得したら 4K で仕上げることもできます。'],
+    time: '1 枚の生成には約 10〜20 秒かかります。',
+    saved: 'キューと結果はブラウザに自動保存され、再読み込み後も続けられます。'
+  },
+  upload: {
+    drop: 'ここに画像をドロップするか、クリックしてアップロード',
+    hint: '複数ファイルやフォルダごとのアップロードに対応しています。PDF はページごとに画像化され、HEIC や大きすぎる画像は自動で変換・縮小されます。',
+    chooseFolder: 'フォルダを選択',
+    importing: (done, total) => `インポート中 (${done} / ${total})`,
+    rejected: (count) => `${count} 件のファイルがインポートされなかったか、一部のみインポートされました`,
+    rejection: (name, reason) => `${name}：${reason}`
+  },
+  importProblems: {
+    decode_failed: '画像をデコードできません。ファイルが破損している可能性があります',
+    too_large: (limit) => `圧縮後も ${limit} を超えています`,
+    heic_failed: 'HEIC ファイルを変換できません。JPEG に変換してからインポートしてください',
+    pdf_locked: 'PDF はパスワードで保護されています',
+    pdf_failed: 'PDF を開けません。ファイルが破損している可能性があります',
+    pdf_truncated: (pages, limit) => `全 ${pages} ページのうち、最初の ${limit} ページのみインポートしました`,
+    empty: 'ファイルが空です',
+    unsupported: (format) => `対応していないファイル形式です (${format})`,
+    unknownFormat: '不明',
+    unexpected: 'インポート中に予期しないエラーが発生しました'
+  },
+  importNotes: {
+    pdf_page: (page) => `PDF ${page} ページ目`,
+    heic: 'HEIC から JPEG に変換',
+    downscaled: (from, to) => `縮小 ${from} → ${to}`,
+    converted: (format) => `${format} に変換`,
+    recompressed: (from, to) => `再圧縮 ${from} → ${to}`,
+    separator: '、'
+  },
+  queue: {
+    empty: 'キューは空です',
+    noMatch: '条件に一致する項目はありません',
+    dragDisabled: '処理中の項目は移動できません',
+    dragHint: 'ドラッグして処理順を変更',
+    retrying: (count) => `再試行中 (${count} 回目)`,
+    processing: (size) => `処理中 (${size})`,
+    success: '完了',
+    error: 'エラー',
+    paused: '一時停止中',
+    queued: '待機列',
+    idle: '未処理',
+    pauseItem: 'この項目を一時停止',
+    resumeItem: 'この項目を再開',
+    cancelItem: 'この項目をキャンセル',
+    source: '元画像',
+    maskHint: '囲んだ文字領域だけを再生成し、それ以外のピクセルは変更しません',
+    editMask: (count) => `マスクを編集 (${count})`,
+    addMask: '編集する領域を囲む',
+    prompt: 'プロンプト',
+    globalPrompt: '共通プロンプト',
+    replacements: 'テキスト置換',
+    note: '追加の指示 (任意)',
+    notePlaceholder: 'この画像へのその他の指示 (例：右下のロゴは残す)...',
+    variants: '生成数',
+    imageSize: '解像度',
+    aspectMode: 'アスペクト比',
+    useDefault: (value) => `既定 (${value})`,
+    previewPrompt: '完全なプロンプトを表示',
+    failedReason: '失敗の理由：',
+    lastAttemptFailed: '前回の試行は失敗：',
+    errorDetails: 'エラーの詳細を表示',
+    errorType: '種類：',
+    result: 'Puti-AI 処理結果',
+    attempt: (number) => `バージョン ${number}`,
+    attemptScore: (score) => `文字 ${score}%`,
+    download: (size, format) => `${size} 画像をダウンロード (${format})`,
+    finalize: (size) => `${size} で仕上げる`,
+    finalizeHint: 'このバージョンのプロンプトとアスペクト比設定のまま、フル解像度で再生成します',
+    compare: (count) => `比較 (${count})`,
+    review: '表示',
+    reviewHint: '前後比較、拡大縮小、差分表示',
+    regenerate: '再生成',
+    regenerateHint: '現在のプロンプトで再生成し、既存のバージョンは残します',
+    waiting: '処理待ち...',
+    confirmRemove: (count) => `${count} 件の項目を削除しますか？`,
+    noSelectedResults: '選択した項目に完了した結果はありません',
+    encodeFailed: '形式を変換できませんでした。しばらくしてから再度お試しください'
+  },
+  toolbar: {
+    search: 'ファイル名で検索',
+    listView: 'リスト表示',
+    gridView: 'サムネイル表示',
+    selectVisible: '表示中の項目をすべて選択',
+    selected: (count) => `${count} 件選択中`,
+    retry: '再処理',
+    retryHint: '選択した項目を再処理します (処理中の項目を除く)',
+    moveToFront: '優先処理',
+    moveToFrontHint: 'キューの先頭に移動して優先的に処理します',
+    reset: '未処理に戻す',
+    resetHint: 'エラーを消して未処理に戻します (処理中・待機中の項目を除く)',
+    download: 'ダウンロード',
+    downloadHint: '選択した項目のうち完了した結果を ZIP でダウンロード',
+    remove: '削除',
+    removeHint: '選択した項目を削除します (処理中の項目を除く)',
+    applyPrompt: 'プロンプトを適用',
+    notePlaceholder: '追加の指示 (空欄なら各項目の内容を維持)',
+    applyTo: (count) => `${count} 件に適用`
+  },
+  errorCodes: {
+    auth: 'API キーが無効か、期限切れです',
+    rate_limit: 'リクエストが多すぎます。しばらくお待ちください',
+    safety: '安全フィルタによりブロックされました',
+    no_image: 'モデルが画像を返しませんでした',
+    invalid_input: '画像が大きすぎるか、対応していない形式です',
+    network: 'ネットワークエラーまたはタイムアウト',
+    unknown: '生成に失敗しました'
+  },
+  verification: {
+    unverified: '文字未検証',
+    score: (score) => `文字 ${score}%`,
+    allFound: '置換テキストはすべて認識されました',
+    wrongScript: {
+      'zh-Hant': '簡体字',
+      'zh-Hans': '繁体字',
+      ja: '字形の誤り',
+      en: '字形の誤り'
+    },
+    issue: (label, detail) => `${label}：${detail}`,
+    missing: '欠落',
+    details: 'テキスト検証の結果',
+    checkedAs: (language) => `照合言語：${language}`,
+    failed: (reason) => `認識に失敗しました：${reason}`,
+    nothingRecognized: '(文字は認識されませんでした)'
+  },
+  compare: {
+    title: (name) => `バージョン比較：${name}`,
+    source: '元画像',
+    prompt: 'プロンプト',
+    chosen: '採用中',
+    choose: 'このバージョンを採用',
+    deleteHint: 'このバージョンを削除'
+  },
+  cost: {
+    title: '使用量と費用',
+    calls: (calls, failed, retries) => `API 呼び出し：${calls} 回 (失敗 ${failed}、再試行 ${retries})`,
+    tokens: (input, output) => `トークン：入力 ${input} · 出力 ${output}`,
+    time: (time, bytes) => `合計時間：${time} · 出力 ${bytes}`,
+    estimated: '推定費用：',
+    spendCap: '利用上限 (US$、達するとキューを一時停止)',
+    noLimit: '上限なし',
+    capReached: '利用上限に達したため、キューを一時停止しました。上限を引き上げて「再開」を押すと続行します。',
+    priceTable: '料金表 (US$ / 100 万トークン)',
+    input: '入力',
+    output: '出力',
+    resetPrices: '既定の料金に戻す',
+    seconds: (seconds) => `${seconds} 秒`,
+    lineCalls: (calls) => `${calls} 回呼び出し`,
+    lineRetries: (retries) => `再試行 ${retries} 回`
+  },
+  export: {
+    title: '一括エクスポート',
+    filenameTemplate: 'ファイル名テンプレート',
+    format: '出力形式',
+    quality: '品質',
+    maxDimension: '最大の長辺',
+    originalSize: '元のサイズ',
+    keepMetadata: 'メタデータを保持 (EXIF、XMP、来歴情報)',
+    metadataLost: '生成結果は PNG のため、他の形式に変換するとメタデータは保持されません。',
+    downloadAll: (count) => `すべての結果をダウンロード (ZIP、${count} 枚)`,
+    zipNote: 'ZIP には各画像の元ファイル名、プロンプト、モデル、解像度、アスペクト比を記録した manifest.json が含まれます。'
+  },
+  manifest: {
+    title: 'バッチマニフェスト (CSV / JSON)',
+    import: 'マニフェストをインポート',
+    readFailed: 'マニフェストファイルを読み込めません',
+    active: (name) => `使用中：${name}`,
+    disable: 'マニフェストの使用をやめる',
+    applied: (count) => `${count} 件のファイルに適用済み`,
+    unmatchedRows: '対応するファイルがない行',
+    duplicateRows: '重複した行 (無視)',
+    filesWithoutRow: 'マニフェストにないファイル',
+    appliesToNew: '後から追加した画像にもこのマニフェストが自動で適用されます。',
+    row: (line, file) => `${line} 行目：${file}`,
+    more: (count) => `⋯ ほか ${count} 件`
+  },
+  manifestProblems: {
+    empty_csv: 'CSV ファイルが空です',
+    missing_file_column: 'CSV に必須の "file" 列がありません',
+    invalid_json: 'JSON の形式が正しくありません',
+    not_array: 'JSON マニフェストは配列である必要があります',
+    missing_file: (line) => `${line} 行目にファイル名がありません`
+  },
+  presets: {
+    title: 'プロンプトのプリセット',
+    deleteHint: 'このプリセットを削除',
+    namePlaceholder: 'プリセット名',
+    saveHint: '現在の共通プロンプトをプリセットとして保存',
+    readFailed: 'プリセットファイルを読み込めません',
+    variables: '使える変数：'
+  },
+  presetProblems: {
+    invalid_json: 'JSON の形式が正しくありません',
+    missing_list: 'presets 配列が見つかりません',
+    missing_fields: (index) => `${index} 件目に名前または内容がありません`
+  },
+  builtinPresets: {
+    'poster-text-swap': 'ポスターの文字差し替え',
+    'menu-translation': 'メニュー翻訳',
+    'sign-cleanup': '看板のクリーンアップ',
+    'simplified-to-traditional': '簡体字から繁体字へ'
+  },
+  replacements: {
+    original: '元のテキスト',
+    replacement: '置換後',
+    hints: 'フォント・色・位置のヒント',
+    font: 'フォント (例：太ゴシック)',
+    color: '色 (例：金色)',
+    position: '位置 (例：上部の見出し)',
+    add: 'テキスト置換を追加'
+  },
+  review: {
+    previous: '前へ (←)',
+    next: '次へ (→)',
+    toggleMode: 'スライダー / 並べて表示を切り替え (S)',
+    sideBySide: '並べて表示',
+    slider: 'スライダー',
+    diffHint: '差分ヒートマップ (D)',
+    diff: '差分',
+    zoomOut: '縮小 (-)',
+    actualSize: '等倍 1:1 (1)',
+    zoomIn: '拡大 (+)',
+    fit: 'ウィンドウに合わせる (0)',
+    close: '閉じる (Esc)',
+    source: '元画像',
+    result: '結果',
+    shortcuts: '← → 画像を切り替え · ホイール / + - 拡大縮小 · ドラッグで移動 · 0 ウィンドウに合わせる · 1 等倍 · S スライダー/並べて表示 · D 差分 · Esc 閉じる'
+  },
+  storage: {
+    title: 'ローカルストレージ',
+    queueData: (size, count) => `キューのデータ：${size}（${count} 枚）`,
+    browserUsage: (usage, quota) => `ブラウザの使用量：${usage} / ${quota}`,
+    removeCompleted: (count) => `完了した項目を削除 (${count})`,
+    hideDetails: '詳細を隠す',
+    showDetails: '項目ごとの使用量を表示',
+    evict: 'ストレージから削除'
+  },
+  mask: {
+    title: (name) => `マスクを編集：${name}`,
+    rect: '矩形',
+    brush: 'ブラシ',
+    brushSize: 'ブラシサイズ',
+    undo: '元に戻す',
+    undoHint: '元に戻す (Ctrl+Z)',
+    clear: 'クリア',
+    save: 'マスクを保存',
+    hint: '文字を置き換える領域を囲んでください。マスク範囲 (周囲の背景を少し含む) だけが生成に送られ、結果はぼかした境界で元画像に貼り戻されます。マスク外のピクセルは元画像とまったく同じです。'
+  },
+  footer: {
+    author: '👨‍🏫 作者：Puti-AI 黃朝榮先生',
+    copyright: '©️ 著作権を尊重してください。改変する場合は事前に許可を得て、公開時には原作者を明記してください。',
+    nonCommercial: '🚫 商用利用不可。',
+    more: '🔗 ほかのツールはこちら: ',
+    library: 'Puti-AI 教育ツール集'
+  },
+  statusFilters: {
+    all: 'すべて',
+    idle: '未処理',
+    processing: '処理中',
+    success: '完了',
+    error: 'エラー'
+  },
+  targetLanguages: {
+    'zh-Hant': '繁体字中国語',
+    'zh-Hans': '簡体字中国語',
+    ja: '日本語',
+    en: '英語'
+  },
+  providers: {
+    gemini: 'Gemini 3 Pro Image',
+    mock: 'ローカルモック (クレジット消費なし)'
+  },
+  mockFailures: {
+    none: 'すべて成功',
+    flaky: '断続的に 429 (1 回おき)',
+    rate_limit: '常に 429',
+    safety: '安全フィルタ',
+    timeout: 'タイムアウト',
+    empty: '画像なし'
+  },
+  imageSizes: {
+    '1K': '1K (下書き、最速)',
+    '2K': '2K',
+    '4K': '4K (文字が最も鮮明)'
+  },
+  aspectModes: {
+    nearest: '最も近い比率 (モデルが再構図)',
+    pad: '余白を足して比率を合わせ、後で元のサイズに切り戻す',
+    crop: '中央を切り抜いて比率を合わせ、後で元画像に貼り戻す'
+  },
+  exportFormats: {
+    png: 'PNG (可逆)',
+    jpeg: 'JPEG',
+    webp: 'WebP'
+  },
+  filenameTokens: {
+    name: '元のファイル名',
+    index: 'キュー番号',
+    date: '日付',
+    ratio: 'アスペクト比'
+  },
+  promptVariables: {
+    file: 'ファイル名',
+    name: 'ファイル名 (拡張子なし)',
+    original: '元のテキスト',
+    replacement: '置換テキスト',
+    note: '追加の指示',
+    language: '出力テキストの言語'
+  }
+};
+
+export default messages;
@@ -0,0 +1,378 @@
+import { Messages } from './zh-TW';
+
+const messages: Messages = {
+  common: {
+    close: '关闭',
+    cancel: '取消',
+    delete: '删除',
+    apply: '应用',
+    save: '保存',
+    import: '导入',
+    export: '导出',
+    importFailed: (reason) => `导入失败：${reason}`,
+    zipFailed: '打包失败，请稍后再试',
+    listSeparator: '、'
+  },
+  app: {
+    title: 'Puti-AI 图片批量文字修正',
+    subtitle: '高清图片文字修复与本地化',
+    clearAll: '全部清除',
+    interfaceLanguage: '界面语言',
+    autoLanguage: (name) => `自动 (${name})`
+  },
+  welcome: {
+    title: '欢迎使用 Puti-AI 4K 批量修复工具',
+    body: '要使用 Gemini 3 Pro (Nano Banana Pro) 生成高质量 4K 图片，需要连接付费 API 密钥。',
+    connectKey: '连接 API 密钥',
+    notInAiStudio: '当前不在 AI Studio 中运行，无法选择密钥。请改用 PUTI_KEY_MODE=proxy (推荐) 或 direct 重新构建。',
+    noBuildKey: '构建时未设置 GEMINI_API_KEY。请在 .env.local 中设置后重新构建，或改用 PUTI_KEY_MODE=proxy。',
+    useMock: '使用本地模拟模式 (离线开发)',
+    billingDocs: '计费说明文档'
+  },
+  settings: {
+    title: '全局设置',
+    globalPrompt: '通用提示词 (建议保留英文以保证质量)',
+    globalPromptPlaceholder: '应用到所有图片的指令...',
+    targetLanguage: '目标文字语言',
+    targetLanguageHint: '决定提示词中的 {{language}}、替换文字的字形要求和 OCR 校验标准。',
+    provider: '生成服务',
+    mockFailure: '模拟错误场景',
+    proxyToken: '代理服务器访问令牌',
+    proxyTokenPlaceholder: '服务器未设置令牌时可留空',
+    variants: '每张生成版本数',
+    imageSize: '生成分辨率',
+    aspectMode: '宽高比处理',
+    verification: '文字校验 (OCR)',
+    verificationEnabled: '生成后识别文字并比对替换内容',
+    threshold: '合格阈值',
+    autoRegenerate: (max) => `低于阈值时自动重新生成 (最多 ${max} 次)`,
+    concurrency: '并发数量'
+  },
+  run: {
+    processing: (running, waiting) => `正在处理队列... (${running} 进行中 / ${waiting} 等待)`,
+    start: '开始批量处理',
+    addToBatch: (count) => `点击可将 ${count} 张新图片加入本批次`,
+    estimate: (calls, cost) => `预计 ${calls} 次调用 · 约 ${cost}`,
+    overCap: ' (可能超出花费上限)',
+    resume: '继续',
+    pause: '暂停',
+    stop: '停止',
+    pausedNote: '已暂停派发，进行中的请求完成后不会再开始新的项目'
+  },
+  tips: {
+    title: 'Puti-AI 专业提示：',
+    aspect: '系统会自动检测并保持原图宽高比。',
+    size: ['建议以 ', '4K 分辨率', '生成，确保文字正确显示；也可以先用 1K 快速打样，满意后再以 4K 定稿。'],
+    time: '每张图片生成约需 10-20 秒。',
+    saved: '队列和结果会自动保存在浏览器中，刷新后仍可继续。'
+  },
+  upload: {
+    drop: '将图片拖放到此处，或点击上传',
+    hint: '支持批量上传和整个文件夹。PDF 会逐页转为图片，HEIC 和过大的图片会自动转换并缩小。',
+    chooseFolder: '选择文件夹',
+    importing: (done, total) => `导入中 (${done} / ${total})`,
+    rejected: (count) => `${count} 个文件未导入或未完整导入`,
+    rejection: (name, reason) => `${name}：${reason}`
+  },
+  importProblems: {
+    decode_failed: '无法解码图片，文件可能已损坏',
+    too_large: (limit) => `压缩后仍超过 ${limit}`,
+    heic_failed: '无法转换 HEIC 文件，请先转为 JPEG 再导入',
+    pdf_locked: 'PDF 受密码保护',
+    pdf_failed: '无法打开 PDF，文件可能已损坏',
+    pdf_truncated: (pages, limit) => `共 ${pages} 页，只导入前 ${limit} 页`,
+    empty: '文件为空',
+    unsupported: (format) => `不支持的文件格式 (${format})`,
+    unknownFormat: '未知',
+    unexpected: '导入时发生意外错误'
+  },
+  importNotes: {
+    pdf_page: (page) => `PDF 第 ${page} 页`,
+    heic: '已由 HEIC 转为 JPEG',
+    downscaled: (from, to) => `已缩小 ${from} → ${to}`,
+    converted: (format) => `已转为 ${format}`,
+    recompressed: (from, to) => `已重新压缩 ${from} → ${to}`,
+    separator: '，'
+  },
+  queue: {
+    empty: '任务队列当前为空',
+    noMatch: '没有符合条件的项目',
+    dragDisabled: '处理中的项目无法移动',
+    dragHint: '拖动以调整处理顺序',
+    retrying: (count) => `重试中 (第 ${count} 次)`,
+    processing: (size) => `处理中 (${size})`,
+    success: '完成',
+    error: '错误',
+    paused: '已暂停',
+    queued: '已排队',
+    idle: '待处理',
+    pauseItem: '暂停此项目',
+    resumeItem: '继续此项目',
+    cancelItem: '取消此项目',
+    source: '原始图片',
+    maskHint: '只重新生成框选的文字区域，其余像素保持不变',
+    editMask: (count) => `编辑遮罩 (${count})`,
+    addMask: '框选编辑区域',
+    prompt: '提示词',
+    globalPrompt: '通用提示词',
+    replacements: '文字替换',
+    note: '补充指令 (选填)',
+    notePlaceholder: '针对此图片的其他说明 (例如：保留右下角的标志)...',
+    variants: '版本数',
+    imageSize: '分辨率',
+    aspectMode: '宽高比',
+    useDefault: (value) => `默认 (${value})`,
+    previewPrompt: '预览完整提示词',
+    failedReason: '失败原因：',
+    lastAttemptFailed: '上次尝试失败：',
+    errorDetails: '查看完整错误信息',
+    errorType: '类型：',
+    result: 'Puti-AI 处理结果',
+    attempt: (number) => `版本 ${number}`,
+    attemptScore: (score) => `文字 ${score}%`,
+    download: (size, format) => `下载 ${size} 图片 (${format})`,
+    finalize: (size) => `以 ${size} 定稿`,
+    finalizeHint: '沿用此版本的提示词和宽高比设置，以完整分辨率重新生成',
+    compare: (count) => `比较 (${count})`,
+    review: '查看',
+    reviewHint: '前后对照、缩放和差异查看',
+    regenerate: '重新生成',
+    regenerateHint: '用当前提示词重新生成，保留已有版本',
+    waiting: '等待处理中...',
+    confirmRemove: (count) => `确定要移除 ${count} 个项目吗？`,
+    noSelectedResults: '所选项目中没有已完成的结果',
+    encodeFailed: '转换格式失败，请稍后再试'
+  },
+  toolbar: {
+    search: '搜索文件名',
+    listView: '列表视图',
+    gridView: '缩略图视图',
+    selectVisible: '全选当前显示的项目',
+    selected: (count) => `已选择 ${count} 项`,
+    retry: '重新处理',
+    retryHint: '重新处理所选项目 (处理中的项目除外)',
+    moveToFront: '优先处理',
+    moveToFrontHint: '移到队列最前面，优先处理',
+    reset: '重置为待处理',
+    resetHint: '清除错误并改回待处理 (处理中或已排队的项目除外)',
+    download: '下载',
+    downloadHint: '打包下载所选项目中已完成的结果',
+    remove: '移除',
+    removeHint: '移除所选项目 (处理中的项目除外)',
+    applyPrompt: '应用提示词',
+    notePlaceholder: '额外指令 (留空则保留各项目原有内容)',
+    applyTo: (count) => `应用到 ${count} 项`
+  },
+  errorCodes: {
+    auth: 'API 密钥无效或已失效',
+    rate_limit: '请求过于频繁，请稍候',
+    safety: '触发安全限制',
+    no_image: '模型未返回图片',
+    invalid_input: '图片过大或格式不受支持',
+    network: '网络连接或服务超时',
+    unknown: '生成失败'
+  },
+  verification: {
+    unverified: '文字未校验',
+    score: (score) => `文字 ${score}%`,
+    allFound: '所有替换文字均已识别',
+    wrongScript: {
+      'zh-Hant': '简体字',
+      'zh-Hans': '繁体字',
+      ja: '字形不符',
+      en: '字形不符'
+    },
+    issue: (label, detail) => `${label}：${detail}`,
+    missing: '缺漏字',
+    details: '文字校验结果',
+    checkedAs: (language) => `比对语言：${language}`,
+    failed: (reason) => `识别失败：${reason}`,
+    nothingRecognized: '(未识别到文字)'
+  },
+  compare: {
+    title: (name) => `比较版本：${name}`,
+    source: '原始图片',
+    prompt: '提示词',
+    chosen: '已选用',
+    choose: '选用此版本',
+    deleteHint: '删除此版本'
+  },
+  cost: {
+    title: '用量与费用',
+    calls: (calls, failed, retries) => `API 调用：${calls} 次 (失败 ${failed}、重试 ${retries})`,
+    tokens: (input, output) => `Tokens：输入 ${input} · 输出 ${output}`,
+    time: (time, bytes) => `累计耗时：${time} · 输出 ${bytes}`,
+    estimated: '预计费用：',
+    spendCap: '花费上限 (US$，达到时暂停队列)',
+    noLimit: '不限制',
+    capReached: '已达到花费上限，队列已暂停。提高上限后点击“继续”即可恢复。',
+    priceTable: '价格表 (US$ / 每百万 tokens)',
+    input: '输入',
+    output: '输出',
+    resetPrices: '恢复默认价格',
+    seconds: (seconds) => `${seconds} 秒`,
+    lineCalls: (calls) => `${calls} 次调用`,
+    lineRetries: (retries) => `重试 ${retries} 次`
+  },
+  export: {
+    title: '批量导出',
+    filenameTemplate: '文件名模板',
+    format: '输出格式',
+    quality: '质量',
+    maxDimension: '最长边',
+    originalSize: '原始尺寸',
+    keepMetadata: '保留元数据 (EXIF、XMP、来源标记)',
+    metadataLost: '生成结果为 PNG，转为其他格式时无法保留元数据。',
+    downloadAll: (count) => `下载全部结果 (ZIP, ${count} 张)`,
+    zipNote: 'ZIP 内附 manifest.json，记录每张图片的来源文件名、提示词、模型、分辨率和宽高比。'
+  },
+  manifest: {
+    title: '批量清单 (CSV / JSON)',
+    import: '导入清单',
+    readFailed: '无法读取清单文件',
+    active: (name) => `使用中：${name}`,
+    disable: '停用清单',
+    applied: (count) => `已应用到 ${count} 个文件`,
+    unmatchedRows: '找不到对应文件的行',
+    duplicateRows: '重复的行 (已忽略)',
+    filesWithoutRow: '清单中没有的文件',
+    appliesToNew: '之后添加的图片也会自动应用此清单。',
+    row: (line, file) => `第 ${line} 行：${file}`,
+    more: (count) => `⋯ 另有 ${count} 项`
+  },
+  manifestProblems: {
+    empty_csv: 'CSV 文件为空',
+    missing_file_column: 'CSV 缺少必需的 "file" 列',
+    invalid_json: 'JSON 格式错误',
+    not_array: 'JSON 清单必须是数组',
+    missing_file: (line) => `第 ${line} 行缺少文件名`
+  },
+  presets: {
+    title: '提示词预设',
+    deleteHint: '删除此预设',
+    namePlaceholder: '预设名称',
+    saveHint: '将当前通用提示词保存为预设',
+    readFailed: '无法读取预设文件',
+    variables: '可用变量：'
+  },
+  presetProblems: {
+    invalid_json: 'JSON 格式错误',
+    missing_list: '找不到 presets 数组',
+    missing_fields: (index) => `第 ${index} 项缺少名称或内容`
+  },
+  builtinPresets: {
+    'poster-text-swap': '海报文字替换',
+    'menu-translation': '菜单翻译',
+    'sign-cleanup': '招牌清理',
+    'simplified-to-traditional': '简体转繁体'
+  },
+  replacements: {
+    original: '原文字',
+    replacement: '替换为',
+    hints: '字体、颜色和位置提示',
+    font: '字体 (例：粗黑体)',
+    color: '颜色 (例：金色)',
+    position: '位置 (例：上方标题)',
+    add: '添加文字替换'
+  },
+  review: {
+    previous: '上一张 (←)',
+    next: '下一张 (→)',
+    toggleMode: '切换滑块 / 并排 (S)',
+    sideBySide: '并排',
+    slider: '滑块',
+    diffHint: '差异热图 (D)',
+    diff: '差异',
+    zoomOut: '缩小 (-)',
+    actualSize: '原始像素 1:1 (1)',
+    zoomIn: '放大 (+)',
+    fit: '适合窗口 (0)',
+    close: '关闭 (Esc)',
+    source: '原始',
+    result: '结果',
+    shortcuts: '← → 切换图片 · 滚轮 / + - 缩放 · 拖动平移 · 0 适合窗口 · 1 原始像素 · S 滑块/并排 · D 差异热图 · Esc 关闭'
+  },
+  storage: {
+    title: '本地存储空间',
+    queueData: (size, count) => `队列数据：${size}（${count} 张）`,
+    browserUsage: (usage, quota) => `浏览器已使用：${usage} / ${quota}`,
+    removeCompleted: (count) => `移除已完成项目 (${count})`,
+    hideDetails: '隐藏明细',
+    showDetails: '显示各项目用量',
+    evict: '从存储空间移除'
+  },
+  mask: {
+    title: (name) => `编辑遮罩：${name}`,
+    rect: '矩形',
+    brush: '画笔',
+    brushSize: '画笔大小',
+    undo: '撤销',
+    undoHint: '撤销 (Ctrl+Z)',
+    clear: '清除',
+    save: '保存遮罩',
+    hint: '框选要替换文字的区域。只有遮罩范围 (含周边少许背景) 会被送去生成，结果以柔边贴回原图，遮罩外的像素与原图完全相同。'
+  },
+  footer: {
+    author: '👨‍🏫 作者为 Puti-AI 黄朝荣老师',
+    copyright: '©️ 请尊重著作权，二次修改请征得同意，发布时注明原作者。',
+    nonCommercial: '🚫 不得商用。',
+    more: '🔗 点击查看更多: ',
+    library: 'Puti-AI 教学工具库'
+  },
+  statusFilters: {
+    all: '全部',
+    idle: '待处理',
+    processing: '处理中',
+    success: '完成',
+    error: '错误'
+  },
+  targetLanguages: {
+    'zh-Hant': '繁体中文',
+    'zh-Hans': '简体中文',
+    ja: '日语',
+    en: '英语'
+  },
+  providers: {
+    gemini: 'Gemini 3 Pro Image',
+    mock: '本地模拟 (不消耗额度)'
+  },
+  mockFailures: {
+    none: '全部成功',
+    flaky: '间歇 429 (每隔一次)',
+    rate_limit: '始终 429',
+    safety: '安全限制',
+    timeout: '超时',
+    empty: '未返回图片'
+  },
+  imageSizes: {
+    '1K': '1K (草稿，最快)',
+    '2K': '2K',
+    '4K': '4K (文字最清晰)'
+  },
+  aspectModes: {
+    nearest: '最接近比例 (由模型重新构图)',
+    pad: '补边至比例，完成后裁回原尺寸',
+    crop: '居中裁切至比例，完成后贴回原图'
+  },
+  exportFormats: {
+    png: 'PNG (无损)',
+    jpeg: 'JPEG',
+    webp: 'WebP'
+  },
+  filenameTokens: {
+    name: '原始文件名',
+    index: '队列序号',
+    date: '日期',
+    ratio: '宽高比'
+  },
+  promptVariables: {
+    file: '文件名',
+    name: '文件名 (不含扩展名)',
+    original: '原文字',
+    replacement: '替换文字',
+    note: '补充指令',
+    language: '目标文字语言'
+  }
+};
+
+export default messages;
@@ -0,0 +1,384 @@
+// Source catalogue: every other locale has to provide the same keys.
+// Values with parameters are functions; the caller formats numbers and sizes.
+
+const messages = {
+  common: {
+    close: '關閉',
+    cancel: '取消',
+    delete: '刪除',
+    apply: '套用',
+    save: '儲存',
+    import: '匯入',
+    export: '匯出',
+    importFailed: (reason: string) => `匯入失敗：${reason}`,
+    zipFailed: '打包失敗，請稍後再試',
+    listSeparator: '、'
+  },
+  app: {
+    title: 'Puti-AI 圖片批次修正繁中字',
+    subtitle: '高清繁體中文文字修復',
+    clearAll: '全部清除',
+    interfaceLanguage: '介面語言',
+    autoLanguage: (name: string) => `自動 (${name})`
+  },
+  welcome: {
+    title: '歡迎使用 Puti-AI 4K 批次修復工具',
+    body: '為了使用 Gemini 3 Pro (Nano Banana Pro) 生成高品質 4K 圖片，您需要連接付費 API 金鑰。',
+    connectKey: '連接 API 金鑰',
+    notInAiStudio: '目前不在 AI Studio 中執行，無法選擇金鑰。請改以 PUTI_KEY_MODE=proxy (建議) 或 direct 重新建置。',
+    noBuildKey: '建置時未設定 GEMINI_API_KEY。請在 .env.local 設定後重新建置，或改用 PUTI_KEY_MODE=proxy。',
+    useMock: '使用本機模擬模式 (離線開發)',
+    billingDocs: '計費說明文件'
+  },
+  settings: {
+    title: '全域設定',
+    globalPrompt: '通用提示詞 (建議保留英文以維持品質)',
+    globalPromptPlaceholder: '套用到所有圖片的指令...',
+    targetLanguage: '目標文字語言',
+    targetLanguageHint: '決定提示詞中的 {{language}}、替換文字的字形要求與 OCR 驗證標準。',
+    provider: '生成服務',
+    mockFailure: '模擬錯誤情境',
+    proxyToken: '代理伺服器存取權杖',
+    proxyTokenPlaceholder: '伺服器未設定權杖時可留空',
+    variants: '每張產生版本數',
+    imageSize: '生成解析度',
+    aspectMode: '長寬比處理',
+    verification: '文字驗證 (OCR)',
+    verificationEnabled: '生成後辨識文字並比對替換內容',
+    threshold: '合格門檻',
+    autoRegenerate: (max: number) => `低於門檻時自動重新生成 (最多 ${max} 次)`,
+    concurrency: '同時處理數量'
+  },
+  run: {
+    processing: (running: number, waiting: number) => `處理佇列中... (${running} 進行中 / ${waiting} 等待)`,
+    start: '開始批次處理',
+    addToBatch: (count: number) => `點擊可將 ${count} 張新圖片加入本批次`,
+    estimate: (calls: number, cost: string) => `預估 ${calls} 次呼叫 · 約 ${cost}`,
+    overCap: ' (可能超過花費上限)',
+    resume: '繼續',
+    pause: '暫停',
+    stop: '停止',
+    pausedNote: '已暫停派送，進行中的請求完成後將不再開始新的項目'
+  },
+  tips: {
+    title: 'Puti-AI 專業提示：',
+    aspect: '系統會自動偵測並維持原圖長寬比。',
+    // Before, emphasised and after
+    size: ['建議以 ', '4K 解析度', '生成，確保文字正確顯示；也可先以 1K 快速打樣，滿意後再以 4K 定稿。'],
+    time: '每張圖片生成約需 10-20 秒。',
+    saved: '佇列與結果會自動儲存在瀏覽器中，重新整理後仍可繼續。'
+  },
+  upload: {
+    drop: '將圖片拖放到此處，或點擊上傳',
+    hint: '支援批次上傳與整個資料夾。PDF 會逐頁轉為圖片，HEIC 與過大的圖片會自動轉檔縮小。',
+    chooseFolder: '選擇資料夾',
+    importing: (done: number, total: number) => `匯入中 (${done} / ${total})`,
+    rejected: (count: number) => `${count} 個檔案未匯入或未完整匯入`,
+    rejection: (name: string, reason: string) => `${name}：${reason}`
+  },
+  importProblems: {
+    decode_failed: '無法解碼圖片，檔案可能已損毀',
+    too_large: (limit: string) => `壓縮後仍超過 ${limit}`,
+    heic_failed: '無法轉換 HEIC 檔案，請先轉為 JPEG 再匯入',
+    pdf_locked: 'PDF 受密碼保護',
+    pdf_failed: '無法開啟 PDF，檔案可能已損毀',
+    pdf_truncated: (pages: number, limit: number) => `共 ${pages} 頁，只匯入前 ${limit} 頁`,
+    empty: '檔案是空的',
+    unsupported: (format: string) => `不支援的檔案格式 (${format})`,
+    unknownFormat: '未知',
+    unexpected: '匯入時發生未預期的錯誤'
+  },
+  importNotes: {
+    pdf_page: (page: number) => `PDF 第 ${page} 頁`,
+    heic: '已由 HEIC 轉為 JPEG',
+    downscaled: (from: string, to: string) => `已縮小 ${from} → ${to}`,
+    converted: (format: string) => `已轉為 ${format}`,
+    recompressed: (from: string, to: string) => `已重新壓縮 ${from} → ${to}`,
+    separator: '，'
+  },
+  queue: {
+    empty: '工作佇列目前是空的',
+    noMatch: '沒有符合條件的項目',
+    dragDisabled: '處理中的項目無法移動',
+    dragHint: '拖曳以調整處理順序',
+    retrying: (count: number) => `重試中 (第 ${count} 次)`,
+    processing: (size: string) => `處理中 (${size})`,
+    success: '完成',
+    error: '錯誤',
+    paused: '已暫停',
+    queued: '已排隊',
+    idle: '待處理',
+    pauseItem: '暫停此項目',
+    resumeItem: '繼續此項目',
+    cancelItem: '取消此項目',
+    source: '原始圖片',
+    maskHint: '只重新生成框選的文字區域，其餘像素保持不變',
+    editMask: (count: number) => `編輯遮罩 (${count})`,
+    addMask: '框選編輯區域',
+    prompt: '提示詞',
+    globalPrompt: '通用提示詞',
+    replacements: '文字替換',
+    note: '補充指令 (選填)',
+    notePlaceholder: '其他針對此圖片的說明 (例如：保留右下角的標誌)...',
+    variants: '版本數',
+    imageSize: '解析度',
+    aspectMode: '長寬比',
+    useDefault: (value: string) => `預設 (${value})`,
+    previewPrompt: '預覽完整提示詞',
+    failedReason: '失敗原因：',
+    lastAttemptFailed: '上次嘗試失敗：',
+    errorDetails: '查看完整錯誤資訊',
+    errorType: '類型：',
+    result: 'Puti-AI 處理結果',
+    attempt: (number: number) => `版本 ${number}`,
+    attemptScore: (score: number) => `文字 ${score}%`,
+    download: (size: string, format: string) => `下載 ${size} 圖檔 (${format})`,
+    finalize: (size: string) => `以 ${size} 定稿`,
+    finalizeHint: '沿用此版本的提示詞與長寬比設定，以完整解析度重新生成',
+    compare: (count: number) => `比較 (${count})`,
+    review: '檢視',
+    reviewHint: '前後對照、縮放與差異檢視',
+    regenerate: '重新生成',
+    regenerateHint: '以目前的提示詞重新生成，保留既有版本',
+    waiting: '等待處理中...',
+    confirmRemove: (count: number) => `確定要移除 ${count} 個項目嗎？`,
+    noSelectedResults: '選取的項目中沒有已完成的結果',
+    encodeFailed: '轉檔失敗，請稍後再試'
+  },
+  toolbar: {
+    search: '搜尋檔名',
+    listView: '清單檢視',
+    gridView: '縮圖檢視',
+    selectVisible: '全選顯示中的項目',
+    selected: (count: number) => `已選取 ${count} 項`,
+    retry: '重新處理',
+    retryHint: '重新處理選取的項目 (處理中的項目除外)',
+    moveToFront: '優先處理',
+    moveToFrontHint: '移到佇列最前面，優先處理',
+    reset: '重設為待處理',
+    resetHint: '清除錯誤並改回待處理 (處理中或已排隊的項目除外)',
+    download: '下載',
+    downloadHint: '打包下載選取項目中已完成的結果',
+    remove: '移除',
+    removeHint: '移除選取的項目 (處理中的項目除外)',
+    applyPrompt: '套用提示詞',
+    notePlaceholder: '額外指示 (留空則保留各項目原有內容)',
+    applyTo: (count: number) => `套用至 ${count} 項`
+  },
+  errorCodes: {
+    auth: 'API 金鑰無效或已失效',
+    rate_limit: '請求過於頻繁，請稍候',
+    safety: '觸發安全限制',
+    no_image: '模型未回傳圖片',
+    invalid_input: '圖片過大或格式不支援',
+    network: '網路連線或服務逾時',
+    unknown: '生成失敗'
+  },
+  verification: {
+    unverified: '文字未驗證',
+    score: (score: number) => `文字 ${score}%`,
+    allFound: '所有替換文字皆已辨識',
+    // Characters written in the other Chinese script, by target
+    wrongScript: {
+      'zh-Hant': '簡體字',
+      'zh-Hans': '繁體字',
+      ja: '字形不符',
+      en: '字形不符'
+    },
+    issue: (label: string, detail: string) => `${label}：${detail}`,
+    missing: '缺漏字',
+    details: '文字驗證結果',
+    checkedAs: (language: string) => `比對語言：${language}`,
+    failed: (reason: string) => `辨識失敗：${reason}`,
+    nothingRecognized: '(未辨識到文字)'
+  },
+  compare: {
+    title: (name: string) => `比較版本：${name}`,
+    source: '原始圖片',
+    prompt: '提示詞',
+    chosen: '已選用',
+    choose: '選用此版本',
+    deleteHint: '刪除此版本'
+  },
+  cost: {
+    title: '用量與費用',
+    calls: (calls: number, failed: number, retries: number) => `API 呼叫：${calls} 次 (失敗 ${failed}、重試 ${retries})`,
+    tokens: (input: string, output: string) => `Tokens：輸入 ${input} · 輸出 ${output}`,
+    time: (time: string, bytes: string) => `累計耗時：${time} · 輸出 ${bytes}`,
+    estimated: '預估費用：',
+    spendCap: '花費上限 (US$，達到時暫停佇列)',
+    noLimit: '不限制',
+    capReached: '已達花費上限，佇列已暫停。提高上限後按「繼續」即可恢復。',
+    priceTable: '價格表 (US$ / 每百萬 tokens)',
+    input: '輸入',
+    output: '輸出',
+    resetPrices: '恢復預設價格',
+    seconds: (seconds: string) => `${seconds} 秒`,
+    lineCalls: (calls: number) => `${calls} 次呼叫`,
+    lineRetries: (retries: number) => `重試 ${retries} 次`
+  },
+  export: {
+    title: '批次匯出',
+    filenameTemplate: '檔名範本',
+    format: '輸出格式',
+    quality: '品質',
+    maxDimension: '最大邊長',
+    originalSize: '原始尺寸',
+    keepMetadata: '保留中繼資料 (EXIF、XMP、來源標記)',
+    metadataLost: '生成結果為 PNG，轉存為其他格式時無法保留中繼資料。',
+    downloadAll: (count: number) => `下載全部結果 (ZIP, ${count} 張)`,
+    zipNote: 'ZIP 內附 manifest.json，記錄每張圖的來源檔名、提示詞、模型、解析度與長寬比。'
+  },
+  manifest: {
+    title: '批次清單 (CSV / JSON)',
+    import: '匯入清單',
+    readFailed: '無法讀取清單檔案',
+    active: (name: string) => `使用中：${name}`,
+    disable: '停用清單',
+    applied: (count: number) => `已套用 ${count} 個檔案`,
+    unmatchedRows: '找不到對應檔案的列',
+    duplicateRows: '重複的列 (已忽略)',
+    filesWithoutRow: '清單中沒有的檔案',
+    appliesToNew: '之後加入的圖片也會自動套用此清單。',
+    row: (line: number, file: string) => `第 ${line} 列：${file}`,
+    more: (count: number) => `⋯ 另有 ${count} 項`
+  },
+  manifestProblems: {
+    empty_csv: 'CSV 檔案是空的',
+    missing_file_column: 'CSV 缺少必要的 "file" 欄位',
+    invalid_json: 'JSON 格式錯誤',
+    not_array: 'JSON 清單必須是陣列',
+    missing_file: (line: number) => `第 ${line} 列缺少檔名`
+  },
+  presets: {
+    title: '提示詞預設集',
+    deleteHint: '刪除此預設集',
+    namePlaceholder: '預設集名稱',
+    saveHint: '將目前的通用提示詞存為預設集',
+    readFailed: '無法讀取預設集檔案',
+    variables: '可用變數：'
+  },
+  presetProblems: {
+    invalid_json: 'JSON 格式錯誤',
+    missing_list: '找不到 presets 陣列',
+    missing_fields: (index: number) => `第 ${index} 筆缺少名稱或內容`
+  },
+  // Names the built-in presets get on first run, by preset id
+  builtinPresets: {
+    'poster-text-swap': '海報文字替換',
+    'menu-translation': '菜單翻譯',
+    'sign-cleanup': '招牌清理',
+    'simplified-to-traditional': '簡體轉繁體'
+  } as Record<string, string>,
+  replacements: {
+    original: '原文字',
+    replacement: '替換為',
+    hints: '字型、顏色與位置提示',
+    font: '字型 (例：粗黑體)',
+    color: '顏色 (例：金色)',
+    position: '位置 (例：上方標題)',
+    add: '新增文字替換'
+  },
+  review: {
+    previous: '上一張 (←)',
+    next: '下一張 (→)',
+    toggleMode: '切換滑桿 / 並排 (S)',
+    sideBySide: '並排',
+    slider: '滑桿',
+    diffHint: '差異熱圖 (D)',
+    diff: '差異',
+    zoomOut: '縮小 (-)',
+    actualSize: '原始像素 1:1 (1)',
+    zoomIn: '放大 (+)',
+    fit: '符合視窗 (0)',
+    close: '關閉 (Esc)',
+    source: '原始',
+    result: '結果',
+    shortcuts: '← → 切換圖片 · 滾輪 / + - 縮放 · 拖曳平移 · 0 符合視窗 · 1 原始像素 · S 滑桿/並排 · D 差異熱圖 · Esc 關閉'
+  },
+  storage: {
+    title: '本機儲存空間',
+    queueData: (size: string, count: number) => `佇列資料：${size}（${count} 張）`,
+    browserUsage: (usage: string, quota: string) => `瀏覽器已使用：${usage} / ${quota}`,
+    removeCompleted: (count: number) => `移除已完成項目 (${count})`,
+    hideDetails: '隱藏明細',
+    showDetails: '顯示各項目用量',
+    evict: '從儲存空間移除'
+  },
+  mask: {
+    title: (name: string) => `編輯遮罩：${name}`,
+    rect: '矩形',
+    brush: '筆刷',
+    brushSize: '筆刷大小',
+    undo: '復原',
+    undoHint: '復原 (Ctrl+Z)',
+    clear: '清除',
+    save: '儲存遮罩',
+    hint: '框選要替換文字的區域。只有遮罩範圍 (含周邊少許背景) 會送出生成，結果以柔邊貼回原圖，遮罩外的像素與原圖完全相同。'
+  },
+  footer: {
+    author: '👨‍🏫 作者為 Puti-AI黃朝榮老師',
+    copyright: '©️ 請尊重著作權，延伸改做請徵詢同意，發布時標註原作者。',
+    nonCommercial: '🚫 不得商用。',
+    more: '🔗 請點我看更多: ',
+    library: 'Puti-AI教學工具庫'
+  },
+  statusFilters: {
+    all: '全部',
+    idle: '待處理',
+    processing: '處理中',
+    success: '完成',
+    error: '錯誤'
+  },
+  targetLanguages: {
+    'zh-Hant': '繁體中文',
+    'zh-Hans': '簡體中文',
+    ja: '日文',
+    en: '英文'
+  },
+  providers: {
+    gemini: 'Gemini 3 Pro Image',
+    mock: '本機模擬 (不耗費額度)'
+  },
+  mockFailures: {
+    none: '全部成功',
+    flaky: '間歇 429 (每隔一次)',
+    rate_limit: '一律 429',
+    safety: '安全限制',
+    timeout: '逾時',
+    empty: '未回傳圖片'
+  },
+  imageSizes: {
+    '1K': '1K (草稿，最快)',
+    '2K': '2K',
+    '4K': '4K (文字最清晰)'
+  },
+  aspectModes: {
+    nearest: '最接近比例 (由模型重新構圖)',
+    pad: '補邊至比例，完成後裁回原尺寸',
+    crop: '置中裁切至比例，完成後貼回原圖'
+  },
+  exportFormats: {
+    png: 'PNG (無損)',
+    jpeg: 'JPEG',
+    webp: 'WebP'
+  },
+  filenameTokens: {
+    name: '原始檔名',
+    index: '佇列序號',
+    date: '日期',
+    ratio: '長寬比'
+  },
+  promptVariables: {
+    file: '檔名',
+    name: '檔名 (不含副檔名)',
+    original: '原文字',
+    replacement: '替換文字',
+    note: '補充指令',
+    language: '目標文字語言'
+  }
+};
+
+export type Messages = typeof messages;
+
+export default messages;
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getClientIp } from './clientIp.ts';
+
+describe('getClientIp', () => {
+  it('uses the socket address unless proxies are trusted', () => {
+    expect(getClientIp('203.0.113.9', '10.0.0.2', 0)).toBe('10.0.0.2');
+    expect(getClientIp(undefined, '10.0.0.2', 1)).toBe('10.0.0.2');
+    expect(getClientIp(undefined, undefined, 0)).toBe('unknown');
+  });
+
+  it('takes the address the trusted proxy saw, not what the client claimed', () => {
+    // The client sent "X-Forwarded-For: 1.2.3.4"; the proxy appended the real address
+    expect(getClientIp('1.2.3.4, 203.0.113.9', '10.0.0.2', 1)).toBe('203.0.113.9');
+    expect(getClientIp('1.2.3.4, 203.0.113.9, 10.0.0.1', '10.0.0.2', 2)).toBe('203.0.113.9');
+  });
+
+  it('reads repeated headers as one list', () => {
+    expect(getClientIp(['1.2.3.4', '203.0.113.9'], '10.0.0.2', 1)).toBe('203.0.113.9');
+  });
+
+  it('uses the first entry when there are fewer than the trusted proxies', () => {
+    expect(getClientIp('203.0.113.9', '10.0.0.2', 2)).toBe('203.0.113.9');
+  });
+});
@@ -0,0 +1,18 @@
+// Client address for per-IP limits. Every proxy appends the address it received
+// the request from to X-Forwarded-For, so only the last `trustedProxies` entries
+// were written by proxies we control; anything before them came from the client.
+
+export const getClientIp = (
+  forwardedFor: string | string[] | undefined,
+  remoteAddress: string | undefined,
+  trustedProxies: number
+): string => {
+  const header = Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor;
+  if (trustedProxies > 0 && header) {
+    const hops = header.split(',').map(hop => hop.trim()).filter(Boolean);
+    // Fewer entries than proxies: the first one was still added by a proxy we trust
+    const hop = hops[Math.max(0, hops.length - trustedProxies)];
+    if (hop) return hop;
+  }
+  return remoteAddress ?? 'unknown';
+};
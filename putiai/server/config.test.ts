@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { loadConfig } from './config.ts';
+
+const env = (values: Record<string, string>) => ({ GEMINI_API_KEY: 'server-key', ...values });
+
+describe('loadConfig', () => {
+  it('maps each access token to its user', () => {
+    const { users } = loadConfig(env({ PROXY_TOKENS: ' alice:s3cret , bob:t0k:en ' }));
+    expect(Array.from(users)).toEqual([['s3cret', 'alice'], ['t0k:en', 'bob']]);
+  });
+
+  it('rejects malformed token entries without echoing the token', () => {
+    expect(() => loadConfig(env({ PROXY_TOKENS: 'alice:s3cret,bob' }))).toThrow('Invalid PROXY_TOKENS entry: bob');
+    expect(() => loadConfig(env({ PROXY_TOKENS: ':s3cret' }))).toThrow(/^Invalid PROXY_TOKENS entry: $/);
+    expect(() => loadConfig(env({ PROXY_TOKENS: 'carol:' }))).toThrow('Invalid PROXY_TOKENS entry: carol');
+  });
+
+  it('refuses to start without an API key', () => {
+    expect(() => loadConfig({ PROXY_TOKENS: 'alice:s3cret' })).toThrow('GEMINI_API_KEY is not set');
+  });
+
+  it('refuses open access unless asked for', () => {
+    expect(() => loadConfig(env({}))).toThrow(/ALLOW_OPEN_ACCESS/);
+    expect(() => loadConfig(env({ PROXY_TOKENS: ' , ', ALLOW_OPEN_ACCESS: 'yes' }))).toThrow(/ALLOW_OPEN_ACCESS/);
+    expect(loadConfig(env({ ALLOW_OPEN_ACCESS: '1' })).users.size).toBe(0);
+    expect(loadConfig(env({ ALLOW_OPEN_ACCESS: 'true' })).users.size).toBe(0);
+  });
+
+  it('counts trusted reverse proxies', () => {
+    expect(loadConfig(env({ ALLOW_OPEN_ACCESS: '1' })).trustedProxies).toBe(0);
+    expect(loadConfig(env({ ALLOW_OPEN_ACCESS: '1', TRUST_PROXY: 'true' })).trustedProxies).toBe(1);
+    expect(loadConfig(env({ ALLOW_OPEN_ACCESS: '1', TRUST_PROXY: '2' })).trustedProxies).toBe(2);
+    expect(loadConfig(env({ ALLOW_OPEN_ACCESS: '1', TRUST_PROXY: 'yes' })).trustedProxies).toBe(0);
+  });
+
+  it('falls back to defaults for missing or invalid numbers', () => {
+    const config = loadConfig(env({ ALLOW_OPEN_ACCESS: '1', PORT: 'abc', RATE_LIMIT_PER_MINUTE: '-5', MAX_BODY_MB: '10' }));
+    expect(config).toMatchObject({ port: 8787, rateLimitPerMinute: 20, maxBodyBytes: 10 * 1024 * 1024 });
+  });
+});
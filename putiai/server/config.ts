@@ -0,0 +1,74 @@
+// Proxy server settings, read once from the environment at startup.
+
+export interface ServerConfig {
+  port: number;
+  apiKey: string;
+  // Access token -> user name. Empty only with ALLOW_OPEN_ACCESS, users then told apart by IP.
+  users: Map<string, string>;
+  // Generate requests allowed per user per minute
+  rateLimitPerMinute: number;
+  maxBodyBytes: number;
+  // Only these models may be called through the proxy
+  allowedModels: string[];
+  // Built frontend served next to the API; empty disables static serving
+  staticDir: string;
+  // Reverse proxies in front of this server; the client address is read from X-Forwarded-For that many hops back
+  trustedProxies: number;
+  // Cross-origin access, for a frontend hosted elsewhere
+  allowedOrigin: string;
+  upstreamUrl: string;
+}
+
+// Must match GEMINI_MODEL and GEMINI_OCR_MODEL in services/providers/gemini.ts
+const DEFAULT_MODELS = ['gemini-3-pro-image-preview', 'gemini-2.5-flash'];
+
+const list = (value: string | undefined) => (value ?? '').split(',').map(part => part.trim()).filter(Boolean);
+
+const number = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// PROXY_TOKENS="alice:token1,bob:token2"
+const parseUsers = (value: string | undefined): Map<string, string> => {
+  const users = new Map<string, string>();
+  list(value).forEach(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0 || separator === entry.length - 1) throw new Error(`Invalid PROXY_TOKENS entry: ${entry.split(':')[0]}`);
+    users.set(entry.slice(separator + 1), entry.slice(0, separator));
+  });
+  return users;
+};
+
+const flag = (value: string | undefined) => value === '1' || value === 'true';
+
+// TRUST_PROXY="true" for one reverse proxy, or the number of them
+const parseTrustedProxies = (value: string | undefined) => {
+  if (flag(value)) return 1;
+  const hops = Number(value);
+  return value && Number.isInteger(hops) && hops > 0 ? hops : 0;
+};
+
+export const loadConfig = (env: NodeJS.ProcessEnv): ServerConfig => {
+  const apiKey = env.GEMINI_API_KEY ?? '';
+  if (!apiKey) throw new Error('GEMINI_API_KEY is not set');
+
+  // Without tokens anyone who can reach the server spends the key, so that has to be asked for
+  const users = parseUsers(env.PROXY_TOKENS);
+  if (users.size === 0 && !flag(env.ALLOW_OPEN_ACCESS)) {
+    throw new Error('PROXY_TOKENS is not set; set ALLOW_OPEN_ACCESS=1 to let anyone use the proxy, limited per IP');
+  }
+
+  return {
+    port: number(env.PORT, 8787),
+    apiKey,
+    users,
+    rateLimitPerMinute: number(env.RATE_LIMIT_PER_MINUTE, 20),
+    maxBodyBytes: number(env.MAX_BODY_MB, 25) * 1024 * 1024,
+    allowedModels: list(env.ALLOWED_MODELS).length ? list(env.ALLOWED_MODELS) : DEFAULT_MODELS,
+    staticDir: env.STATIC_DIR ?? 'dist',
+    trustedProxies: parseTrustedProxies(env.TRUST_PROXY),
+    allowedOrigin: env.ALLOWED_ORIGIN ?? '',
+    upstreamUrl: env.UPSTREAM_URL ?? 'https://generativelanguage.googleapis.com'
+  };
+};
@@ -0,0 +1,210 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+import { loadConfig } from './config.ts';
+import { createRateLimiter, describeRetry } from './rateLimit.ts';
+import { getClientIp } from './clientIp.ts';
+
+// Optional backend for deployments outside AI Studio. It holds the Gemini API
+// key, forwards generateContent calls from the browser, rate-limits each user
+// and logs every request. It also serves the built frontend from STATIC_DIR.
+//
+// The browser talks to it through the regular @google/genai client with its
+// base URL pointed here, so responses and errors keep the upstream format.
+
+const config = loadConfig(process.env);
+const limiter = createRateLimiter(config.rateLimitPerMinute);
+
+const GENERATE_PATH = /^\/v1beta\/models\/([\w.-]+):generateContent$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.wasm': 'application/wasm'
+};
+
+// Rejected before any upstream call. No parameter properties: Node's type stripping can't run them.
+class RequestError extends Error {
+  status: number;
+  apiStatus: string;
+  headers: Record<string, string>;
+  details: object[];
+
+  constructor(status: number, apiStatus: string, message: string, retry?: ReturnType<typeof describeRetry>) {
+    super(message);
+    this.status = status;
+    this.apiStatus = apiStatus;
+    this.headers = retry?.headers ?? {};
+    this.details = retry?.details ?? [];
+  }
+}
+
+// Same shape as Google API errors, so the client classifies them the same way
+const errorBody = (status: number, apiStatus: string, message: string, details: object[] = []) =>
+  JSON.stringify({ error: { code: status, message, status: apiStatus, details } });
+
+const log = (entry: Record<string, unknown>) => {
+  console.log(JSON.stringify({ time: new Date().toISOString(), ...entry }));
+};
+
+// The client sends its access token where the SDK puts the API key
+const identify = (req: IncomingMessage): string => {
+  if (config.users.size === 0) {
+    return `ip:${getClientIp(req.headers['x-forwarded-for'], req.socket.remoteAddress, config.trustedProxies)}`;
+  }
+  const token = req.headers['x-goog-api-key'];
+  const user = typeof token === 'string' ? config.users.get(token) : undefined;
+  if (!user) throw new RequestError(401, 'UNAUTHENTICATED', 'Missing or unknown proxy access token.');
+  return user;
+};
+
+const readBody = (req: IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > config.maxBodyBytes) {
+      reject(new RequestError(413, 'INVALID_ARGUMENT', `Request body exceeds ${config.maxBodyBytes} bytes.`));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const setCors = (res: ServerResponse) => {
+  if (!config.allowedOrigin) return;
+  res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+  res.setHeader('Access-Control-Allow-Headers', 'content-type, x-goog-api-key, x-goog-api-client');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Vary', 'Origin');
+};
+
+const handleGenerate = async (req: IncomingMessage, res: ServerResponse, model: string) => {
+  const startedAt = Date.now();
+  let user = 'anonymous';
+  let status = 500;
+  let requestBytes = 0;
+  let responseBytes = 0;
+
+  try {
+    user = identify(req);
+    if (!config.allowedModels.includes(model)) {
+      throw new RequestError(403, 'PERMISSION_DENIED', `Model ${model} is not available through this proxy.`);
+    }
+    const limit = limiter.take(user);
+    if (!limit.allowed) {
+      throw new RequestError(
+        429,
+        'RESOURCE_EXHAUSTED',
+        `Rate limit of ${config.rateLimitPerMinute} requests per minute exceeded.`,
+        describeRetry(limit.retryAfterMs)
+      );
+    }
+
+    const body = await readBody(req);
+    requestBytes = body.length;
+
+    // Stop the upstream call if the browser goes away (pause / cancel)
+    const controller = new AbortController();
+    res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+
+    const upstream = await fetch(`${config.upstreamUrl}/v1beta/models/${model}:generateContent`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-goog-api-key': config.apiKey },
+      body,
+      signal: controller.signal
+    });
+    const payload = Buffer.from(await upstream.arrayBuffer());
+    status = upstream.status;
+    responseBytes = payload.length;
+    res.writeHead(status, { 'content-type': upstream.headers.get('content-type') ?? 'application/json' });
+    res.end(payload);
+  } catch (err) {
+    if (res.destroyed) {
+      status = 499;
+    } else if (err instanceof RequestError) {
+      status = err.status;
+      res.writeHead(status, { 'content-type': 'application/json', ...err.headers });
+      res.end(errorBody(status, err.apiStatus, err.message, err.details));
+    } else {
+      status = 502;
+      console.error('Upstream request failed:', err);
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(errorBody(status, 'UNAVAILABLE', 'The proxy could not reach the Gemini API.'));
+    }
+  }
+
+  // Never log tokens, keys or prompt content
+  log({ user, model, status, latencyMs: Date.now() - startedAt, requestBytes, responseBytes });
+};
+
+// Built frontend, with index.html for any path that isn't a file
+const serveStatic = async (req: IncomingMessage, res: ServerResponse) => {
+  const root = path.resolve(config.staticDir);
+  const pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+  let file = path.resolve(root, `.${pathname}`);
+  if (!file.startsWith(root + path.sep) && file !== root) {
+    res.writeHead(403).end();
+    return;
+  }
+
+  const info = await stat(file).catch(() => undefined);
+  if (!info?.isFile()) file = path.join(root, 'index.html');
+  const index = await stat(file).catch(() => undefined);
+  if (!index?.isFile()) {
+    res.writeHead(404, { 'content-type': 'text/plain' }).end('Not found');
+    return;
+  }
+  res.writeHead(200, { 'content-type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+  createReadStream(file).pipe(res);
+};
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  setCors(res);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (url.pathname === '/healthz') {
+    res.writeHead(200, { 'content-type': 'text/plain' }).end('ok');
+    return;
+  }
+
+  const generate = url.pathname.match(GENERATE_PATH);
+  if (generate && req.method === 'POST') {
+    handleGenerate(req, res, generate[1]);
+    return;
+  }
+  if (url.pathname.startsWith('/v1beta/')) {
+    res.writeHead(404, { 'content-type': 'application/json' });
+    res.end(errorBody(404, 'NOT_FOUND', 'Only generateContent is available through this proxy.'));
+    return;
+  }
+
+  if (config.staticDir && (req.method === 'GET' || req.method === 'HEAD')) {
+    serveStatic(req, res).catch(err => {
+      console.error('Failed to serve file:', err);
+      if (!res.headersSent) res.writeHead(500).end();
+    });
+    return;
+  }
+  res.writeHead(404).end();
+});
+
+server.listen(config.port, () => {
+  const access = config.users.size ? `${config.users.size} token(s)` : 'open access, limited per IP';
+  console.log(`Puti-AI proxy listening on :${config.port} (${access}, ${config.rateLimitPerMinute} req/min per user)`);
+});
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseRetryAfterMs } from '../services/errors.ts';
+import { createRateLimiter, describeRetry } from './rateLimit.ts';
+
+describe('createRateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows up to the limit, then says when the oldest request expires', () => {
+    const limiter = createRateLimiter(2, 60_000);
+    expect(limiter.take('alice', 0)).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect(limiter.take('alice', 10_000)).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+    expect(limiter.take('alice', 15_000)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 45_000 });
+  });
+
+  it('frees each slot once its request leaves the window', () => {
+    const limiter = createRateLimiter(2, 60_000);
+    limiter.take('alice', 0);
+    limiter.take('alice', 10_000);
+    expect(limiter.take('alice', 59_999).allowed).toBe(false);
+    expect(limiter.take('alice', 60_000)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(limiter.take('alice', 65_000)).toMatchObject({ allowed: false, retryAfterMs: 5_000 });
+    expect(limiter.take('alice', 120_000)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('does not count rejected requests against the window', () => {
+    const limiter = createRateLimiter(1, 60_000);
+    limiter.take('alice', 0);
+    limiter.take('alice', 30_000);
+    expect(limiter.take('alice', 60_000).allowed).toBe(true);
+  });
+
+  it('keeps a separate window per user', () => {
+    const limiter = createRateLimiter(1, 60_000);
+    expect(limiter.take('alice', 0).allowed).toBe(true);
+    expect(limiter.take('alice', 1).allowed).toBe(false);
+    expect(limiter.take('bob', 1).allowed).toBe(true);
+  });
+
+  it('forgets idle users without resetting active ones', () => {
+    vi.useFakeTimers({ now: 0 });
+    const limiter = createRateLimiter(1, 60_000);
+    limiter.take('alice');
+    vi.advanceTimersByTime(120_000);
+    expect(limiter.take('alice').allowed).toBe(true);
+    expect(limiter.take('alice').allowed).toBe(false);
+  });
+});
+
+describe('describeRetry', () => {
+  it('rounds up to whole seconds in both the header and the RetryInfo detail', () => {
+    expect(describeRetry(45_001)).toEqual({
+      headers: { 'Retry-After': '46' },
+      details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '46s' }]
+    });
+  });
+
+  it('never asks for less than a second', () => {
+    expect(describeRetry(0).headers['Retry-After']).toBe('1');
+  });
+
+  it('gives a retryDelay the client backoff reads back', () => {
+    const body = JSON.stringify({ error: { code: 429, status: 'RESOURCE_EXHAUSTED', details: describeRetry(12_500).details } });
+    expect(parseRetryAfterMs(body)).toBe(13_000);
+  });
+});
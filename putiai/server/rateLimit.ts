@@ -0,0 +1,49 @@
+// Sliding-window rate limiter keyed by user. In memory, so limits reset when
+// the server restarts and are not shared between instances.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Until the oldest request in the window expires; 0 when allowed
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take: (user: string, now?: number) => RateLimitResult;
+}
+
+export const createRateLimiter = (limit: number, windowMs = 60_000): RateLimiter => {
+  const requests = new Map<string, number[]>();
+
+  // Drop users with no recent requests so the map doesn't grow without bound
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - windowMs;
+    requests.forEach((times, user) => {
+      if (times[times.length - 1] <= cutoff) requests.delete(user);
+    });
+  }, windowMs);
+  sweep.unref();
+
+  return {
+    take: (user, now = Date.now()) => {
+      const times = (requests.get(user) ?? []).filter(time => time > now - windowMs);
+      if (times.length >= limit) {
+        requests.set(user, times);
+        return { allowed: false, remaining: 0, retryAfterMs: times[0] + windowMs - now };
+      }
+      times.push(now);
+      requests.set(user, times);
+      return { allowed: true, remaining: limit - times.length, retryAfterMs: 0 };
+    }
+  };
+};
+
+// How long a rejected caller should wait, in the Retry-After header and as the
+// RetryInfo detail Google APIs attach to a 429, which the client's backoff reads
+export const describeRetry = (retryAfterMs: number) => {
+  const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  return {
+    headers: { 'Retry-After': String(seconds) },
+    details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: `${seconds}s` }]
+  };
+};
@@ -0,0 +1,25 @@
+import { QueueItem, ResultAttempt, GenerationInfo, TextVerification } from '../types';
+
+export const createAttempt = (blob: Blob, generation: GenerationInfo, verification?: TextVerification): ResultAttempt => ({
+  id: Math.random().toString(36).substr(2, 9),
+  blob,
+  url: URL.createObjectURL(blob),
+  generation,
+  verification
+});
+
+// The result picked for download and export; the latest attempt if none was picked
+export const getChosenAttempt = (item: QueueItem): ResultAttempt | undefined => {
+  const attempts = item.attempts ?? [];
+  return attempts.find(attempt => attempt.id === item.chosenAttemptId) ?? attempts[attempts.length - 1];
+};
+
+export const hasResult = (item: QueueItem): boolean => !!getChosenAttempt(item);
+
+// Best-verified attempt among a run's results; the earliest wins ties and unverified runs
+export const pickBestAttempt = (attempts: ResultAttempt[]): ResultAttempt | undefined =>
+  attempts.reduce<ResultAttempt | undefined>((best, attempt) => {
+    const score = attempt.verification && !attempt.verification.error ? attempt.verification.score : -1;
+    const bestScore = best?.verification && !best.verification.error ? best.verification.score : -1;
+    return !best || score > bestScore ? attempt : best;
+  }, undefined);
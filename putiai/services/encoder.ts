@@ -0,0 +1,63 @@
+import { canvasToBlob } from '../utils/image';
+import { copyMetadata } from '../utils/metadata';
+
+// Client-side re-encoding of results for download and export.
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export const EXPORT_FORMATS: { id: ExportFormat; lossy: boolean }[] = [
+  { id: 'png', lossy: false },
+  { id: 'jpeg', lossy: true },
+  { id: 'webp', lossy: true }
+];
+
+export const MAX_DIMENSION_OPTIONS = [1024, 2048, 3072, 4096];
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // 0–1, used by JPEG and WebP only
+  quality: number;
+  // Long edge in pixels; larger results are scaled down
+  maxDimension: number | null;
+  keepMetadata: boolean;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+  quality: 0.92,
+  maxDimension: null,
+  keepMetadata: true
+};
+
+const getExportMimeType = (settings: ExportSettings) => `image/${settings.format}`;
+
+// Metadata survives only when the format is unchanged (and is PNG or JPEG)
+export const encodeResult = async (blob: Blob, settings: ExportSettings): Promise<Blob> => {
+  const type = getExportMimeType(settings);
+  const bitmap = await createImageBitmap(blob);
+  const longEdge = Math.max(bitmap.width, bitmap.height);
+  const scale = settings.maxDimension && longEdge > settings.maxDimension ? settings.maxDimension / longEdge : 1;
+
+  // Untouched bytes keep every bit of metadata
+  if (scale === 1 && blob.type === type && settings.keepMetadata) {
+    bitmap.close();
+    return blob;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  // JPEG has no alpha; transparent areas would otherwise turn black
+  if (settings.format === 'jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const lossy = EXPORT_FORMATS.find(format => format.id === settings.format)?.lossy;
+  const encoded = await canvasToBlob(canvas, type, lossy ? settings.quality : undefined);
+  return settings.keepMetadata ? copyMetadata(blob, encoded) : encoded;
+};
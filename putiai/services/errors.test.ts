@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ProviderError, getRetryAfterMs, parseRetryAfterMs, shouldRetry, toItemError, toProviderError } from './errors';
+
+// Shaped like the SDK's ApiError: an HTTP status plus the JSON error body in the message
+const apiError = (status: number, body: object) =>
+  Object.assign(new Error(`got status: ${status}. ${JSON.stringify(body)}`), { status });
+
+describe('toProviderError', () => {
+  it('passes provider errors through', () => {
+    const error = new ProviderError('safety', 'Blocked');
+    expect(toProviderError(error)).toBe(error);
+  });
+
+  it.each([
+    [401, 'auth'],
+    [403, 'auth'],
+    [404, 'auth'],
+    [408, 'network'],
+    [413, 'invalid_input'],
+    [429, 'rate_limit'],
+    [500, 'network'],
+    [503, 'network'],
+    [400, 'unknown'],
+    [418, 'unknown']
+  ])('maps HTTP %i to %s', (status, code) => {
+    expect(toProviderError(apiError(status, {})).code).toBe(code);
+  });
+
+  it('treats failed fetches and timeouts as network errors', () => {
+    expect(toProviderError(new TypeError('Failed to fetch')).code).toBe('network');
+    expect(toProviderError(Object.assign(new Error('timed out'), { name: 'TimeoutError' })).code).toBe('network');
+  });
+
+  it('classifies anything else as unknown', () => {
+    expect(toProviderError('boom')).toMatchObject({ code: 'unknown', message: 'boom' });
+    expect(toProviderError(new Error('boom')).code).toBe('unknown');
+    expect(toProviderError(null)).toMatchObject({ code: 'unknown', message: 'null' });
+  });
+
+  it('reads the status and message of thrown plain objects', () => {
+    expect(toProviderError({ status: 503, message: 'Unavailable' })).toMatchObject({ code: 'network', status: 503, message: 'Unavailable' });
+    expect(toProviderError({ status: '503' }).status).toBeUndefined();
+  });
+
+  it('reads the retry delay of a 429 only', () => {
+    const body = { error: { details: [{ retryDelay: '34s' }] } };
+    expect(toProviderError(apiError(429, body)).retryAfterMs).toBe(34000);
+    expect(toProviderError(apiError(503, body)).retryAfterMs).toBeUndefined();
+  });
+});
+
+describe('parseRetryAfterMs', () => {
+  it('reads RetryInfo delays and Retry-After headers', () => {
+    expect(parseRetryAfterMs('{"retryDelay": "1.5s"}')).toBe(1500);
+    expect(parseRetryAfterMs('Retry-After: 7')).toBe(7000);
+    expect(parseRetryAfterMs('Too many requests')).toBeUndefined();
+  });
+});
+
+describe('shouldRetry', () => {
+  it('follows the per-code retry limits', () => {
+    const rateLimit = apiError(429, {});
+    expect(shouldRetry(rateLimit, 1)).toBe(true);
+    expect(shouldRetry(rateLimit, 5)).toBe(true);
+    expect(shouldRetry(rateLimit, 6)).toBe(false);
+
+    const noImage = new ProviderError('no_image', 'No image');
+    expect(shouldRetry(noImage, 1)).toBe(true);
+    expect(shouldRetry(noImage, 2)).toBe(false);
+  });
+
+  it('never retries auth, safety or bad input', () => {
+    expect(shouldRetry(apiError(401, {}), 1)).toBe(false);
+    expect(shouldRetry(new ProviderError('safety', 'Blocked'), 1)).toBe(false);
+    expect(shouldRetry(new ProviderError('invalid_input', 'Too big'), 1)).toBe(false);
+  });
+
+  it('exposes the server delay to the runner', () => {
+    expect(getRetryAfterMs(apiError(429, { retryDelay: '2s' }))).toBe(2000);
+  });
+});
+
+describe('toItemError', () => {
+  it('keeps the code, status and the full error chain', () => {
+    const cause = new Error('socket hang up');
+    const error = toItemError(new ProviderError('network', 'Request failed', { status: 503, cause }));
+    expect(error).toMatchObject({ code: 'network', status: 503 });
+    expect(JSON.parse(error.raw).cause.message).toBe('socket hang up');
+  });
+});
@@ -0,0 +1,130 @@
+import { ErrorCode, ItemError } from '../types';
+
+// Typed error model for image generation.
+// Providers throw ProviderError; anything else is classified on the way out so
+// the queue never has to inspect error messages itself.
+
+export interface ErrorPolicy {
+  retryable: boolean;
+  maxRetries: number;
+  // Whether the error invalidates every other job in the batch
+  stopsBatch: boolean;
+}
+
+export const ERROR_POLICIES: Record<ErrorCode, ErrorPolicy> = {
+  auth: { retryable: false, maxRetries: 0, stopsBatch: true },
+  rate_limit: { retryable: true, maxRetries: 5, stopsBatch: false },
+  safety: { retryable: false, maxRetries: 0, stopsBatch: false },
+  // The model is nondeterministic, so a second attempt often does return an image
+  no_image: { retryable: true, maxRetries: 1, stopsBatch: false },
+  invalid_input: { retryable: false, maxRetries: 0, stopsBatch: false },
+  network: { retryable: true, maxRetries: 3, stopsBatch: false },
+  unknown: { retryable: false, maxRetries: 0, stopsBatch: false }
+};
+
+// Typed failure returned by an image provider
+export class ProviderError extends Error {
+  code: ErrorCode;
+  status?: number;
+  retryAfterMs?: number;
+  // Safety block reason or finish reason reported by the model
+  blockReason?: string;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    options: { status?: number; retryAfterMs?: number; blockReason?: string; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'ProviderError';
+    this.code = code;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.blockReason = options.blockReason;
+  }
+}
+
+// Reads the server's retry hint, e.g. `"retryDelay": "34s"` in a RetryInfo detail
+export const parseRetryAfterMs = (message: string): number | undefined => {
+  const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (retryDelay) return Math.ceil(parseFloat(retryDelay[1]) * 1000);
+
+  const retryAfter = message.match(/retry[- ]after[:\s]+(\d+)/i);
+  if (retryAfter) return parseInt(retryAfter[1], 10) * 1000;
+
+  return undefined;
+};
+
+// Map an HTTP status to an error code; undefined when the status says nothing useful
+export const codeFromStatus = (status: number): ErrorCode | undefined => {
+  if (status === 401 || status === 403) return 'auth';
+  // AI Studio reports a revoked key as "Requested entity was not found"
+  if (status === 404) return 'auth';
+  if (status === 408 || status === 500 || status === 502 || status === 503 || status === 504) return 'network';
+  if (status === 413 || status === 415) return 'invalid_input';
+  if (status === 429) return 'rate_limit';
+  return undefined;
+};
+
+// A property of something thrown or parsed, without assuming its shape
+export const getField = (value: unknown, key: string): unknown =>
+  typeof value === 'object' && value !== null && key in value ? (value as Record<string, unknown>)[key] : undefined;
+
+// Normalise anything thrown during generation into a ProviderError
+export const toProviderError = (err: unknown): ProviderError => {
+  if (err instanceof ProviderError) return err;
+
+  const rawMessage = getField(err, 'message');
+  const message = typeof rawMessage === 'string' ? rawMessage : String(err);
+  const rawStatus = getField(err, 'status');
+  const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+
+  let code: ErrorCode = status !== undefined ? codeFromStatus(status) ?? 'unknown' : 'unknown';
+  // fetch() rejects with a TypeError when the connection fails
+  if (err instanceof TypeError || getField(err, 'name') === 'TimeoutError') code = 'network';
+
+  return new ProviderError(code, message, {
+    status,
+    retryAfterMs: code === 'rate_limit' ? parseRetryAfterMs(message) : undefined,
+    cause: err
+  });
+};
+
+export const shouldRetry = (err: unknown, attempt: number): boolean => {
+  const policy = ERROR_POLICIES[toProviderError(err).code];
+  return policy.retryable && attempt <= policy.maxRetries;
+};
+
+export const getRetryAfterMs = (err: unknown): number | undefined => toProviderError(err).retryAfterMs;
+
+const describeRaw = (err: unknown): string => {
+  const seen = new Set<unknown>();
+  const collect = (value: unknown): unknown => {
+    if (!(value instanceof Error) || seen.has(value)) return value;
+    seen.add(value);
+    const details: Record<string, unknown> = { name: value.name, message: value.message };
+    Object.entries(value).forEach(([key, field]) => {
+      if (key !== 'cause') details[key] = field;
+    });
+    if (value.cause !== undefined) details.cause = collect(value.cause);
+    if (value.stack) details.stack = value.stack;
+    return details;
+  };
+  try {
+    return JSON.stringify(collect(err), null, 2);
+  } catch {
+    return String(err);
+  }
+};
+
+// Serializable snapshot of a failure for the queue card and storage
+export const toItemError = (err: unknown): ItemError => {
+  const error = toProviderError(err);
+  return {
+    code: error.code,
+    status: error.status,
+    blockReason: error.blockReason,
+    raw: describeRaw(err),
+    at: Date.now()
+  };
+};
@@ -0,0 +1,120 @@
+import { QueueItem } from '../types';
+import { createZip, ZipEntry } from '../utils/zip';
+import { getChosenAttempt } from './attempts';
+import { encodeResult, ExportSettings } from './encoder';
+
+export const DEFAULT_FILENAME_TEMPLATE = 'Puti-AI-{name}';
+
+export type FilenameToken = 'name' | 'index' | 'date' | 'ratio';
+
+// Written as {name}, {index}, ... in a template
+export const FILENAME_TOKENS: FilenameToken[] = ['name', 'index', 'date', 'ratio'];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+export const getExtension = (mimeType: string) => EXTENSIONS[mimeType] ?? 'png';
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatDate = (date: Date) => `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+// Strip characters that are invalid in file names on common platforms
+const sanitize = (name: string) => name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').trim();
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// Build the download name (without extension) for a result from the template
+export const formatFilename = (template: string, item: QueueItem, index: number): string => {
+  const generation = getChosenAttempt(item)?.generation;
+  const date = generation ? new Date(generation.completedAt) : new Date();
+  const name = template
+    .replace(/\{name\}/g, stripExtension(item.file.name))
+    .replace(/\{index\}/g, pad(index + 1, 3))
+    .replace(/\{date\}/g, formatDate(date))
+    .replace(/\{ratio\}/g, (generation?.aspectRatio ?? '').replace(':', 'x'));
+  return sanitize(name) || stripExtension(item.file.name);
+};
+
+// The extension follows the encoded type, which may differ from the requested one
+// when a browser can't encode a format (canvas falls back to PNG)
+export const getResultFilename = (template: string, item: QueueItem, index: number, mimeType = getChosenAttempt(item)?.blob.type ?? ''): string =>
+  `${formatFilename(template, item, index)}.${getExtension(mimeType)}`;
+
+// Folder part of an imported item's relative path, with a trailing slash
+const getFolder = (item: QueueItem) => {
+  const path = item.relativePath ?? '';
+  return path.slice(0, path.lastIndexOf('/') + 1).split('/').map(sanitize).join('/');
+};
+
+export interface ManifestEntry {
+  file: string;
+  source: string;
+  prompt: string;
+  model: string;
+  imageSize: string;
+  format: string;
+  aspectRatio: string;
+  aspectMode: string;
+  completedAt: string;
+}
+
+// Bundle every successful result (or only those in `ids`), encoded per the export
+// settings, plus a manifest.json describing how each was made.
+// Items imported from a folder keep their folder structure inside the ZIP.
+export const buildResultsZip = async (
+  queue: QueueItem[],
+  template: string,
+  settings: ExportSettings,
+  ids?: Set<string>
+): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const manifest: ManifestEntry[] = [];
+  const usedNames = new Set<string>();
+
+  for (const [index, item] of queue.entries()) {
+    const attempt = getChosenAttempt(item);
+    if (item.status !== 'success' || !attempt || (ids && !ids.has(item.id))) continue;
+    const data = await encodeResult(attempt.blob, settings);
+
+    // Templates without {name} or {index} can collide, so suffix duplicates
+    const folder = getFolder(item);
+    let fileName = folder + getResultFilename(template, item, index, data.type);
+    const ext = fileName.slice(fileName.lastIndexOf('.'));
+    for (let n = 2; usedNames.has(fileName); n++) {
+      fileName = `${folder}${formatFilename(template, item, index)}-${n}${ext}`;
+    }
+    usedNames.add(fileName);
+
+    const { generation } = attempt;
+    const completedAt = new Date(generation.completedAt);
+    entries.push({ name: fileName, data, date: completedAt });
+    manifest.push({
+      file: fileName,
+      source: item.relativePath ?? item.file.name,
+      prompt: generation.prompt,
+      model: generation.model,
+      imageSize: generation.imageSize,
+      format: getExtension(data.type),
+      aspectRatio: generation.aspectRatio,
+      aspectMode: generation.aspectMode ?? 'nearest',
+      completedAt: completedAt.toISOString()
+    });
+  }
+
+  entries.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+  return createZip(entries);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
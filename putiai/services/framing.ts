@@ -0,0 +1,124 @@
+import { AspectMode } from '../types';
+import { canvasToBlob, getClosestAspectRatio, loadImage, parseAspectRatio } from '../utils/image';
+
+// Fits a source to a supported aspect ratio before generation, and maps the
+// result back onto the source's exact pixel dimensions afterwards.
+
+export const ASPECT_MODES: AspectMode[] = ['nearest', 'pad', 'crop'];
+
+const PAD_COLOR = '#000000';
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Everything needed to map a result back to the source
+export interface SourceFrame {
+  mode: AspectMode;
+  sourceWidth: number;
+  sourceHeight: number;
+  // Size of the image that was sent
+  sentWidth: number;
+  sentHeight: number;
+  // pad: where the source sits inside the sent image
+  // crop: which part of the source was sent
+  rect: Rect;
+}
+
+export interface PreparedSource {
+  image: Blob;
+  mimeType: string;
+  aspectRatio: string;
+  frame: SourceFrame;
+}
+
+// Re-encode in the source's format where the canvas supports it
+const getOutputType = (type: string) => type === 'image/jpeg' || type === 'image/webp' ? type : 'image/png';
+
+export const prepareSource = async (file: Blob, mode: AspectMode): Promise<PreparedSource> => {
+  const img = await loadImage(file);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const aspectRatio = getClosestAspectRatio(width, height);
+  const target = parseAspectRatio(aspectRatio);
+  const full: Rect = { x: 0, y: 0, width, height };
+
+  if (mode === 'nearest') {
+    return {
+      image: file,
+      mimeType: file.type || 'image/png',
+      aspectRatio,
+      frame: { mode, sourceWidth: width, sourceHeight: height, sentWidth: width, sentHeight: height, rect: full }
+    };
+  }
+
+  const isWider = width / height > target;
+  let sentWidth = width;
+  let sentHeight = height;
+  let rect = full;
+
+  if (mode === 'pad') {
+    // Grow the short side until the canvas has the target ratio, source centred
+    if (isWider) sentHeight = Math.round(width / target);
+    else sentWidth = Math.round(height * target);
+    rect = { x: Math.round((sentWidth - width) / 2), y: Math.round((sentHeight - height) / 2), width, height };
+  } else {
+    // Trim the long side to the target ratio around the centre
+    if (isWider) sentWidth = Math.round(height * target);
+    else sentHeight = Math.round(width / target);
+    rect = { x: Math.round((width - sentWidth) / 2), y: Math.round((height - sentHeight) / 2), width: sentWidth, height: sentHeight };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = sentWidth;
+  canvas.height = sentHeight;
+  const ctx = canvas.getContext('2d')!;
+  if (mode === 'pad') {
+    ctx.fillStyle = PAD_COLOR;
+    ctx.fillRect(0, 0, sentWidth, sentHeight);
+    ctx.drawImage(img, rect.x, rect.y);
+  } else {
+    ctx.drawImage(img, rect.x, rect.y, rect.width, rect.height, 0, 0, sentWidth, sentHeight);
+  }
+
+  const mimeType = getOutputType(file.type);
+  return {
+    image: await canvasToBlob(canvas, mimeType, 0.95),
+    mimeType,
+    aspectRatio,
+    frame: { mode, sourceWidth: width, sourceHeight: height, sentWidth, sentHeight, rect }
+  };
+};
+
+// Crop / rescale a generated image so it has exactly the source's dimensions.
+// In crop mode the result is pasted over the source, so the trimmed edges keep their original pixels.
+export const restoreResult = async (result: Blob, frame: SourceFrame, source: Blob): Promise<Blob> => {
+  if (frame.mode === 'nearest') return result;
+
+  const img = await loadImage(result);
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.sourceWidth;
+  canvas.height = frame.sourceHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+
+  const { rect } = frame;
+  if (frame.mode === 'pad') {
+    // The model may return a different resolution; map the padded layout onto it proportionally
+    const scaleX = img.naturalWidth / frame.sentWidth;
+    const scaleY = img.naturalHeight / frame.sentHeight;
+    ctx.drawImage(
+      img,
+      rect.x * scaleX, rect.y * scaleY, rect.width * scaleX, rect.height * scaleY,
+      0, 0, frame.sourceWidth, frame.sourceHeight
+    );
+  } else {
+    ctx.drawImage(await loadImage(source), 0, 0);
+    ctx.drawImage(img, rect.x, rect.y, rect.width, rect.height);
+  }
+
+  return canvasToBlob(canvas, getOutputType(result.type), 0.95);
+};
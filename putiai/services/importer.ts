@@ -0,0 +1,283 @@
+import { ImportNote } from '../types';
+import { canvasToBlob } from '../utils/image';
+
+// Turns dropped or picked files into sources the model accepts: folders are
+// walked with their relative paths kept, PDF pages are rasterised, HEIC is
+// converted, and oversized images are scaled down or re-encoded.
+
+// Sources are scaled down to this long edge; the model never outputs more than 4K
+export const MAX_SOURCE_EDGE = 4096;
+// Sources above this are re-encoded, well under the request size limit
+export const MAX_SOURCE_BYTES = 10 * 1024 * 1024;
+// Long edge PDF pages are rendered at
+const PDF_RENDER_EDGE = 3072;
+export const MAX_PDF_PAGES = 50;
+
+const PASSTHROUGH_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+// Other formats the browser can usually decode; they are converted to PNG
+const DECODABLE_TYPES = ['image/gif', 'image/bmp', 'image/avif', 'image/tiff', 'image/x-icon'];
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+// Hidden files and OS cruft that folder imports pick up
+const IGNORED_NAMES = /^(\..*|Thumbs\.db|desktop\.ini)$/i;
+
+export interface ImportSource {
+  file: File;
+  // Path inside the imported folder, including the file name
+  relativePath?: string;
+}
+
+export interface ImportedFile extends ImportSource {
+  // What was done to the file on import, for display
+  notes?: ImportNote[];
+}
+
+// Why a file was rejected or cut short; the UI puts it into words
+export type ImportProblem =
+  | { code: 'decode_failed' }
+  | { code: 'too_large'; limit: number }
+  | { code: 'heic_failed' }
+  | { code: 'pdf_locked' }
+  | { code: 'pdf_failed' }
+  | { code: 'pdf_truncated'; pages: number; limit: number }
+  | { code: 'empty' }
+  | { code: 'unsupported'; format: string }
+  | { code: 'unexpected' };
+
+export interface ImportRejection {
+  name: string;
+  problem: ImportProblem;
+}
+
+export interface ImportResult {
+  files: ImportedFile[];
+  rejected: ImportRejection[];
+}
+
+// An expected reason a file could not be imported
+export class ImportError extends Error {
+  problem: ImportProblem;
+
+  constructor(problem: ImportProblem) {
+    super(`Import failed: ${problem.code}`);
+    this.name = 'ImportError';
+    this.problem = problem;
+  }
+}
+
+const getExtension = (name: string) => name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+const isPdf = (file: File) => file.type === 'application/pdf' || getExtension(file.name) === 'pdf';
+// Many systems report HEIC files with an empty type
+const isHeic = (file: File) => HEIC_TYPES.includes(file.type) || ['heic', 'heif'].includes(getExtension(file.name));
+
+const withName = (path: string | undefined, name: string) =>
+  path ? path.slice(0, path.lastIndexOf('/') + 1) + name : undefined;
+
+// Walk a dropped directory; readEntries returns at most 100 entries per call
+const readDirectory = async (directory: FileSystemDirectoryEntry): Promise<ImportSource[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+  const nested = await Promise.all(entries.map(readEntry));
+  return nested.flat();
+};
+
+const readEntry = async (entry: FileSystemEntry): Promise<ImportSource[]> => {
+  if (entry.isDirectory) return readDirectory(entry as FileSystemDirectoryEntry);
+  const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+  return [{ file, relativePath: entry.fullPath.replace(/^\//, '') }];
+};
+
+// Dropped items, expanding folders. Falls back to the flat file list without entry support.
+export const collectDroppedSources = async (data: DataTransfer): Promise<ImportSource[]> => {
+  const entries = Array.from(data.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.());
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return Array.from(data.files).map(file => ({ file }));
+  }
+  const sources = await Promise.all((entries as FileSystemEntry[]).map(readEntry));
+  // Loose files dropped on their own don't need a path
+  return sources.flat().map(source => source.relativePath?.includes('/') ? source : { file: source.file });
+};
+
+// Files from an <input>, which carry webkitRelativePath when a folder was picked
+export const collectInputSources = (files: FileList): ImportSource[] =>
+  Array.from(files).map(file => ({ file, relativePath: file.webkitRelativePath || undefined }));
+
+const decode = async (blob: Blob): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(blob);
+  } catch {
+    throw new ImportError({ code: 'decode_failed' });
+  }
+};
+
+// Scale down to MAX_SOURCE_EDGE and keep under MAX_SOURCE_BYTES; untouched files pass straight through
+const normalizeImage = async (source: ImportSource, bitmap?: ImageBitmap): Promise<ImportedFile> => {
+  const { file } = source;
+  const image = bitmap ?? await decode(file);
+  const { width, height } = image;
+  const scale = Math.min(1, MAX_SOURCE_EDGE / Math.max(width, height));
+
+  if (!bitmap && scale === 1 && file.size <= MAX_SOURCE_BYTES && PASSTHROUGH_TYPES.includes(file.type)) {
+    image.close();
+    return source;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  image.close();
+
+  let type = file.type === 'image/jpeg' || file.type === 'image/webp' ? file.type : 'image/png';
+  let blob = await canvasToBlob(canvas, type, 0.92);
+  if (blob.size > MAX_SOURCE_BYTES) {
+    type = 'image/jpeg';
+    blob = await canvasToBlob(canvas, type, 0.9);
+  }
+  if (blob.size > MAX_SOURCE_BYTES) {
+    throw new ImportError({ code: 'too_large', limit: MAX_SOURCE_BYTES });
+  }
+
+  const name = type === file.type ? file.name : `${stripExtension(file.name)}.${type === 'image/jpeg' ? 'jpg' : type.split('/')[1]}`;
+  const notes: ImportNote[] = [];
+  if (scale < 1) notes.push({ kind: 'downscaled', from: [width, height], to: [canvas.width, canvas.height] });
+  if (type !== file.type) notes.push({ kind: 'converted', format: type.split('/')[1].toUpperCase() });
+  else if (scale === 1) notes.push({ kind: 'recompressed', from: file.size, to: blob.size });
+
+  return {
+    file: new File([blob], name, { type, lastModified: file.lastModified }),
+    relativePath: withName(source.relativePath, name),
+    notes
+  };
+};
+
+// Safari decodes HEIC natively; elsewhere it goes through libheif
+const importHeic = async (source: ImportSource): Promise<ImportedFile> => {
+  try {
+    return await normalizeImage(source, await createImageBitmap(source.file));
+  } catch (err) {
+    if (err instanceof ImportError) throw err;
+  }
+
+  let jpeg: Blob;
+  try {
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: source.file, toType: 'image/jpeg', quality: 0.92 });
+    jpeg = Array.isArray(converted) ? converted[0] : converted;
+  } catch (err) {
+    console.error("HEIC conversion failed:", err);
+    throw new ImportError({ code: 'heic_failed' });
+  }
+  const name = `${stripExtension(source.file.name)}.jpg`;
+  const file = new File([jpeg], name, { type: 'image/jpeg', lastModified: source.file.lastModified });
+  const imported = await normalizeImage({ file, relativePath: withName(source.relativePath, name) });
+  return { ...imported, notes: [{ kind: 'heic' }, ...imported.notes ?? []] };
+};
+
+// Vite bundles the worker with the app. The AI Studio runtime has no bundler and maps
+// "pdfjs-dist/" to the same CDN release as the library, so the versions still match.
+const getPdfWorkerUrl = async (): Promise<string> => {
+  if (import.meta.env) return (await import('pdfjs-dist/build/pdf.worker.min.mjs?url')).default;
+  return import.meta.resolve('pdfjs-dist/build/pdf.worker.min.mjs');
+};
+
+// Loaded on the first PDF only
+const loadPdfjs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = await getPdfWorkerUrl();
+  return pdfjs;
+};
+
+// One PNG per page, named <file>-p01.png and so on
+const importPdf = async (source: ImportSource, rejected: ImportRejection[]): Promise<ImportedFile[]> => {
+  const pdfjs = await loadPdfjs();
+  let doc: Awaited<ReturnType<typeof pdfjs.getDocument>['promise']>;
+  try {
+    doc = await pdfjs.getDocument({ data: new Uint8Array(await source.file.arrayBuffer()) }).promise;
+  } catch (err) {
+    if (err instanceof Error && err.name === 'PasswordException') throw new ImportError({ code: 'pdf_locked' });
+    console.error("Failed to open PDF:", err);
+    throw new ImportError({ code: 'pdf_failed' });
+  }
+
+  const pageCount = Math.min(doc.numPages, MAX_PDF_PAGES);
+  if (doc.numPages > MAX_PDF_PAGES) {
+    rejected.push({ name: source.file.name, problem: { code: 'pdf_truncated', pages: doc.numPages, limit: MAX_PDF_PAGES } });
+  }
+
+  const base = stripExtension(source.file.name);
+  const digits = Math.max(2, String(pageCount).length);
+  const files: ImportedFile[] = [];
+  try {
+    for (let number = 1; number <= pageCount; number++) {
+      const page = await doc.getPage(number);
+      const size = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: PDF_RENDER_EDGE / Math.max(size.width, size.height) });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      // Transparent page backgrounds would otherwise come out black
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvas, canvasContext: ctx, viewport }).promise;
+      page.cleanup();
+
+      const name = `${base}-p${String(number).padStart(digits, '0')}.png`;
+      const blob = await canvasToBlob(canvas);
+      const imported = await normalizeImage({
+        file: new File([blob], name, { type: 'image/png', lastModified: source.file.lastModified }),
+        relativePath: withName(source.relativePath, name)
+      });
+      files.push({ ...imported, notes: [{ kind: 'pdf_page', page: number }, ...imported.notes ?? []] });
+    }
+  } finally {
+    await doc.destroy();
+  }
+  return files;
+};
+
+const importSource = async (source: ImportSource, rejected: ImportRejection[]): Promise<ImportedFile[]> => {
+  const { file } = source;
+  if (file.size === 0) throw new ImportError({ code: 'empty' });
+  if (isPdf(file)) return importPdf(source, rejected);
+  if (isHeic(file)) return [await importHeic(source)];
+  if (PASSTHROUGH_TYPES.includes(file.type) || DECODABLE_TYPES.includes(file.type)) return [await normalizeImage(source)];
+  throw new ImportError({ code: 'unsupported', format: file.type || getExtension(file.name) });
+};
+
+// Sequential on purpose: decoding several large scans at once can exhaust memory
+export const importSources = async (
+  sources: ImportSource[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> => {
+  const files: ImportedFile[] = [];
+  const rejected: ImportRejection[] = [];
+  const accepted = sources.filter(source => !IGNORED_NAMES.test(source.file.name));
+
+  for (const [index, source] of accepted.entries()) {
+    onProgress?.(index, accepted.length);
+    try {
+      files.push(...await importSource(source, rejected));
+    } catch (err) {
+      if (!(err instanceof ImportError)) console.error("Failed to import file:", err);
+      rejected.push({
+        name: source.relativePath ?? source.file.name,
+        problem: err instanceof ImportError ? err.problem : { code: 'unexpected' }
+      });
+    }
+  }
+  onProgress?.(accepted.length, accepted.length);
+  return { files, rejected };
+};
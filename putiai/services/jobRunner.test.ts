@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { computeBackoff, createJobRunner } from './jobRunner';
+
+// Tasks that wait for the test to settle them, and reject once their signal aborts
+const createTasks = () => {
+  const started: { id: string; signal: AbortSignal; resolve: () => void; reject: (err: unknown) => void }[] = [];
+  const task = (id: string) => (signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    started.push({ id, signal, resolve, reject });
+    signal.addEventListener('abort', () => reject(signal.reason));
+  });
+  const finish = async (id: string) => {
+    started.filter(call => call.id === id).forEach(call => call.resolve());
+    await vi.advanceTimersByTimeAsync(0);
+  };
+  return { started, task, finish, ids: () => started.map(call => call.id) };
+};
+
+describe('createJobRunner', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs no more jobs at once than its concurrency, in the order added', async () => {
+    const { task, finish, ids } = createTasks();
+    const onSuccess = vi.fn();
+    const runner = createJobRunner({ concurrency: 2, onSuccess });
+    ['a', 'b', 'c'].forEach(id => runner.add(id, task(id)));
+
+    expect(ids()).toEqual(['a', 'b']);
+    expect(runner.getSnapshot()).toMatchObject({ running: 2, pending: 1 });
+
+    await finish('b');
+    expect(onSuccess).toHaveBeenCalledWith('b');
+    expect(ids()).toEqual(['a', 'b', 'c']);
+    expect(runner.has('b')).toBe(false);
+  });
+
+  it('ignores a job added twice', () => {
+    const { task, ids } = createTasks();
+    const runner = createJobRunner({ concurrency: 2 });
+    runner.add('a', task('a'));
+    runner.add('a', task('a'));
+    expect(ids()).toEqual(['a']);
+  });
+
+  it('dispatches pending jobs in the order given to reorder', async () => {
+    const { task, finish, ids } = createTasks();
+    const runner = createJobRunner({ concurrency: 1 });
+    ['a', 'b', 'c', 'd'].forEach(id => runner.add(id, task(id)));
+    runner.reorder(['d', 'b']);
+
+    await finish('a');
+    await finish('d');
+    await finish('b');
+    expect(ids()).toEqual(['a', 'd', 'b', 'c']);
+  });
+
+  it('lets running jobs finish when paused, and starts no new ones until resumed', async () => {
+    const { started, task, finish, ids } = createTasks();
+    const onSuccess = vi.fn();
+    const runner = createJobRunner({ concurrency: 1, onSuccess });
+    runner.add('a', task('a'));
+    runner.add('b', task('b'));
+    runner.pause();
+
+    expect(started[0].signal.aborted).toBe(false);
+    await finish('a');
+    expect(onSuccess).toHaveBeenCalledWith('a');
+    expect(ids()).toEqual(['a']);
+    expect(runner.getSnapshot()).toMatchObject({ isPaused: true, pending: 1 });
+
+    runner.resume();
+    expect(ids()).toEqual(['a', 'b']);
+  });
+
+  it('aborts a paused job and reruns it from the first attempt on resume', async () => {
+    const { started, task, ids } = createTasks();
+    const onPause = vi.fn();
+    const onStart = vi.fn();
+    const onError = vi.fn();
+    const runner = createJobRunner({ concurrency: 1, onPause, onStart, onError });
+    runner.add('a', task('a'));
+    runner.add('b', task('b'));
+
+    runner.pauseJob('a');
+    expect(started[0].signal.reason).toBe('pause');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onPause).toHaveBeenCalledWith('a');
+    expect(onError).not.toHaveBeenCalled();
+    expect(runner.getSnapshot()).toMatchObject({ paused: 1, running: 1 });
+    expect(ids()).toEqual(['a', 'b']);
+
+    runner.resumeJob('a');
+    started[1].resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(ids()).toEqual(['a', 'b', 'a']);
+    expect(onStart).toHaveBeenLastCalledWith('a', 1);
+  });
+
+  it('aborts running jobs and drops the rest when the batch is cancelled', async () => {
+    const { started, task, ids } = createTasks();
+    const onCancel = vi.fn();
+    const onError = vi.fn();
+    const runner = createJobRunner({ concurrency: 1, onCancel, onError });
+    runner.add('a', task('a'));
+    runner.add('b', task('b'));
+    runner.pause();
+
+    runner.cancel();
+    expect(started[0].signal.reason).toBe('cancel');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onCancel.mock.calls).toEqual([['b'], ['a']]);
+    expect(onError).not.toHaveBeenCalled();
+    expect(runner.getSnapshot()).toEqual({ running: 0, pending: 0, waiting: 0, paused: 0, isPaused: false });
+    expect(ids()).toEqual(['a']);
+  });
+
+  it('cancels one job and moves on to the next', async () => {
+    const { started, task, ids } = createTasks();
+    const onCancel = vi.fn();
+    const runner = createJobRunner({ concurrency: 1, onCancel });
+    runner.add('a', task('a'));
+    runner.add('b', task('b'));
+
+    runner.cancelJob('a');
+    expect(started[0].signal.aborted).toBe(true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onCancel).toHaveBeenCalledWith('a');
+    expect(runner.has('a')).toBe(false);
+    expect(ids()).toEqual(['a', 'b']);
+  });
+
+  it('retries after the backoff delay, or the server-provided one', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const { started, task, ids } = createTasks();
+    const onRetry = vi.fn();
+    const onSuccess = vi.fn();
+    const runner = createJobRunner({
+      concurrency: 1,
+      baseDelayMs: 1000,
+      shouldRetry: () => true,
+      getRetryAfterMs: err => (err === 'rate limited' ? 30_000 : undefined),
+      onRetry,
+      onSuccess
+    });
+    runner.add('a', task('a'));
+
+    started[0].reject('flaky');
+    await vi.advanceTimersByTimeAsync(0);
+    // Equal jitter with no random part: half the 1s base delay
+    expect(onRetry).toHaveBeenLastCalledWith('a', 1, 500, 'flaky');
+    expect(runner.getSnapshot()).toMatchObject({ waiting: 1 });
+    await vi.advanceTimersByTimeAsync(499);
+    expect(ids()).toEqual(['a']);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(ids()).toEqual(['a', 'a']);
+
+    started[1].reject('rate limited');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onRetry).toHaveBeenLastCalledWith('a', 2, 30_000, 'rate limited');
+    await vi.advanceTimersByTimeAsync(30_000);
+    started[2].resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onSuccess).toHaveBeenCalledWith('a');
+  });
+
+  it('fails a job once retries run out', async () => {
+    const onError = vi.fn();
+    const onRetry = vi.fn();
+    const runner = createJobRunner({ concurrency: 1, maxRetries: 2, baseDelayMs: 10, shouldRetry: () => true, onRetry, onError });
+    runner.add('a', () => Promise.reject(new Error('down')));
+
+    await vi.runAllTimersAsync();
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledWith('a', new Error('down'));
+    expect(runner.has('a')).toBe(false);
+  });
+
+  it('fails at once when shouldRetry says no', async () => {
+    const onError = vi.fn();
+    const runner = createJobRunner({ concurrency: 1, shouldRetry: () => false, onError });
+    runner.add('a', () => Promise.reject(new Error('blocked')));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops a waiting retry when its job is cancelled', async () => {
+    const { started, task, ids } = createTasks();
+    const onCancel = vi.fn();
+    const runner = createJobRunner({ concurrency: 1, shouldRetry: () => true, onCancel });
+    runner.add('a', task('a'));
+    started[0].reject('flaky');
+    await vi.advanceTimersByTimeAsync(0);
+
+    runner.cancelJob('a');
+    await vi.runAllTimersAsync();
+    expect(onCancel).toHaveBeenCalledWith('a');
+    expect(ids()).toEqual(['a']);
+  });
+});
+
+describe('computeBackoff', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('doubles per attempt up to the ceiling, keeping at least half', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect([1, 2, 3, 4].map(attempt => computeBackoff(attempt, 1000, 5000))).toEqual([1000, 2000, 4000, 5000]);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(computeBackoff(3, 1000, 5000)).toBe(2000);
+  });
+});
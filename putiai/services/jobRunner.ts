@@ -0,0 +1,240 @@
+// Bounded-concurrency job runner with retry, backoff and cancellation.
+// Jobs are identified by the queue item id. Each attempt gets its own
+// AbortSignal, which is aborted when the job is paused or cancelled.
+
+export type JobTask = (signal: AbortSignal) => Promise<void>;
+
+type JobState = 'pending' | 'running' | 'waiting' | 'paused';
+type AbortReason = 'pause' | 'cancel';
+
+interface Job {
+  id: string;
+  task: JobTask;
+  state: JobState;
+  attempt: number;
+  controller?: AbortController;
+  abortReason?: AbortReason;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+export interface JobRunnerSnapshot {
+  running: number;
+  pending: number;
+  waiting: number;
+  paused: number;
+  isPaused: boolean;
+}
+
+export interface JobRunnerOptions {
+  concurrency: number;
+  // Hard ceiling; shouldRetry can stop earlier per error type
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  // Server-provided delay (e.g. RetryInfo on a 429), used instead of the computed backoff
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  onStart?: (id: string, attempt: number) => void;
+  onRetry?: (id: string, attempt: number, delayMs: number, error: unknown) => void;
+  onSuccess?: (id: string) => void;
+  onError?: (id: string, error: unknown) => void;
+  onPause?: (id: string) => void;
+  onCancel?: (id: string) => void;
+  onChange?: (snapshot: JobRunnerSnapshot) => void;
+}
+
+export interface JobRunner {
+  add: (id: string, task: JobTask) => void;
+  has: (id: string) => boolean;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  pauseJob: (id: string) => void;
+  resumeJob: (id: string) => void;
+  cancelJob: (id: string) => void;
+  // Dispatch pending jobs in this order; jobs not listed keep their place after the listed ones
+  reorder: (ids: string[]) => void;
+  setConcurrency: (concurrency: number) => void;
+  getSnapshot: () => JobRunnerSnapshot;
+}
+
+// Exponential backoff with "equal jitter": half fixed, half random
+export const computeBackoff = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const exp = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exp / 2 + Math.random() * (exp / 2));
+};
+
+export const createJobRunner = (options: JobRunnerOptions): JobRunner => {
+  const {
+    maxRetries = 3,
+    baseDelayMs = 2000,
+    maxDelayMs = 60000,
+    shouldRetry = () => false,
+    getRetryAfterMs = () => undefined
+  } = options;
+
+  let concurrency = Math.max(1, options.concurrency);
+  let isPaused = false;
+  // Map preserves insertion order, which doubles as the dispatch order
+  const jobs = new Map<string, Job>();
+
+  const countState = (state: JobState) => {
+    let count = 0;
+    jobs.forEach(job => { if (job.state === state) count++; });
+    return count;
+  };
+
+  const getSnapshot = (): JobRunnerSnapshot => ({
+    running: countState('running'),
+    pending: countState('pending'),
+    waiting: countState('waiting'),
+    paused: countState('paused'),
+    isPaused
+  });
+
+  const notify = () => options.onChange?.(getSnapshot());
+
+  const settle = (job: Job, error?: unknown) => {
+    jobs.delete(job.id);
+    if (error === undefined) options.onSuccess?.(job.id);
+    else options.onError?.(job.id, error);
+  };
+
+  const handleAbort = (job: Job) => {
+    const reason = job.abortReason;
+    job.controller = undefined;
+    job.abortReason = undefined;
+    if (reason === 'pause') {
+      // Paused mid-flight: the attempt is thrown away and rerun on resume
+      job.state = 'paused';
+      options.onPause?.(job.id);
+    } else {
+      jobs.delete(job.id);
+      options.onCancel?.(job.id);
+    }
+  };
+
+  const execute = async (job: Job) => {
+    const controller = new AbortController();
+    job.state = 'running';
+    job.attempt += 1;
+    job.controller = controller;
+    options.onStart?.(job.id, job.attempt);
+
+    try {
+      await job.task(controller.signal);
+      if (controller.signal.aborted) handleAbort(job);
+      else settle(job);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        handleAbort(job);
+      } else if (job.attempt <= maxRetries && shouldRetry(err, job.attempt)) {
+        const retryAfter = getRetryAfterMs(err);
+        const delay = retryAfter !== undefined
+          ? retryAfter + Math.round(Math.random() * 1000)
+          : computeBackoff(job.attempt, baseDelayMs, maxDelayMs);
+        job.controller = undefined;
+        job.state = 'waiting';
+        job.timer = setTimeout(() => {
+          job.timer = undefined;
+          job.state = 'pending';
+          pump();
+        }, delay);
+        options.onRetry?.(job.id, job.attempt, delay, err);
+      } else {
+        settle(job, err);
+      }
+    }
+
+    pump();
+  };
+
+  const pump = () => {
+    if (!isPaused) {
+      let running = countState('running');
+      for (const job of jobs.values()) {
+        if (running >= concurrency) break;
+        if (job.state !== 'pending') continue;
+        running++;
+        execute(job);
+      }
+    }
+    notify();
+  };
+
+  const stopJob = (job: Job, reason: AbortReason) => {
+    if (job.state === 'running' && job.controller) {
+      // Settled by execute() once the task observes the abort
+      job.abortReason = reason;
+      job.controller.abort(reason);
+      return;
+    }
+    if (job.timer) {
+      clearTimeout(job.timer);
+      job.timer = undefined;
+    }
+    if (reason === 'pause') {
+      job.state = 'paused';
+      options.onPause?.(job.id);
+    } else {
+      jobs.delete(job.id);
+      options.onCancel?.(job.id);
+    }
+  };
+
+  return {
+    add: (id, task) => {
+      if (jobs.has(id)) return;
+      jobs.set(id, { id, task, state: 'pending', attempt: 0 });
+      pump();
+    },
+    has: (id) => jobs.has(id),
+    // Pausing the batch stops new dispatches; in-flight requests are left to finish
+    pause: () => {
+      isPaused = true;
+      notify();
+    },
+    resume: () => {
+      isPaused = false;
+      pump();
+    },
+    cancel: () => {
+      isPaused = false;
+      Array.from(jobs.values()).forEach(job => stopJob(job, 'cancel'));
+      notify();
+    },
+    pauseJob: (id) => {
+      const job = jobs.get(id);
+      if (!job || job.state === 'paused') return;
+      stopJob(job, 'pause');
+      pump();
+    },
+    resumeJob: (id) => {
+      const job = jobs.get(id);
+      if (!job || job.state !== 'paused') return;
+      job.state = 'pending';
+      job.attempt = 0;
+      pump();
+    },
+    cancelJob: (id) => {
+      const job = jobs.get(id);
+      if (!job) return;
+      stopJob(job, 'cancel');
+      pump();
+    },
+    reorder: (ids) => {
+      const listed = new Set(ids);
+      const ordered = [
+        ...ids.filter(id => jobs.has(id)),
+        ...Array.from(jobs.keys()).filter(id => !listed.has(id))
+      ].map(id => jobs.get(id)!);
+      jobs.clear();
+      ordered.forEach(job => jobs.set(job.id, job));
+    },
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+    getSnapshot
+  };
+};
@@ -0,0 +1,36 @@
+import { TargetLanguage } from '../types';
+import { toSimplified, toTraditional } from '../utils/chinese';
+
+// The language and script new text in a result should be written in. It fills
+// the {{language}} prompt variable, adds a script rule to text replacements and
+// decides which look-alike characters verification reports as the wrong script.
+
+export const TARGET_LANGUAGES: TargetLanguage[] = ['zh-Hant', 'zh-Hans', 'ja', 'en'];
+
+export const DEFAULT_TARGET_LANGUAGE: TargetLanguage = 'zh-Hant';
+
+// Prompts stay in English whatever the UI language
+export const TARGET_LANGUAGE_NAMES: Record<TargetLanguage, string> = {
+  'zh-Hant': 'Traditional Chinese',
+  'zh-Hans': 'Simplified Chinese',
+  ja: 'Japanese',
+  en: 'English'
+};
+
+export const SCRIPT_RULES: Record<TargetLanguage, string> = {
+  'zh-Hant': 'Write every new character in its Traditional Chinese form; never use Simplified forms.',
+  'zh-Hans': 'Write every new character in its Simplified Chinese form; never use Traditional forms.',
+  ja: 'Write new text in Japanese with standard Japanese kanji forms and kana exactly as given; never use Chinese character forms.',
+  en: 'Write new text in English with the Latin alphabet, keeping spelling and capitalisation exactly as given.'
+};
+
+// Forms of an expected character that mean the model wrote it in the other Chinese script.
+// Japanese and English have no such pairs; their mismatches count as missing characters.
+export const getWrongScriptForms = (char: string, language: TargetLanguage): string[] => {
+  if (language === 'zh-Hant') {
+    const simplified = toSimplified(char);
+    return simplified === char ? [] : [simplified];
+  }
+  if (language === 'zh-Hans') return toTraditional(char);
+  return [];
+};
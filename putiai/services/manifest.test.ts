@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { QueueItem } from '../types';
+import { ManifestRow, applyManifest, parseManifest } from './manifest';
+
+describe('parseManifest', () => {
+  it('names the line of a CSV row without a file', () => {
+    const text = [
+      'file,prompt,original,replacement',
+      '',
+      'poster.png,"Keep',
+      'the logo",Sale,特價',
+      ',,Open,營業中'
+    ].join('\n');
+    expect(() => parseManifest(text, 'texts.csv')).toThrow(expect.objectContaining({
+      problem: { code: 'missing_file', line: 5 }
+    }));
+  });
+
+  it('keeps the line of each CSV row', () => {
+    const rows = parseManifest('file,replacement\n\na.png,甲\nb.png,"乙\n丙"\nc.png,丁\n', 'texts.csv');
+    expect(rows.map(row => [row.file, row.line])).toEqual([['a.png', 3], ['b.png', 4], ['c.png', 6]]);
+  });
+
+  it('spreads JSON replacements into rows, with the prompt on the first', () => {
+    const rows = parseManifest(JSON.stringify([
+      { file: 'menu.png', prompt: 'Keep the logo.', replacements: [{ original: 'Tea', replacement: '茶', color: 'red' }, { original: 'Rice', replacement: 42 }] },
+      { file: 'sign.png', original: 'Open', replacement: '營業中' }
+    ]), 'texts.json');
+    expect(rows).toEqual([
+      { line: 1, file: 'menu.png', prompt: 'Keep the logo.', original: 'Tea', replacement: '茶', color: 'red' },
+      { line: 1, file: 'menu.png', prompt: undefined, original: 'Rice', replacement: '42' },
+      { line: 2, file: 'sign.png', prompt: undefined, original: 'Open', replacement: '營業中' }
+    ]);
+  });
+
+  it('ignores JSON pairs that are not objects', () => {
+    const rows = parseManifest(JSON.stringify([{ file: 'a.png', replacements: ['甲', null, { replacement: '乙' }] }]), 'texts.json');
+    expect(rows.map(row => row.replacement)).toEqual([undefined, undefined, '乙']);
+  });
+
+  it('rejects JSON entries that are not objects as rows without a file', () => {
+    expect(() => parseManifest('[{ "file": "a.png" }, "b.png"]', 'texts.json')).toThrow(expect.objectContaining({
+      problem: { code: 'missing_file', line: 2 }
+    }));
+    expect(() => parseManifest('{ "file": "a.png" }', 'texts.json')).toThrow(expect.objectContaining({
+      problem: { code: 'not_array' }
+    }));
+  });
+});
+
+describe('applyManifest', () => {
+  const item = (name: string, patch: Partial<QueueItem> = {}): QueueItem => ({
+    id: name,
+    file: new File([], name, { type: 'image/png' }),
+    previewUrl: '',
+    status: 'idle',
+    ...patch
+  });
+  const typed = { id: 'typed', original: 'Sale', replacement: '特價' };
+
+  it('replaces only what the rows supply', () => {
+    const rows: ManifestRow[] = [
+      { line: 2, file: 'a.png', original: 'Open', replacement: '營業中' },
+      { line: 3, file: 'b.png', prompt: 'Keep the logo.' }
+    ];
+    const [a, b] = applyManifest(rows, [
+      item('a.png', { customPrompt: 'Brighter.', replacements: [typed] }),
+      item('b.png', { customPrompt: 'Brighter.', replacements: [typed] })
+    ]);
+
+    expect(a.customPrompt).toBe('Brighter.');
+    expect(a.replacements?.map(pair => pair.replacement)).toEqual(['營業中']);
+    expect(b.customPrompt).toBe('Keep the logo.');
+    expect(b.replacements).toEqual([typed]);
+  });
+
+  it('leaves running, finished and unmatched items alone', () => {
+    const rows: ManifestRow[] = [{ line: 2, file: '*.png', prompt: 'Keep the logo.' }];
+    const items = [item('a.png', { status: 'processing' }), item('b.png', { status: 'success' }), item('c.jpg')];
+    expect(applyManifest(rows, items)).toEqual(items);
+  });
+});
@@ -0,0 +1,249 @@
+import { QueueItem, TextReplacement } from '../types';
+import { parseCsv, toCsv } from '../utils/csv';
+import { createReplacement } from './prompt';
+
+// Batch manifests map file names (or glob patterns) to per-item instructions.
+//
+// CSV: one row per replacement, header `file,prompt,original,replacement,font,color,position`.
+// JSON: an array of `{ file, prompt?, replacements?: [{ original, replacement, font?, color?, position? }] }`,
+// flat CSV-shaped objects are accepted too.
+
+export type ManifestFormat = 'csv' | 'json';
+
+export interface ManifestRow {
+  // 1-based line (CSV) or array index (JSON), for reporting
+  line: number;
+  file: string;
+  prompt?: string;
+  original?: string;
+  replacement?: string;
+  font?: string;
+  color?: string;
+  position?: string;
+}
+
+export interface ManifestAssignment {
+  customPrompt?: string;
+  replacements: TextReplacement[];
+}
+
+export interface ManifestReport {
+  matchedFiles: number;
+  unmatchedRows: ManifestRow[];
+  duplicateRows: ManifestRow[];
+  filesWithoutRow: string[];
+}
+
+export type ManifestProblem =
+  | { code: 'empty_csv' }
+  | { code: 'missing_file_column' }
+  | { code: 'invalid_json' }
+  | { code: 'not_array' }
+  | { code: 'missing_file'; line: number };
+
+// The message is English for the CLI; the UI words the problem itself
+export class ManifestParseError extends Error {
+  problem: ManifestProblem;
+
+  constructor(problem: ManifestProblem, message: string) {
+    super(message);
+    this.name = 'ManifestParseError';
+    this.problem = problem;
+  }
+}
+
+const CSV_COLUMNS = ['file', 'prompt', 'original', 'replacement', 'font', 'color', 'position'] as const;
+
+const optional = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const readPair = (pair: Record<string, unknown>) => ({
+  original: optional(pair.original),
+  replacement: optional(pair.replacement),
+  font: optional(pair.font),
+  color: optional(pair.color),
+  position: optional(pair.position)
+});
+
+const parseCsvManifest = (text: string): ManifestRow[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new ManifestParseError({ code: 'empty_csv' }, 'The CSV file is empty');
+
+  const columns = header.cells.map(name => name.trim().toLowerCase());
+  const fileIndex = columns.indexOf('file');
+  if (fileIndex === -1) throw new ManifestParseError({ code: 'missing_file_column' }, 'The CSV has no "file" column');
+
+  return rows.map(({ line, cells }) => {
+    const get = (column: string) => {
+      const i = columns.indexOf(column);
+      return i === -1 ? undefined : optional(cells[i]);
+    };
+    return {
+      line,
+      file: get('file') ?? '',
+      prompt: get('prompt'),
+      original: get('original'),
+      replacement: get('replacement'),
+      font: get('font'),
+      color: get('color'),
+      position: get('position')
+    };
+  });
+};
+
+const parseJsonManifest = (text: string): ManifestRow[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ManifestParseError({ code: 'invalid_json' }, 'The manifest is not valid JSON');
+  }
+  if (!Array.isArray(data)) throw new ManifestParseError({ code: 'not_array' }, 'A JSON manifest must be an array');
+
+  const rows: ManifestRow[] = [];
+  data.forEach((value: unknown, index) => {
+    // Anything but an object ends up as a row without a file name
+    const entry = asRecord(value);
+    const base = { line: index + 1, file: optional(entry.file) ?? '', prompt: optional(entry.prompt) };
+    if (Array.isArray(entry.replacements) && entry.replacements.length > 0) {
+      entry.replacements.forEach((pair: unknown, pairIndex: number) => rows.push({
+        ...base,
+        // The prompt belongs to the entry, not to every pair
+        prompt: pairIndex === 0 ? base.prompt : undefined,
+        ...readPair(asRecord(pair))
+      }));
+    } else {
+      rows.push({ ...base, ...readPair(entry) });
+    }
+  });
+  return rows;
+};
+
+export const parseManifest = (text: string, fileName: string): ManifestRow[] => {
+  const format: ManifestFormat = fileName.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+  const rows = format === 'json' ? parseJsonManifest(text) : parseCsvManifest(text);
+  const missing = rows.find(row => !row.file);
+  if (missing) {
+    throw new ManifestParseError({ code: 'missing_file', line: missing.line }, `Manifest row ${missing.line} has no file name`);
+  }
+  return rows;
+};
+
+const isGlob = (pattern: string) => /[*?]/.test(pattern);
+
+// `*` matches any run of characters, `?` a single one; case-insensitive
+const globToRegExp = (pattern: string) =>
+  new RegExp('^' + pattern.split('').map(char =>
+    char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+  ).join('') + '$', 'i');
+
+const matchesName = (row: ManifestRow, fileName: string) =>
+  isGlob(row.file) ? globToRegExp(row.file).test(fileName) : row.file.toLowerCase() === fileName.toLowerCase();
+
+// Rows may name a file on its own or by its path inside an imported folder
+const matchesRow = (row: ManifestRow, item: QueueItem) =>
+  matchesName(row, item.file.name) || (!!item.relativePath && matchesName(row, item.relativePath));
+
+const rowKey = (row: ManifestRow) =>
+  [row.file.toLowerCase(), row.original ?? '', row.replacement ?? '', row.prompt ?? ''].join('\u0000');
+
+// Match manifest rows against the queue. Exact file names take precedence over glob patterns.
+export const matchManifest = (rows: ManifestRow[], queue: QueueItem[]) => {
+  const seen = new Set<string>();
+  const duplicateRows: ManifestRow[] = [];
+  const uniqueRows = rows.filter(row => {
+    const key = rowKey(row);
+    if (seen.has(key)) {
+      duplicateRows.push(row);
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  const usedRows = new Set<ManifestRow>();
+  const assignments = new Map<string, ManifestAssignment>();
+  const filesWithoutRow: string[] = [];
+
+  queue.forEach(item => {
+    const candidates = uniqueRows.filter(row => matchesRow(row, item));
+    const exact = candidates.filter(row => !isGlob(row.file));
+    const matched = exact.length > 0 ? exact : candidates;
+    if (matched.length === 0) {
+      filesWithoutRow.push(item.relativePath ?? item.file.name);
+      return;
+    }
+    matched.forEach(row => usedRows.add(row));
+
+    const prompts = Array.from(new Set(matched.map(row => row.prompt).filter(Boolean)));
+    assignments.set(item.id, {
+      customPrompt: prompts.length ? prompts.join('\n') : undefined,
+      replacements: matched
+        .filter(row => row.replacement)
+        .map(row => ({
+          ...createReplacement(),
+          original: row.original ?? '',
+          replacement: row.replacement ?? '',
+          font: row.font,
+          color: row.color,
+          position: row.position
+        }))
+    });
+  });
+
+  const report: ManifestReport = {
+    matchedFiles: assignments.size,
+    unmatchedRows: uniqueRows.filter(row => !usedRows.has(row)),
+    duplicateRows,
+    filesWithoutRow
+  };
+  return { assignments, report };
+};
+
+// Write the queue back out in the same format the importer reads
+export const exportManifest = (queue: QueueItem[], format: ManifestFormat): string => {
+  if (format === 'json') {
+    return JSON.stringify(queue.map(item => ({
+      file: item.relativePath ?? item.file.name,
+      prompt: item.customPrompt || undefined,
+      replacements: (item.replacements ?? []).map(({ original, replacement, font, color, position }) =>
+        ({ original, replacement, font, color, position }))
+    })), null, 2);
+  }
+
+  const rows: string[][] = [[...CSV_COLUMNS]];
+  queue.forEach(item => {
+    const pairs = item.replacements?.length ? item.replacements : [undefined];
+    pairs.forEach((pair, index) => rows.push([
+      item.relativePath ?? item.file.name,
+      index === 0 ? item.customPrompt ?? '' : '',
+      pair?.original ?? '',
+      pair?.replacement ?? '',
+      pair?.font ?? '',
+      pair?.color ?? '',
+      pair?.position ?? ''
+    ]));
+  });
+  return toCsv(rows);
+};
+
+// Fill customPrompt / replacements on matched items; running and finished items are left alone.
+// Only what the rows supply is replaced, so a row without a prompt keeps a note typed by hand.
+export const applyManifest = (rows: ManifestRow[], items: QueueItem[]): QueueItem[] => {
+  const { assignments } = matchManifest(rows, items);
+  return items.map(item => {
+    const assignment = assignments.get(item.id);
+    if (!assignment || item.status === 'processing' || item.status === 'success') return item;
+    return {
+      ...item,
+      customPrompt: assignment.customPrompt ?? item.customPrompt,
+      replacements: assignment.replacements.length ? assignment.replacements : item.replacements
+    };
+  });
+};
@@ -0,0 +1,143 @@
+import { MaskShape } from '../types';
+import { canvasToBlob } from '../utils/image';
+
+// Region masks: only the masked part of a source is sent for generation, and the
+// result is composited back so pixels outside the mask keep their source values.
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Context around the masked area, as a share of the region's size
+const REGION_MARGIN = 0.15;
+const MIN_MARGIN_PX = 32;
+
+export const hasMask = (mask?: MaskShape[]): mask is MaskShape[] => !!mask?.length;
+
+// Decode without colour management so untouched pixels round-trip exactly
+const decode = (blob: Blob) => createImageBitmap(blob, { colorSpaceConversion: 'none', premultiplyAlpha: 'none' });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Bounding box of all shapes, in normalised coordinates
+const getMaskBounds = (mask: MaskShape[]): Rect => {
+  let minX = 1, minY = 1, maxX = 0, maxY = 0;
+  const include = (x1: number, y1: number, x2: number, y2: number) => {
+    minX = Math.min(minX, x1);
+    minY = Math.min(minY, y1);
+    maxX = Math.max(maxX, x2);
+    maxY = Math.max(maxY, y2);
+  };
+  mask.forEach(shape => {
+    if (shape.type === 'rect') {
+      include(shape.x, shape.y, shape.x + shape.width, shape.y + shape.height);
+    } else {
+      shape.points.forEach(([x, y]) => include(x - shape.size / 2, y - shape.size / 2, x + shape.size / 2, y + shape.size / 2));
+    }
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Pixel rectangle of the source sent to the model: the mask bounds plus some context
+const getRegionRect = (mask: MaskShape[], width: number, height: number): Rect => {
+  const bounds = getMaskBounds(mask);
+  const marginX = Math.max(MIN_MARGIN_PX, bounds.width * width * REGION_MARGIN);
+  const marginY = Math.max(MIN_MARGIN_PX, bounds.height * height * REGION_MARGIN);
+  const x1 = Math.max(0, Math.floor(bounds.x * width - marginX));
+  const y1 = Math.max(0, Math.floor(bounds.y * height - marginY));
+  const x2 = Math.min(width, Math.ceil((bounds.x + bounds.width) * width + marginX));
+  const y2 = Math.min(height, Math.ceil((bounds.y + bounds.height) * height + marginY));
+  return { x: x1, y: y1, width: Math.max(1, x2 - x1), height: Math.max(1, y2 - y1) };
+};
+
+// Brush sizes are stored relative to the long edge
+export const getStrokeWidth = (size: number, width: number, height: number) => size * Math.max(width, height);
+
+const drawMask = (ctx: CanvasRenderingContext2D, mask: MaskShape[], width: number, height: number) => {
+  ctx.fillStyle = '#fff';
+  ctx.strokeStyle = '#fff';
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  mask.forEach(shape => {
+    if (shape.type === 'rect') {
+      ctx.fillRect(shape.x * width, shape.y * height, shape.width * width, shape.height * height);
+      return;
+    }
+    const lineWidth = getStrokeWidth(shape.size, width, height);
+    if (shape.points.length === 1) {
+      const [[x, y]] = shape.points;
+      ctx.beginPath();
+      ctx.arc(x * width, y * height, lineWidth / 2, 0, Math.PI * 2);
+      ctx.fill();
+      return;
+    }
+    ctx.lineWidth = lineWidth;
+    ctx.beginPath();
+    shape.points.forEach(([x, y], i) => i === 0 ? ctx.moveTo(x * width, y * height) : ctx.lineTo(x * width, y * height));
+    ctx.stroke();
+  });
+};
+
+// Soft-edged alpha mask. The blur is clipped back to the drawn shapes,
+// so the feathering falls inside the mask and never leaks past it.
+const renderFeatheredMask = (mask: MaskShape[], width: number, height: number): HTMLCanvasElement => {
+  const hard = createCanvas(width, height);
+  drawMask(hard.getContext('2d')!, mask, width, height);
+
+  const feather = Math.max(2, Math.round(Math.max(width, height) / 400));
+  const soft = createCanvas(width, height);
+  const ctx = soft.getContext('2d')!;
+  ctx.filter = `blur(${feather}px)`;
+  ctx.drawImage(hard, 0, 0);
+  ctx.filter = 'none';
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(hard, 0, 0);
+  return soft;
+};
+
+export interface MaskRegion {
+  image: Blob;
+  // Where the region sits in the source, in pixels
+  rect: Rect;
+}
+
+// Cut the masked area (with margin) out of the source, to be sent in its place
+export const cropToMask = async (source: Blob, mask: MaskShape[]): Promise<MaskRegion> => {
+  const bitmap = await decode(source);
+  const rect = getRegionRect(mask, bitmap.width, bitmap.height);
+  const canvas = createCanvas(rect.width, rect.height);
+  canvas.getContext('2d')!.drawImage(bitmap, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  bitmap.close();
+  return { image: await canvasToBlob(canvas), rect };
+};
+
+// Paste a generated region back into the source through the feathered mask.
+// Always PNG, so the untouched pixels stay bit-identical to the decoded source.
+export const compositeMasked = async (source: Blob, result: Blob, region: MaskRegion, mask: MaskShape[]): Promise<Blob> => {
+  const [sourceBitmap, resultBitmap] = await Promise.all([decode(source), decode(result)]);
+  const { width, height } = sourceBitmap;
+  const { rect } = region;
+
+  const layer = createCanvas(width, height);
+  const layerCtx = layer.getContext('2d')!;
+  layerCtx.imageSmoothingQuality = 'high';
+  layerCtx.drawImage(resultBitmap, rect.x, rect.y, rect.width, rect.height);
+  layerCtx.globalCompositeOperation = 'destination-in';
+  layerCtx.drawImage(renderFeatheredMask(mask, width, height), 0, 0);
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(sourceBitmap, 0, 0);
+  ctx.drawImage(layer, 0, 0);
+  sourceBitmap.close();
+  resultBitmap.close();
+  return canvasToBlob(canvas);
+};
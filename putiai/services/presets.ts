@@ -0,0 +1,88 @@
+import { PromptPreset, QueueItem } from '../types';
+
+// Named prompt templates. Templates may use {{variables}}, which buildPrompt
+// fills from each item (see PROMPT_VARIABLES in prompt.ts).
+
+export const DEFAULT_GLOBAL_PROMPT = "Keep the exact composition and background. Replace the text with the following {{language}} text. Ensure typography is sharp, high-definition, and legible: ";
+
+export const BUILTIN_PRESETS: PromptPreset[] = [
+  {
+    id: 'poster-text-swap',
+    name: '海報文字替換',
+    template: DEFAULT_GLOBAL_PROMPT
+  },
+  {
+    id: 'menu-translation',
+    name: '菜單翻譯',
+    template: "Translate every dish name, heading and label on this menu into {{language}}. Keep prices, photos, layout, colours and font styles exactly as they are; only the language of the text changes."
+  },
+  {
+    id: 'sign-cleanup',
+    name: '招牌清理',
+    template: "Clean up this sign: remove dirt, glare, stickers and peeling paint, and redraw damaged letters crisply. Keep the wording, layout, colours and surroundings unchanged."
+  },
+  {
+    id: 'simplified-to-traditional',
+    name: '簡體轉繁體',
+    template: "Convert every Simplified Chinese character in this image to its Traditional Chinese (Taiwan) form. Keep the wording, typeface, size, colour and position of each text block identical, and change nothing else."
+  }
+];
+
+// An item's preset template, or the global prompt when it has none (or it was deleted)
+export const resolveTemplate = (item: Pick<QueueItem, 'presetId'>, presets: PromptPreset[], globalPrompt: string): string =>
+  presets.find(preset => preset.id === item.presetId)?.template ?? globalPrompt;
+
+export type PresetProblem =
+  | { code: 'invalid_json' }
+  | { code: 'missing_list' }
+  | { code: 'missing_fields'; index: number };
+
+export class PresetParseError extends Error {
+  problem: PresetProblem;
+
+  constructor(problem: PresetProblem) {
+    super(`Invalid preset file: ${problem.code}`);
+    this.name = 'PresetParseError';
+    this.problem = problem;
+  }
+}
+
+export const createPreset = (name: string, template: string): PromptPreset => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name,
+  template
+});
+
+// Shared file format: { presets: [{ name, template }] } or a bare array
+export const parsePresets = (text: string): PromptPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new PresetParseError({ code: 'invalid_json' });
+  }
+
+  const list = Array.isArray(data) ? data : (data as { presets?: unknown })?.presets;
+  if (!Array.isArray(list)) throw new PresetParseError({ code: 'missing_list' });
+
+  return list.map((entry, index) => {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    const template = typeof entry?.template === 'string' ? entry.template : '';
+    if (!name || !template.trim()) throw new PresetParseError({ code: 'missing_fields', index: index + 1 });
+    return createPreset(name, template);
+  });
+};
+
+export const exportPresets = (presets: PromptPreset[]): string =>
+  JSON.stringify({ version: 1, presets: presets.map(({ name, template }) => ({ name, template })) }, null, 2);
+
+// Presets with a name already in the library replace it in place; the rest are appended
+export const mergePresets = (library: PromptPreset[], incoming: PromptPreset[]): PromptPreset[] => {
+  const merged = [...library];
+  incoming.forEach(preset => {
+    const index = merged.findIndex(existing => existing.name === preset.name);
+    if (index === -1) merged.push(preset);
+    else merged[index] = { ...merged[index], template: preset.template };
+  });
+  return merged;
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { QueueItem, TextReplacement } from '../types';
+import { buildPrompt, compileReplacements, fillTemplate } from './prompt';
+import { DEFAULT_GLOBAL_PROMPT } from './presets';
+
+const pair = (original: string, replacement: string, hints: Partial<TextReplacement> = {}): TextReplacement =>
+  ({ id: `${original}-${replacement}`, original, replacement, ...hints });
+
+const item = (patch: Partial<QueueItem> = {}) => ({
+  file: new File([], 'poster-01.png', { type: 'image/png' }),
+  ...patch
+});
+
+describe('compileReplacements', () => {
+  it('numbers each pair and ends with the script and leave-alone rules', () => {
+    expect(compileReplacements([pair('Sale', '特價'), pair('', '新品', { color: 'gold' })])).toBe([
+      'Text replacements (apply each exactly as written, character for character):',
+      '1. Replace the text "Sale" with "特價".',
+      '2. Write the text "新品" (colour: gold).',
+      'Write every new character in its Traditional Chinese form; never use Simplified forms.',
+      'Leave all other text in the image unchanged.'
+    ].join('\n'));
+  });
+
+  it('skips pairs without replacement text', () => {
+    expect(compileReplacements([pair('Sale', '  ')])).toBe('');
+    expect(compileReplacements([pair('Sale', ''), pair('Open', '營業中')])).toContain('1. Replace the text "Open"');
+  });
+
+  it('quotes embedded quotes unambiguously', () => {
+    expect(compileReplacements([pair('Say "hi"', '說「嗨」')])).toContain('Replace the text "Say \\"hi\\"" with "說「嗨」"');
+  });
+
+  it('uses the rule for the target language', () => {
+    expect(compileReplacements([pair('Sale', 'セール')], 'ja')).toContain('Write new text in Japanese');
+  });
+});
+
+describe('fillTemplate', () => {
+  it('fills known variables and leaves unknown ones as written', () => {
+    const filled = fillTemplate('{{name}} / {{file}} / {{ original }} → {{replacement}} / {{typo}}', item({
+      replacements: [pair('A', '甲'), pair('B', '乙')]
+    }));
+    expect(filled).toBe('poster-01 / poster-01.png / A、B → 甲、乙 / {{typo}}');
+  });
+
+  it('fills the target language by name', () => {
+    expect(fillTemplate(DEFAULT_GLOBAL_PROMPT, item(), 'zh-Hans')).toContain('the following Simplified Chinese text');
+  });
+});
+
+describe('buildPrompt', () => {
+  it('joins the template, replacements and note in that order', () => {
+    const prompt = buildPrompt('Fix the poster.', item({ replacements: [pair('Sale', '特價')], customPrompt: ' Keep the logo. ' }));
+    const lines = prompt.split('\n');
+    expect(lines[0]).toBe('Fix the poster.');
+    expect(lines[1]).toMatch(/^Text replacements/);
+    expect(lines[lines.length - 1]).toBe('Keep the logo.');
+  });
+
+  it('is only the template when there is nothing else', () => {
+    expect(buildPrompt('  Fix the poster.  ', item({ customPrompt: '   ' }))).toBe('Fix the poster.');
+  });
+
+  it('does not repeat a note already placed by {{note}}', () => {
+    const prompt = buildPrompt('Fix it. {{note}}', item({ customPrompt: 'Keep the logo.' }));
+    expect(prompt).toBe('Fix it. Keep the logo.');
+  });
+
+  it('explains the padding in pad mode only', () => {
+    expect(buildPrompt('Fix it.', item(), 'pad')).toContain('padding');
+    expect(buildPrompt('Fix it.', item(), 'crop')).not.toContain('padding');
+  });
+});
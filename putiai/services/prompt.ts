@@ -0,0 +1,93 @@
+import { AspectMode, QueueItem, TargetLanguage, TextReplacement } from '../types';
+import { DEFAULT_TARGET_LANGUAGE, SCRIPT_RULES, TARGET_LANGUAGE_NAMES } from './language';
+
+// Compiles an item's structured replacements into a deterministic prompt.
+// The same inputs always produce the same text, so a result can be reproduced
+// and reviewers can read exactly what each image was asked to change.
+
+// JSON quoting keeps embedded quotes unambiguous without touching CJK characters
+const quote = (text: string) => JSON.stringify(text.trim());
+
+const compileHints = (pair: TextReplacement): string => {
+  const hints: string[] = [];
+  if (pair.font?.trim()) hints.push(`font style: ${pair.font.trim()}`);
+  if (pair.color?.trim()) hints.push(`colour: ${pair.color.trim()}`);
+  if (pair.position?.trim()) hints.push(`position: ${pair.position.trim()}`);
+  return hints.length ? ` (${hints.join('; ')})` : '';
+};
+
+export const compileReplacement = (pair: TextReplacement): string => {
+  const target = pair.original.trim()
+    ? `Replace the text ${quote(pair.original)} with ${quote(pair.replacement)}`
+    : `Write the text ${quote(pair.replacement)}`;
+  return `${target}${compileHints(pair)}.`;
+};
+
+// Pairs without replacement text carry no instruction and are skipped
+export const getActiveReplacements = (replacements: TextReplacement[] = []) =>
+  replacements.filter(pair => pair.replacement.trim());
+
+export const compileReplacements = (
+  replacements: TextReplacement[] = [],
+  language: TargetLanguage = DEFAULT_TARGET_LANGUAGE
+): string => {
+  const active = getActiveReplacements(replacements);
+  if (active.length === 0) return '';
+  return [
+    'Text replacements (apply each exactly as written, character for character):',
+    ...active.map((pair, index) => `${index + 1}. ${compileReplacement(pair)}`),
+    SCRIPT_RULES[language],
+    'Leave all other text in the image unchanged.'
+  ].join('\n');
+};
+
+type PromptItem = Pick<QueueItem, 'file' | 'replacements' | 'customPrompt'>;
+
+const joinTexts = (texts: string[]) => texts.filter(Boolean).join('、');
+
+export type PromptVariable = 'file' | 'name' | 'original' | 'replacement' | 'note' | 'language';
+
+export const PROMPT_VARIABLES: { name: PromptVariable; resolve: (item: PromptItem, language: TargetLanguage) => string }[] = [
+  { name: 'file', resolve: item => item.file.name },
+  { name: 'name', resolve: item => item.file.name.replace(/\.[^.]+$/, '') },
+  { name: 'original', resolve: item => joinTexts(getActiveReplacements(item.replacements).map(pair => pair.original.trim())) },
+  { name: 'replacement', resolve: item => joinTexts(getActiveReplacements(item.replacements).map(pair => pair.replacement.trim())) },
+  { name: 'note', resolve: item => (item.customPrompt ?? '').trim() },
+  { name: 'language', resolve: (_item, language) => TARGET_LANGUAGE_NAMES[language] }
+];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Unknown variables are left as written so typos stay visible in the preview
+export const fillTemplate = (template: string, item: PromptItem, language: TargetLanguage = DEFAULT_TARGET_LANGUAGE): string =>
+  template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    PROMPT_VARIABLES.find(variable => variable.name === name)?.resolve(item, language) ?? match);
+
+const usesVariable = (template: string, name: string) =>
+  Array.from(template.matchAll(VARIABLE_PATTERN)).some(match => match[1] === name);
+
+// Letterboxed sources carry bars the model would otherwise paint over
+const PAD_NOTE = 'The solid bars along the image edges are padding: leave them empty and do not move content into them.';
+
+// Final prompt sent for an item: the filled template, structured replacements, then free-form notes.
+// Notes already placed by a {{note}} variable aren't repeated at the end.
+export const buildPrompt = (
+  template: string,
+  item: PromptItem,
+  aspectMode: AspectMode = 'nearest',
+  language: TargetLanguage = DEFAULT_TARGET_LANGUAGE
+): string =>
+  [
+    fillTemplate(template, item, language).trim(),
+    compileReplacements(item.replacements, language),
+    usesVariable(template, 'note') ? '' : (item.customPrompt ?? '').trim(),
+    aspectMode === 'pad' ? PAD_NOTE : ''
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+export const createReplacement = (): TextReplacement => ({
+  id: Math.random().toString(36).substr(2, 9),
+  original: '',
+  replacement: ''
+});
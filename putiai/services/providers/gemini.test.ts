@@ -0,0 +1,140 @@
+import { BlockedReason, FinishReason, GenerateContentResponse, Part } from '@google/genai';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProviderError } from '../errors';
+import { GEMINI_MODEL, classifyApiError, classifyEmptyResponse, createGeminiProvider, extractImages } from './gemini';
+
+const generateContent = vi.fn();
+
+vi.mock('@google/genai', async importOriginal => ({
+  ...await importOriginal<typeof import('@google/genai')>(),
+  GoogleGenAI: vi.fn(() => ({ models: { generateContent } }))
+}));
+
+const PNG_BASE64 = btoa('png-bytes');
+
+// A real SDK response object, so a change in its shape breaks these fixtures
+const response = (fields: Partial<GenerateContentResponse>) => Object.assign(new GenerateContentResponse(), fields);
+
+const imageResponse = (...parts: Part[]) => response({
+  candidates: [{ content: { parts }, finishReason: FinishReason.STOP }],
+  usageMetadata: { promptTokenCount: 1200, candidatesTokenCount: 1100, totalTokenCount: 2300 }
+});
+
+describe('extractImages', () => {
+  it('keeps image parts and drops text', async () => {
+    const images = extractImages(imageResponse(
+      { text: 'Here is your image.' },
+      { inlineData: { data: PNG_BASE64, mimeType: 'image/png' } },
+      { inlineData: { data: PNG_BASE64 } }
+    ));
+    expect(images).toHaveLength(2);
+    expect(await images[0].text()).toBe('png-bytes');
+    // Parts without a MIME type are assumed to be PNG
+    expect(images[1].type).toBe('image/png');
+  });
+
+  it('reads the first candidate only', () => {
+    const twoCandidates = response({
+      candidates: [
+        { content: { parts: [{ text: 'No.' }] } },
+        { content: { parts: [{ inlineData: { data: PNG_BASE64, mimeType: 'image/png' } }] } }
+      ]
+    });
+    expect(extractImages(twoCandidates)).toEqual([]);
+  });
+
+  it('copes with missing candidates and content', () => {
+    expect(extractImages(response({}))).toEqual([]);
+    expect(extractImages(response({ candidates: [{ finishReason: FinishReason.SAFETY }] }))).toEqual([]);
+  });
+});
+
+describe('classifyEmptyResponse', () => {
+  it('reports prompt blocks as safety, with the reason', () => {
+    const error = classifyEmptyResponse(response({ promptFeedback: { blockReason: BlockedReason.PROHIBITED_CONTENT } }));
+    expect(error).toMatchObject({ code: 'safety', blockReason: 'PROHIBITED_CONTENT' });
+  });
+
+  it('reports safety finish reasons as safety', () => {
+    expect(classifyEmptyResponse(response({ candidates: [{ finishReason: FinishReason.IMAGE_SAFETY }] })).code).toBe('safety');
+  });
+
+  it('reports anything else as no image', () => {
+    expect(classifyEmptyResponse(imageResponse({ text: 'I cannot do that.' }))).toMatchObject({ code: 'no_image', blockReason: 'STOP' });
+    expect(classifyEmptyResponse(response({})).code).toBe('no_image');
+  });
+});
+
+describe('classifyApiError', () => {
+  const apiError = (status: number, error: object) =>
+    Object.assign(new Error(`got status: ${status}. ${JSON.stringify({ error })}`), { status });
+
+  it('recognises an invalid key sent back as a 400', () => {
+    const error = classifyApiError(apiError(400, {
+      code: 400,
+      message: 'API key not valid. Please pass a valid API key.',
+      status: 'INVALID_ARGUMENT',
+      details: [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID' }]
+    }));
+    expect(error).toMatchObject({ code: 'auth', status: 400 });
+  });
+
+  it('reads the status in the body when the HTTP status says nothing', () => {
+    expect(classifyApiError(apiError(400, { status: 'RESOURCE_EXHAUSTED' })).code).toBe('rate_limit');
+    expect(classifyApiError(apiError(400, { status: 'UNAVAILABLE' })).code).toBe('network');
+    expect(classifyApiError(apiError(400, { status: 'PERMISSION_DENIED' })).code).toBe('auth');
+  });
+
+  it('keeps the retry delay of a 429', () => {
+    const error = classifyApiError(apiError(429, { status: 'RESOURCE_EXHAUSTED', details: [{ retryDelay: '12s' }] }));
+    expect(error).toMatchObject({ code: 'rate_limit', retryAfterMs: 12000 });
+  });
+});
+
+describe('createGeminiProvider', () => {
+  const provider = createGeminiProvider(() => 'test-key');
+  const source = new Blob(['source'], { type: 'image/jpeg' });
+
+  beforeEach(() => {
+    generateContent.mockReset();
+  });
+
+  it('sends the image before the prompt, with the size and ratio', async () => {
+    generateContent.mockResolvedValue(imageResponse({ inlineData: { data: PNG_BASE64, mimeType: 'image/png' } }));
+
+    const result = await provider.generate({ image: source, mimeType: 'image/jpeg', prompt: 'Fix it.', imageSize: '2K', aspectRatio: '4:3' });
+
+    const request = generateContent.mock.calls[0][0];
+    expect(request.model).toBe(GEMINI_MODEL);
+    expect(request.contents.parts).toEqual([
+      { inlineData: { data: btoa('source'), mimeType: 'image/jpeg' } },
+      { text: 'Fix it.' }
+    ]);
+    expect(request.config.imageConfig).toEqual({ imageSize: '2K', aspectRatio: '4:3' });
+    expect(result.images).toHaveLength(1);
+    expect(result.usage).toEqual({ inputTokens: 1200, outputTokens: 1100, totalTokens: 2300 });
+  });
+
+  it('throws a typed error when no image comes back', async () => {
+    generateContent.mockResolvedValue(imageResponse({ text: 'Sorry.' }));
+    await expect(provider.generate({ image: source, mimeType: 'image/jpeg', prompt: 'Fix it.', imageSize: '1K', aspectRatio: '1:1' }))
+      .rejects.toMatchObject({ code: 'no_image' });
+  });
+
+  it('rejects unsupported input without calling the API', async () => {
+    const gif = new Blob(['gif'], { type: 'image/gif' });
+    await expect(provider.generate({ image: gif, mimeType: 'image/gif', prompt: 'Fix it.', imageSize: '1K', aspectRatio: '1:1' }))
+      .rejects.toBeInstanceOf(ProviderError);
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('rethrows the abort reason rather than a classified error', async () => {
+    const controller = new AbortController();
+    generateContent.mockImplementation(async () => {
+      controller.abort('pause');
+      throw new Error('The operation was aborted');
+    });
+    await expect(provider.generate({ image: source, mimeType: 'image/jpeg', prompt: 'Fix it.', imageSize: '1K', aspectRatio: '1:1', signal: controller.signal }))
+      .rejects.toBe('pause');
+  });
+});
@@ -0,0 +1,174 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { ImageProvider } from './types';
+import { UsageInfo } from '../../types';
+import { ProviderError, getField, toProviderError } from '../errors';
+import { base64ToBlob, blobToBase64 } from '../../utils/image';
+
+export const GEMINI_MODEL = 'gemini-3-pro-image-preview';
+// A fast text model is plenty for reading text back out of a result
+export const GEMINI_OCR_MODEL = 'gemini-2.5-flash';
+
+const OCR_PROMPT = "Transcribe all text visible in this image exactly as written, one line per text block. Preserve each character's exact form: do not convert between Traditional and Simplified Chinese and do not correct mistakes. Output only the transcribed text.";
+
+// Inline data counts towards the 20 MB request limit, and base64 adds a third
+const MAX_INPUT_BYTES = 14 * 1024 * 1024;
+const SUPPORTED_INPUT_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+// Finish / block reasons that mean the safety filters stopped the output
+const SAFETY_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'MODEL_ARMOR'];
+
+const validateInput = (image: Blob, mimeType: string) => {
+  if (!SUPPORTED_INPUT_TYPES.includes(mimeType)) {
+    throw new ProviderError('invalid_input', `Unsupported input type: ${mimeType || 'unknown'}`);
+  }
+  if (image.size > MAX_INPUT_BYTES) {
+    throw new ProviderError('invalid_input', `Input image is ${image.size} bytes, limit is ${MAX_INPUT_BYTES}`);
+  }
+};
+
+// ApiError messages carry the JSON error body; read its machine-readable fields
+const parseErrorBody = (message: string): { status?: string; reasons: string[] } => {
+  const start = message.indexOf('{');
+  if (start === -1) return { reasons: [] };
+  try {
+    const body: unknown = JSON.parse(message.slice(start));
+    const error = getField(body, 'error') ?? body;
+    const details = getField(error, 'details');
+    const reasons = Array.isArray(details)
+      ? details.map(detail => getField(detail, 'reason')).filter((reason): reason is string => typeof reason === 'string' && !!reason)
+      : [];
+    const status = getField(error, 'status');
+    return { status: typeof status === 'string' ? status : undefined, reasons };
+  } catch {
+    return { reasons: [] };
+  }
+};
+
+export const classifyApiError = (err: unknown): ProviderError => {
+  const error = toProviderError(err);
+  const body = parseErrorBody(error.message);
+
+  if (body.reasons.includes('API_KEY_INVALID') || body.status === 'UNAUTHENTICATED' || body.status === 'PERMISSION_DENIED') {
+    return new ProviderError('auth', error.message, { status: error.status, cause: err });
+  }
+  if (body.status === 'RESOURCE_EXHAUSTED' && error.code !== 'rate_limit') {
+    return new ProviderError('rate_limit', error.message, { status: error.status, retryAfterMs: error.retryAfterMs, cause: err });
+  }
+  if (body.status === 'UNAVAILABLE' || body.status === 'DEADLINE_EXCEEDED') {
+    return new ProviderError('network', error.message, { status: error.status, cause: err });
+  }
+  return error;
+};
+
+const toUsage = (response: GenerateContentResponse): UsageInfo | undefined => {
+  const metadata = response.usageMetadata;
+  if (!metadata) return undefined;
+  return {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: metadata.candidatesTokenCount ?? 0,
+    totalTokens: metadata.totalTokenCount ?? 0
+  };
+};
+
+// A response without an image part is either a safety block or an empty answer
+export const classifyEmptyResponse = (response: GenerateContentResponse): ProviderError => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  const reason = blockReason ?? finishReason;
+
+  if (reason && SAFETY_REASONS.includes(reason)) {
+    const detail = response.promptFeedback?.blockReasonMessage ?? `Blocked: ${reason}`;
+    return new ProviderError('safety', detail, { blockReason: reason });
+  }
+  return new ProviderError('no_image', `No image generated (finishReason: ${finishReason ?? 'none'}).`, { blockReason: finishReason });
+};
+
+// Image parts of the first candidate; text parts (the model's commentary) are dropped
+export const extractImages = (response: GenerateContentResponse): Blob[] => {
+  const images: Blob[] = [];
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    if (part.inlineData?.data) {
+      images.push(base64ToBlob(part.inlineData.data, part.inlineData.mimeType || 'image/png'));
+    }
+  }
+  return images;
+};
+
+export interface GeminiProviderOptions {
+  // Send requests here instead of the Gemini API, e.g. the key-holding proxy in server/
+  baseUrl?: string;
+  // False when the key lives on a server and nothing needs connecting in the browser
+  requiresKey?: boolean;
+}
+
+const createClient = (apiKey: string | undefined, baseUrl?: string) =>
+  new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+
+export const createGeminiProvider = (getApiKey: () => string | undefined, options: GeminiProviderOptions = {}): ImageProvider => ({
+  id: 'gemini',
+  model: GEMINI_MODEL,
+  ocrModel: GEMINI_OCR_MODEL,
+  requiresKey: options.requiresKey ?? true,
+  generate: async ({ image, mimeType, prompt, imageSize, aspectRatio, signal }) => {
+    validateInput(image, mimeType);
+
+    // Create fresh client instance for each request to ensure valid key
+    const ai = createClient(getApiKey(), options.baseUrl);
+    const base64 = await blobToBase64(image);
+
+    let response: GenerateContentResponse;
+    try {
+      response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                data: base64,
+                mimeType
+              }
+            },
+            {
+              text: prompt
+            }
+          ]
+        },
+        config: {
+          abortSignal: signal,
+          imageConfig: {
+            imageSize,
+            aspectRatio
+          }
+        }
+      });
+    } catch (err) {
+      if (signal?.aborted) throw signal.reason;
+      throw classifyApiError(err);
+    }
+
+    const images = extractImages(response);
+    if (images.length === 0) throw classifyEmptyResponse(response);
+    return { images, model: GEMINI_MODEL, usage: toUsage(response) };
+  },
+  recognizeText: async ({ image, signal }) => {
+    const ai = createClient(getApiKey(), options.baseUrl);
+    const base64 = await blobToBase64(image);
+
+    try {
+      const response = await ai.models.generateContent({
+        model: GEMINI_OCR_MODEL,
+        contents: {
+          parts: [
+            { inlineData: { data: base64, mimeType: image.type || 'image/png' } },
+            { text: OCR_PROMPT }
+          ]
+        },
+        config: { abortSignal: signal }
+      });
+      return { text: response.text ?? '', model: GEMINI_OCR_MODEL, usage: toUsage(response) };
+    } catch (err) {
+      if (signal?.aborted) throw signal.reason;
+      throw classifyApiError(err);
+    }
+  }
+});
@@ -0,0 +1,35 @@
+import { ImageProvider, ProviderId } from './types';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider, MockFailureMode } from './mock';
+import { KEY_MODE, getProxyBaseUrl } from './keyMode';
+
+export type { ImageProvider, ProviderId, GenerateRequest, GenerateResult, RecognizeRequest, RecognizeResult } from './types';
+export { MOCK_FAILURE_MODES } from './mock';
+export type { MockFailureMode } from './mock';
+export { KEY_MODE } from './keyMode';
+export type { KeyMode } from './keyMode';
+
+export const PROVIDERS: ProviderId[] = ['gemini', 'mock'];
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  mockFailureMode: MockFailureMode;
+  // Access token for the proxy server, when it is set up with PROXY_TOKENS
+  proxyToken?: string;
+}
+
+// The SDK insists on a key; the proxy ignores it unless it checks tokens
+const PROXY_PLACEHOLDER_KEY = 'proxy';
+
+export const createProvider = ({ providerId, mockFailureMode, proxyToken }: ProviderSettings): ImageProvider => {
+  switch (providerId) {
+    case 'mock':
+      return createMockProvider({ failureMode: mockFailureMode });
+    case 'gemini':
+    default:
+      if (KEY_MODE === 'proxy') {
+        return createGeminiProvider(() => proxyToken || PROXY_PLACEHOLDER_KEY, { baseUrl: getProxyBaseUrl(), requiresKey: false });
+      }
+      return createGeminiProvider(() => process.env.API_KEY);
+  }
+};
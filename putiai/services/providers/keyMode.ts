@@ -0,0 +1,14 @@
+// How the browser reaches the Gemini API, fixed at build time (see vite.config.ts):
+// - aistudio: the key the user picks in AI Studio's dialog (window.aistudio)
+// - direct: GEMINI_API_KEY baked into the bundle, for local use only
+// - proxy: requests go to the server in server/, which holds the key
+export type KeyMode = 'aistudio' | 'direct' | 'proxy';
+
+const KEY_MODES: KeyMode[] = ['aistudio', 'direct', 'proxy'];
+
+export const KEY_MODE: KeyMode = KEY_MODES.includes(process.env.KEY_MODE as KeyMode)
+  ? process.env.KEY_MODE as KeyMode
+  : 'aistudio';
+
+// Absolute, since the SDK won't take a relative base URL; defaults to the page's own origin
+export const getProxyBaseUrl = () => new URL(process.env.PROXY_URL || '/', window.location.href).href;
@@ -0,0 +1,159 @@
+import { ImageProvider } from './types';
+import { ImageSize } from '../../types';
+import { ProviderError } from '../errors';
+import { canvasToBlob, loadImage } from '../../utils/image';
+import { toSimplifiedText, toTraditional } from '../../utils/chinese';
+
+// Offline provider for developing and testing the queue without spending credits.
+// It redraws the source with the prompt text on top, so output is deterministic
+// for a given input. Failures can be forced globally or per item by putting
+// `[mock:429]`, `[mock:safety]`, `[mock:timeout]` or `[mock:empty]` in the prompt.
+// OCR reads back the requested replacement text; `[mock:ocr-simplified]`,
+// `[mock:ocr-traditional]` and `[mock:ocr-missing]` make it return the other
+// Chinese script or drop characters. Without a DOM (the CLI) the source comes
+// back unchanged instead of redrawn.
+
+export const MOCK_MODEL = 'mock-image-v1';
+
+export type MockFailureMode = 'none' | 'rate_limit' | 'safety' | 'timeout' | 'empty' | 'flaky';
+
+export const MOCK_FAILURE_MODES: MockFailureMode[] = ['none', 'flaky', 'rate_limit', 'safety', 'timeout', 'empty'];
+
+export interface MockProviderOptions {
+  failureMode?: MockFailureMode;
+  latencyMs?: number;
+}
+
+const LONG_EDGE: Record<ImageSize, number> = { '1K': 1024, '2K': 2048, '4K': 4096 };
+// Token counts in line with what the real model reports, so cost accounting can be exercised offline
+const IMAGE_TOKENS: Record<ImageSize, number> = { '1K': 1120, '2K': 1120, '4K': 2000 };
+
+const mockUsage = (prompt: string, outputTokens: number) => {
+  const inputTokens = IMAGE_TOKENS['1K'] + Math.ceil(prompt.length / 4);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+};
+
+const getOutputSize = (imageSize: ImageSize, aspectRatio: string) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const longEdge = LONG_EDGE[imageSize];
+  return w >= h
+    ? { width: longEdge, height: Math.round(longEdge * h / w) }
+    : { width: Math.round(longEdge * w / h), height: longEdge };
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// Greedy character wrap; works for CJK text, which has no spaces to break on
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    for (const char of paragraph) {
+      if (ctx.measureText(line + char).width > maxWidth && line) {
+        lines.push(line);
+        line = char;
+      } else {
+        line += char;
+      }
+    }
+    lines.push(line);
+  });
+  return lines;
+};
+
+const renderPrompt = async (image: Blob, prompt: string, width: number, height: number): Promise<Blob> => {
+  const source = await loadImage(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  // Cover-fit the source, like the model re-framing to the requested ratio
+  const scale = Math.max(width / source.naturalWidth, height / source.naturalHeight);
+  const drawWidth = source.naturalWidth * scale;
+  const drawHeight = source.naturalHeight * scale;
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+  const fontSize = Math.round(width / 32);
+  const padding = fontSize;
+  ctx.font = `${fontSize}px "Microsoft JhengHei", "Heiti TC", sans-serif`;
+  const lines = wrapText(ctx, `[${MOCK_MODEL}] ${prompt}`, width - padding * 2);
+  const boxHeight = Math.min(height, lines.length * fontSize * 1.4 + padding * 2);
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(0, height - boxHeight, width, boxHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, i) => {
+    ctx.fillText(line, padding, height - boxHeight + padding + i * fontSize * 1.4);
+  });
+
+  return canvasToBlob(canvas);
+};
+
+// Replacement texts as compiled by buildPrompt: `... with "X"` / `Write the text "X"`
+const REPLACEMENT_TEXT = /(?:with|Write the text) ("(?:[^"\\]|\\.)*")/g;
+
+const transcribe = (prompt: string): string => {
+  const texts = Array.from(prompt.matchAll(REPLACEMENT_TEXT), match => JSON.parse(match[1]) as string);
+  return texts
+    .map(text => prompt.includes('[mock:ocr-missing]') ? Array.from(text).slice(0, -1).join('') : text)
+    .map(text => prompt.includes('[mock:ocr-simplified]') ? toSimplifiedText(text) : text)
+    .map(text => prompt.includes('[mock:ocr-traditional]') ? Array.from(text).map(char => toTraditional(char)[0] ?? char).join('') : text)
+    .join('\n');
+};
+
+const getForcedFailure = (prompt: string, mode: MockFailureMode, callIndex: number): MockFailureMode => {
+  const tag = prompt.match(/\[mock:(429|safety|timeout|empty)\]/);
+  if (tag) return tag[1] === '429' ? 'rate_limit' : tag[1] as MockFailureMode;
+  if (mode === 'flaky') return callIndex % 2 === 1 ? 'rate_limit' : 'none';
+  return mode;
+};
+
+export const createMockProvider = ({ failureMode = 'none', latencyMs = 1500 }: MockProviderOptions = {}): ImageProvider => {
+  let calls = 0;
+  // Prompt behind each image this provider produced, so OCR can "read" it back
+  const prompts = new WeakMap<Blob, string>();
+
+  return {
+    id: 'mock',
+    model: MOCK_MODEL,
+    ocrModel: MOCK_MODEL,
+    requiresKey: false,
+    generate: async ({ image, prompt, imageSize, aspectRatio, signal }) => {
+      const failure = getForcedFailure(prompt, failureMode, calls++);
+      await wait(latencyMs, signal);
+
+      switch (failure) {
+        case 'rate_limit':
+          throw new ProviderError('rate_limit', "[mock] 429 RESOURCE_EXHAUSTED", { status: 429, retryAfterMs: 2000 });
+        case 'safety':
+          throw new ProviderError('safety', "[mock] Response blocked by Safety filters", { blockReason: 'IMAGE_SAFETY' });
+        case 'timeout':
+          throw new ProviderError('network', "[mock] Request timed out");
+        case 'empty':
+          throw new ProviderError('no_image', "No image generated.");
+      }
+
+      const { width, height } = getOutputSize(imageSize, aspectRatio);
+      const result = typeof document === 'undefined'
+        ? new Blob([image], { type: image.type })
+        : await renderPrompt(image, prompt, width, height);
+      prompts.set(result, prompt);
+      return { images: [result], model: MOCK_MODEL, usage: mockUsage(prompt, IMAGE_TOKENS[imageSize]) };
+    },
+    recognizeText: async ({ image, signal }) => {
+      await wait(latencyMs / 3, signal);
+      const text = transcribe(prompts.get(image) ?? '');
+      return { text, model: MOCK_MODEL, usage: mockUsage('', Math.ceil(text.length / 2)) };
+    }
+  };
+};
@@ -0,0 +1,43 @@
+import { ImageSize, UsageInfo } from '../../types';
+
+export interface GenerateRequest {
+  image: Blob;
+  mimeType: string;
+  prompt: string;
+  imageSize: ImageSize;
+  aspectRatio: string;
+  signal?: AbortSignal;
+}
+
+export interface RecognizeRequest {
+  image: Blob;
+  signal?: AbortSignal;
+}
+
+export interface GenerateResult {
+  images: Blob[];
+  model: string;
+  usage?: UsageInfo;
+}
+
+export interface RecognizeResult {
+  text: string;
+  model: string;
+  usage?: UsageInfo;
+}
+
+// An image-generation backend. Failures are thrown as ProviderError;
+// an aborted request rejects with the signal's abort reason.
+export interface ImageProvider {
+  id: ProviderId;
+  model: string;
+  // Model used for recognizeText
+  ocrModel: string;
+  // Whether a paid API key must be connected before generating
+  requiresKey: boolean;
+  generate: (request: GenerateRequest) => Promise<GenerateResult>;
+  // OCR transcript of every piece of text in an image, used to verify results
+  recognizeText: (request: RecognizeRequest) => Promise<RecognizeResult>;
+}
+
+export type ProviderId = 'gemini' | 'mock';
@@ -0,0 +1,45 @@
+import { ItemStatus, QueueItem } from '../types';
+
+// Filtering, searching and reordering of the work queue. The queue order is
+// also the processing priority.
+
+export type StatusFilter = 'all' | 'idle' | 'processing' | 'success' | 'error';
+
+export const STATUS_FILTERS: { id: StatusFilter; statuses: ItemStatus[] }[] = [
+  { id: 'all', statuses: [] },
+  { id: 'idle', statuses: ['idle'] },
+  { id: 'processing', statuses: ['processing', 'paused'] },
+  { id: 'success', statuses: ['success'] },
+  { id: 'error', statuses: ['error'] }
+];
+
+export type QueueView = 'list' | 'grid';
+
+export const getDisplayName = (item: QueueItem) => item.relativePath ?? item.file.name;
+
+export const matchesFilter = (item: QueueItem, filter: StatusFilter, search: string): boolean => {
+  const statuses = STATUS_FILTERS.find(f => f.id === filter)?.statuses ?? [];
+  if (statuses.length && !statuses.includes(item.status)) return false;
+  const query = search.trim().toLowerCase();
+  return !query || getDisplayName(item).toLowerCase().includes(query);
+};
+
+export const countByFilter = (queue: QueueItem[]): Record<StatusFilter, number> =>
+  Object.fromEntries(STATUS_FILTERS.map(f => [f.id, queue.filter(item => matchesFilter(item, f.id, '')).length])) as Record<StatusFilter, number>;
+
+// Move `ids` (kept in their current relative order) next to the target item.
+// Moving onto one of the moved items leaves the queue unchanged.
+export const moveItems = (queue: QueueItem[], ids: string[], targetId: string, after: boolean): QueueItem[] => {
+  if (ids.includes(targetId)) return queue;
+  const moving = queue.filter(item => ids.includes(item.id));
+  const rest = queue.filter(item => !ids.includes(item.id));
+  const index = rest.findIndex(item => item.id === targetId);
+  if (index === -1 || moving.length === 0) return queue;
+  const at = after ? index + 1 : index;
+  return [...rest.slice(0, at), ...moving, ...rest.slice(at)];
+};
+
+export const moveToFront = (queue: QueueItem[], ids: string[]): QueueItem[] => [
+  ...queue.filter(item => ids.includes(item.id)),
+  ...queue.filter(item => !ids.includes(item.id))
+];
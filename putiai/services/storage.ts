@@ -0,0 +1,256 @@
+import { QueueItem, ItemStatus, GenerationInfo, TextReplacement, ItemError, ResultAttempt, ImageSize, AspectMode, MaskShape, TextVerification, CallRecord, ImportNote } from '../types';
+
+// IndexedDB persistence for the work queue.
+// Item metadata and blobs live in separate stores so that status / prompt
+// updates don't rewrite multi-megabyte 4K results on every change.
+
+const DB_NAME = 'puti-ai';
+const DB_VERSION = 1;
+const ITEM_STORE = 'items';
+const BLOB_STORE = 'blobs';
+const SETTINGS_STORE = 'settings';
+
+interface StoredItem {
+  id: string;
+  order: number;
+  name: string;
+  type: string;
+  lastModified: number;
+  relativePath?: string;
+  importNotes?: ImportNote[];
+  status: ItemStatus;
+  replacements?: TextReplacement[];
+  customPrompt?: string;
+  presetId?: string;
+  mask?: MaskShape[];
+  error?: ItemError;
+  calls?: CallRecord[];
+  attempts?: { id: string; generation: GenerationInfo; verification?: TextVerification | LegacyVerification }[];
+  chosenAttemptId?: string;
+  variants?: number;
+  imageSize?: ImageSize;
+  aspectMode?: AspectMode;
+  // Single-result layout from before attempts were kept
+  hasResult?: boolean;
+  generation?: GenerationInfo;
+}
+
+// Verification from before target languages: only Traditional was checked, and errors were worded
+interface LegacyVerification extends Omit<TextVerification, 'wrongScript' | 'language' | 'error'> {
+  simplified: TextVerification['wrongScript'];
+  error?: string;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+const sourceKey = (id: string) => `${id}:source`;
+const attemptKey = (id: string, attemptId: string) => `${id}:attempt:${attemptId}`;
+const legacyResultKey = (id: string) => `${id}:result`;
+// Every blob key belonging to an item
+const itemKeyRange = (id: string) => IDBKeyRange.bound(`${id}:`, `${id}:\uffff`);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ITEM_STORE)) db.createObjectStore(ITEM_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(BLOB_STORE)) db.createObjectStore(BLOB_STORE);
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) db.createObjectStore(SETTINGS_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Blobs already written, so repeated syncs only write what is new
+const persistedBlobs = new WeakSet<Blob>();
+let persistedIds = new Set<string>();
+const persistedAttempts = new Map<string, string[]>();
+// Writes are chained so a slow sync can't land after a newer one
+let writeChain: Promise<void> = Promise.resolve();
+
+const toStoredItem = (item: QueueItem, order: number): StoredItem => ({
+  id: item.id,
+  order,
+  name: item.file.name,
+  type: item.file.type,
+  lastModified: item.file.lastModified,
+  relativePath: item.relativePath,
+  importNotes: item.importNotes,
+  // The job runner doesn't survive a reload, so in-flight and paused items go back to the queue
+  status: item.status === 'processing' || item.status === 'paused' ? 'idle' : item.status,
+  replacements: item.replacements,
+  customPrompt: item.customPrompt,
+  presetId: item.presetId,
+  mask: item.mask,
+  error: item.error,
+  calls: item.calls,
+  attempts: item.attempts?.map(({ id, generation, verification }) => ({ id, generation, verification })),
+  chosenAttemptId: item.chosenAttemptId,
+  variants: item.variants,
+  imageSize: item.imageSize,
+  aspectMode: item.aspectMode
+});
+
+const migrateVerification = (stored?: TextVerification | LegacyVerification): TextVerification | undefined => {
+  if (!stored || !('simplified' in stored)) return stored as TextVerification | undefined;
+  const { simplified, error, ...verification } = stored;
+  return { ...verification, wrongScript: simplified, language: 'zh-Hant', error: error ? 'unknown' : undefined };
+};
+
+// Restore the saved queue. Object URLs are rebuilt from the stored blobs.
+export const loadQueue = async (): Promise<QueueItem[]> => {
+  const db = await openDB();
+  const tx = db.transaction([ITEM_STORE, BLOB_STORE], 'readonly');
+  const blobStore = tx.objectStore(BLOB_STORE);
+  const stored = await requestToPromise<StoredItem[]>(tx.objectStore(ITEM_STORE).getAll());
+  stored.sort((a, b) => a.order - b.order);
+
+  const items: QueueItem[] = [];
+  for (const meta of stored) {
+    const source = await requestToPromise<Blob | undefined>(blobStore.get(sourceKey(meta.id)));
+    if (!source) continue;
+    const file = new File([source], meta.name, { type: meta.type, lastModified: meta.lastModified });
+    persistedBlobs.add(file);
+
+    const attempts: ResultAttempt[] = [];
+    for (const { id, generation, verification } of meta.attempts ?? []) {
+      const blob = await requestToPromise<Blob | undefined>(blobStore.get(attemptKey(meta.id, id)));
+      if (!blob) continue;
+      persistedBlobs.add(blob);
+      attempts.push({ id, blob, url: URL.createObjectURL(blob), generation, verification: migrateVerification(verification) });
+    }
+    if (meta.hasResult && meta.generation && !meta.attempts) {
+      // Migrated on the next sync, which writes it under an attempt key
+      const blob = await requestToPromise<Blob | undefined>(blobStore.get(legacyResultKey(meta.id)));
+      if (blob) attempts.push({ id: 'legacy', blob, url: URL.createObjectURL(blob), generation: meta.generation });
+    }
+    persistedAttempts.set(meta.id, attempts.map(attempt => attempt.id));
+
+    items.push({
+      id: meta.id,
+      file,
+      relativePath: meta.relativePath,
+      importNotes: meta.importNotes,
+      previewUrl: URL.createObjectURL(file),
+      status: meta.status === 'success' && attempts.length === 0 ? 'idle' : meta.status,
+      attempts,
+      chosenAttemptId: meta.chosenAttemptId,
+      variants: meta.variants,
+      imageSize: meta.imageSize,
+      aspectMode: meta.aspectMode,
+      replacements: meta.replacements,
+      customPrompt: meta.customPrompt,
+      presetId: meta.presetId,
+      mask: meta.mask,
+      error: meta.error,
+      calls: meta.calls
+    });
+  }
+
+  persistedIds = new Set(items.map(item => item.id));
+  return items;
+};
+
+const writeQueue = async (queue: QueueItem[]) => {
+  const db = await openDB();
+  const tx = db.transaction([ITEM_STORE, BLOB_STORE], 'readwrite');
+  const itemStore = tx.objectStore(ITEM_STORE);
+  const blobStore = tx.objectStore(BLOB_STORE);
+  const written: Blob[] = [];
+
+  queue.forEach((item, index) => {
+    itemStore.put(toStoredItem(item, index));
+    if (!persistedBlobs.has(item.file)) {
+      blobStore.put(item.file, sourceKey(item.id));
+      written.push(item.file);
+    }
+    const attempts = item.attempts ?? [];
+    attempts.forEach(attempt => {
+      if (persistedBlobs.has(attempt.blob)) return;
+      blobStore.put(attempt.blob, attemptKey(item.id, attempt.id));
+      written.push(attempt.blob);
+    });
+    // Attempts discarded from the history
+    const attemptIds = attempts.map(attempt => attempt.id);
+    (persistedAttempts.get(item.id) ?? []).forEach(attemptId => {
+      if (!attemptIds.includes(attemptId)) blobStore.delete(attemptKey(item.id, attemptId));
+    });
+    persistedAttempts.set(item.id, attemptIds);
+  });
+
+  const currentIds = new Set(queue.map(item => item.id));
+  persistedIds.forEach(id => {
+    if (currentIds.has(id)) return;
+    itemStore.delete(id);
+    blobStore.delete(itemKeyRange(id));
+    persistedAttempts.delete(id);
+  });
+
+  await transactionDone(tx);
+  written.forEach(blob => persistedBlobs.add(blob));
+  persistedIds = currentIds;
+};
+
+// Mirror the in-memory queue into IndexedDB: new blobs are written, removed items deleted
+export const saveQueue = (queue: QueueItem[]): Promise<void> => {
+  writeChain = writeChain
+    .then(() => writeQueue(queue))
+    .catch(err => console.error("Failed to persist queue:", err));
+  return writeChain;
+};
+
+export const loadSetting = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDB();
+  const tx = db.transaction(SETTINGS_STORE, 'readonly');
+  return requestToPromise<T | undefined>(tx.objectStore(SETTINGS_STORE).get(key));
+};
+
+export const saveSetting = async <T>(key: string, value: T): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+  tx.objectStore(SETTINGS_STORE).put(value, key);
+  await transactionDone(tx);
+};
+
+// Bytes held for a single item (source + every attempt)
+export const getItemSize = (item: QueueItem): number =>
+  (item.attempts ?? []).reduce((sum, attempt) => sum + attempt.blob.size, item.file.size);
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Ask the browser not to evict our data under storage pressure
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+};
@@ -0,0 +1,147 @@
+import { CallRecord, ImageSize, QueueItem } from '../types';
+import { ImageProvider } from './providers';
+import { GEMINI_MODEL, GEMINI_OCR_MODEL } from './providers/gemini';
+import { MOCK_MODEL } from './providers/mock';
+import { toProviderError } from './errors';
+import { getExpectedTexts } from './verify';
+
+// Per-call cost, token and latency accounting. Costs are never stored:
+// they are derived from the recorded token counts and the current price table,
+// so editing a price re-prices the whole history.
+
+export interface ModelPrice {
+  // USD per million tokens
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  // Output is almost entirely image tokens, which are billed at the image rate
+  [GEMINI_MODEL]: { inputPerMillion: 2, outputPerMillion: 120 },
+  [GEMINI_OCR_MODEL]: { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  [MOCK_MODEL]: { inputPerMillion: 0, outputPerMillion: 0 }
+};
+
+export interface BillingSettings {
+  prices: PriceTable;
+  // USD; the queue pauses once the batch total reaches it
+  spendCap: number | null;
+}
+
+export const DEFAULT_BILLING_SETTINGS: BillingSettings = {
+  prices: DEFAULT_PRICE_TABLE,
+  spendCap: null
+};
+
+// Rough per-call token counts for estimates made before anything has run
+const ESTIMATED_INPUT_TOKENS = 1120 + 300;
+const ESTIMATED_IMAGE_TOKENS: Record<ImageSize, number> = { '1K': 1120, '2K': 1120, '4K': 2000 };
+const ESTIMATED_OCR_OUTPUT_TOKENS = 100;
+
+const priceTokens = (model: string, inputTokens: number, outputTokens: number, prices: PriceTable) => {
+  const price = prices[model];
+  if (!price) return 0;
+  return (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+// Calls that report no usage (failures, the mock backend) are counted as free
+export const getCallCost = (call: CallRecord, prices: PriceTable): number =>
+  call.usage ? priceTokens(call.model, call.usage.inputTokens, call.usage.outputTokens, prices) : 0;
+
+export interface UsageSummary {
+  calls: number;
+  failed: number;
+  retries: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  outputBytes: number;
+  cost: number;
+}
+
+export const summarizeCalls = (calls: CallRecord[], prices: PriceTable): UsageSummary =>
+  calls.reduce<UsageSummary>((sum, call) => ({
+    calls: sum.calls + 1,
+    failed: sum.failed + (call.errorCode ? 1 : 0),
+    retries: sum.retries + (call.kind === 'generate' && call.attempt > 1 ? 1 : 0),
+    inputTokens: sum.inputTokens + (call.usage?.inputTokens ?? 0),
+    outputTokens: sum.outputTokens + (call.usage?.outputTokens ?? 0),
+    latencyMs: sum.latencyMs + call.latencyMs,
+    outputBytes: sum.outputBytes + call.outputBytes,
+    cost: sum.cost + getCallCost(call, prices)
+  }), { calls: 0, failed: 0, retries: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, outputBytes: 0, cost: 0 });
+
+export const summarizeQueue = (queue: QueueItem[], prices: PriceTable): UsageSummary =>
+  summarizeCalls(queue.flatMap(item => item.calls ?? []), prices);
+
+export interface BatchEstimate {
+  calls: number;
+  cost: number;
+}
+
+// Expected calls and cost for running the given items once, assuming no retries.
+// imageSize and variantCount are the global defaults items may override.
+export const estimateBatch = (
+  items: QueueItem[],
+  options: { model: string; ocrModel: string; imageSize: ImageSize; variantCount: number; verify: boolean },
+  prices: PriceTable
+): BatchEstimate => {
+  const ocrCost = priceTokens(options.ocrModel, ESTIMATED_INPUT_TOKENS, ESTIMATED_OCR_OUTPUT_TOKENS, prices);
+
+  return items.reduce<BatchEstimate>((sum, item) => {
+    const images = item.variants ?? options.variantCount;
+    const imageTokens = ESTIMATED_IMAGE_TOKENS[item.imageSize ?? options.imageSize];
+    const generateCost = priceTokens(options.model, ESTIMATED_INPUT_TOKENS, imageTokens, prices);
+    // Only items with expected text get an OCR call per image
+    const verified = options.verify && getExpectedTexts(item).length > 0;
+    return {
+      calls: sum.calls + images * (verified ? 2 : 1),
+      cost: sum.cost + images * (generateCost + (verified ? ocrCost : 0))
+    };
+  }, { calls: 0, cost: 0 });
+};
+
+// Wrap a provider so that every call it makes is timed and reported.
+// Calls cut short by a pause or cancel are not reported.
+export const meterProvider = (
+  provider: ImageProvider,
+  attempt: number,
+  onCall: (call: CallRecord) => void
+): ImageProvider => {
+  const measure = async <T>(
+    base: Pick<CallRecord, 'kind' | 'model' | 'imageSize'>,
+    signal: AbortSignal | undefined,
+    run: () => Promise<T>,
+    describe: (result: T) => Pick<CallRecord, 'model' | 'usage' | 'outputBytes'>
+  ): Promise<T> => {
+    const startedAt = Date.now();
+    try {
+      const result = await run();
+      onCall({ ...base, startedAt, latencyMs: Date.now() - startedAt, attempt, ...describe(result) });
+      return result;
+    } catch (err) {
+      if (!signal?.aborted) {
+        onCall({ ...base, startedAt, latencyMs: Date.now() - startedAt, attempt, outputBytes: 0, errorCode: toProviderError(err).code });
+      }
+      throw err;
+    }
+  };
+
+  return {
+    ...provider,
+    generate: (request) => measure(
+      { kind: 'generate', model: provider.model, imageSize: request.imageSize },
+      request.signal,
+      () => provider.generate(request),
+      result => ({ model: result.model, usage: result.usage, outputBytes: result.images.reduce((sum, image) => sum + image.size, 0) })
+    ),
+    recognizeText: (request) => measure(
+      { kind: 'ocr', model: provider.ocrModel },
+      request.signal,
+      () => provider.recognizeText(request),
+      result => ({ model: result.model, usage: result.usage, outputBytes: 0 })
+    )
+  };
+};
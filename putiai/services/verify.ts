@@ -0,0 +1,96 @@
+import { QueueItem, TargetLanguage, TextVerification } from '../types';
+import { ImageProvider } from './providers';
+import { getActiveReplacements } from './prompt';
+import { toProviderError } from './errors';
+import { getWrongScriptForms } from './language';
+
+// Checks generated text by running OCR on a result and comparing the
+// transcript with the text the item asked for, character by character.
+
+export interface VerificationSettings {
+  enabled: boolean;
+  // Results scoring below this (0–1) are flagged, and regenerated when enabled
+  threshold: number;
+  autoRegenerate: boolean;
+}
+
+export const DEFAULT_VERIFICATION_SETTINGS: VerificationSettings = {
+  enabled: true,
+  threshold: 0.9,
+  autoRegenerate: false
+};
+
+// Extra generations allowed per run when results fall below the threshold
+export const MAX_AUTO_REGENERATIONS = 2;
+
+// Quoted text in free-form notes is treated as text that must appear in the image
+const QUOTED_TEXT = /「([^」]+)」|『([^』]+)』|“([^”]+)”|"([^"]+)"/g;
+
+export const getExpectedTexts = (item: Pick<QueueItem, 'replacements' | 'customPrompt'>): string[] => {
+  const texts = getActiveReplacements(item.replacements).map(pair => pair.replacement.trim());
+  for (const match of (item.customPrompt ?? '').matchAll(QUOTED_TEXT)) {
+    const text = match.slice(1).find(Boolean)?.trim();
+    if (text) texts.push(text);
+  }
+  return texts;
+};
+
+// Letters and digits only: OCR spacing and punctuation are too unreliable to score
+const toChars = (text: string) => Array.from(text.toLowerCase()).filter(char => /[\p{L}\p{N}]/u.test(char));
+
+// Order-insensitive: each recognised character can satisfy one expected character
+export const verifyText = (expected: string[], recognized: string, language: TargetLanguage): TextVerification => {
+  const available = new Map<string, number>();
+  toChars(recognized).forEach(char => available.set(char, (available.get(char) ?? 0) + 1));
+  const take = (char: string) => {
+    const count = available.get(char) ?? 0;
+    if (count === 0) return false;
+    available.set(char, count - 1);
+    return true;
+  };
+
+  const chars = toChars(expected.join(''));
+  const missing: string[] = [];
+  const wrongScript: TextVerification['wrongScript'] = [];
+  let matched = 0;
+
+  chars.forEach(char => {
+    if (take(char)) {
+      matched++;
+      return;
+    }
+    const found = getWrongScriptForms(char, language).find(take);
+    if (found) wrongScript.push({ expected: char, found });
+    else missing.push(char);
+  });
+
+  return {
+    score: chars.length ? matched / chars.length : 1,
+    recognized,
+    missing,
+    wrongScript,
+    language,
+    at: Date.now()
+  };
+};
+
+export const isBelowThreshold = (verification: TextVerification | undefined, threshold: number): boolean =>
+  !!verification && !verification.error && verification.score < threshold;
+
+// OCR failures are recorded on the attempt rather than failing the item
+export const verifyResult = async (
+  provider: ImageProvider,
+  image: Blob,
+  expected: string[],
+  language: TargetLanguage,
+  signal: AbortSignal
+): Promise<TextVerification> => {
+  try {
+    const { text } = await provider.recognizeText({ image, signal });
+    return verifyText(expected, text, language);
+  } catch (err) {
+    if (signal.aborted) throw err;
+    console.error("Text verification failed:", err);
+    return { score: 0, recognized: '', missing: [], wrongScript: [], language, error: toProviderError(err).code, at: Date.now() };
+  }
+};
@@ -0,0 +1,163 @@
+// Shared types
+
+export type ImageSize = '1K' | '2K' | '4K';
+
+// Language and script that new text in a result is written in
+export type TargetLanguage = 'zh-Hant' | 'zh-Hans' | 'ja' | 'en';
+
+export type ItemStatus = 'idle' | 'processing' | 'paused' | 'success' | 'error';
+
+// How a source whose shape isn't a supported ratio is fitted before generation:
+// nearest lets the model reframe it, pad letterboxes it, crop trims it to the ratio
+export type AspectMode = 'nearest' | 'pad' | 'crop';
+
+// What a result was generated with, recorded for the export manifest
+export interface GenerationInfo {
+  prompt: string;
+  model: string;
+  imageSize: string;
+  aspectRatio: string;
+  aspectMode?: AspectMode;
+  completedAt: number;
+}
+
+// OCR check of the text in a result against the requested replacements
+export interface TextVerification {
+  // Share of expected characters found as written (0–1)
+  score: number;
+  recognized: string;
+  // Expected characters that were not found at all
+  missing: string[];
+  // Expected characters that came out in the other Chinese script (Simplified for a Traditional target and vice versa)
+  wrongScript: { expected: string; found: string }[];
+  // Target the text was checked against
+  language: TargetLanguage;
+  // Error code when the OCR call itself failed; the score is then meaningless
+  error?: ErrorCode;
+  at: number;
+}
+
+// One generated image in an item's history
+export interface ResultAttempt {
+  id: string;
+  blob: Blob;
+  url: string;
+  generation: GenerationInfo;
+  verification?: TextVerification;
+}
+
+// One "original text → replacement text" instruction, with optional styling hints
+export interface TextReplacement {
+  id: string;
+  original: string;
+  replacement: string;
+  font?: string;
+  color?: string;
+  position?: string;
+}
+
+// A named prompt template; may contain {{variables}} filled per item
+export interface PromptPreset {
+  id: string;
+  name: string;
+  template: string;
+}
+
+// A region to edit, in coordinates normalised (0–1) to the source size.
+// Brush size is normalised to the source's long edge.
+export type MaskShape =
+  | { type: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: 'stroke'; points: [number, number][]; size: number };
+
+export type ErrorCode =
+  | 'auth'           // missing, invalid or revoked API key
+  | 'rate_limit'     // quota exhausted or too many requests
+  | 'safety'         // prompt or output blocked by safety filters
+  | 'no_image'       // the response contained no image part
+  | 'invalid_input'  // source too large or in an unsupported format
+  | 'network'        // connection failure, timeout or temporary server outage
+  | 'unknown';
+
+// Token counts reported in a response's usageMetadata
+export interface UsageInfo {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// One generateContent call made for an item, successful or not
+export interface CallRecord {
+  kind: 'generate' | 'ocr';
+  model: string;
+  imageSize?: ImageSize;
+  startedAt: number;
+  latencyMs: number;
+  usage?: UsageInfo;
+  // Size of the images returned
+  outputBytes: number;
+  // Job attempt the call was made in; above 1 means a retry
+  attempt: number;
+  errorCode?: ErrorCode;
+}
+
+// Something done to a source on import (rasterised PDF page, downscaled, ...)
+export type ImportNote =
+  | { kind: 'pdf_page'; page: number }
+  | { kind: 'heic' }
+  | { kind: 'downscaled'; from: [number, number]; to: [number, number] }
+  | { kind: 'converted'; format: string }
+  | { kind: 'recompressed'; from: number; to: number };
+
+// Serializable record of why an item failed
+export interface ItemError {
+  code: ErrorCode;
+  status?: number;
+  blockReason?: string;
+  // Full error details for troubleshooting
+  raw: string;
+  at: number;
+}
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  // Path inside an imported folder, including the file name; kept for export
+  relativePath?: string;
+  // How the file was converted on import
+  importNotes?: ImportNote[];
+  previewUrl: string;
+  status: ItemStatus;
+  // Every image generated for this item, oldest first
+  attempts?: ResultAttempt[];
+  // The attempt used for download and export
+  chosenAttemptId?: string;
+  // Variants to generate per run; falls back to the global setting
+  variants?: number;
+  // Falls back to the global generation size
+  imageSize?: ImageSize;
+  // Falls back to the global aspect mode
+  aspectMode?: AspectMode;
+  // Prompt preset used instead of the global prompt
+  presetId?: string;
+  replacements?: TextReplacement[];
+  customPrompt?: string;
+  // Only these regions are regenerated; everything else keeps the source pixels
+  mask?: MaskShape[];
+  error?: ItemError;
+  // Every API call made for this item, for cost and latency accounting
+  calls?: CallRecord[];
+  // Attempts already retried for the current run
+  retryCount?: number;
+}
+
+// Injected by the AI Studio host page
+interface AIStudio {
+  hasSelectedApiKey: () => Promise<boolean>;
+  openSelectKey: () => Promise<void>;
+}
+
+declare global {
+  interface Window {
+    aistudio?: AIStudio;
+  }
+}
@@ -0,0 +1,54 @@
+// Traditional → Simplified pairs for common characters, used to tell a
+// "wrong script" character apart from a genuinely wrong one. Each token is
+// one Traditional character followed by its Simplified form.
+const PAIRS = `
+與与 專专 業业 東东 絲丝 兩两 嚴严 喪丧 個个 豐丰 臨临 為为 麗丽 舉举 義义 烏乌 樂乐 喬乔 習习 鄉乡
+書书 買买 亂乱 爭争 於于 虧亏 雲云 亞亚 產产 畝亩 親亲 億亿 僅仅 從从 倉仓 儀仪 們们 價价 眾众 優优
+會会 傘伞 偉伟 傳传 傷伤 倫伦 偽伪 體体 餘余 傭佣 僉佥 俠侠 侶侣 僥侥 偵侦 側侧 僑侨 儈侩 儂侬 俁俣
+儉俭 債债 傾倾 僂偻 僨偾 償偿 儲储 兒儿 兌兑 黨党 蘭兰 關关 興兴 養养 獸兽 內内 岡冈 冊册 寫写 軍军
+農农 馮冯 沖冲 決决 況况 凍冻 淨净 涼凉 減减 湊凑 凜凛 幾几 鳳凤 憑凭 凱凯 擊击 鑿凿 芻刍 劃划 劉刘
+則则 剛刚 創创 刪删 別别 剎刹 劑剂 剮剐 劍剑 劇剧 勸劝 辦办 務务 動动 勵励 勁劲 勞劳 勢势 勛勋 勻匀
+區区 醫医 華华 協协 單单 賣卖 盧卢 衛卫 卻却 廠厂 廳厅 歷历 厲厉 壓压 厭厌 縣县 參参 雙双 發发 變变
+敘叙 疊叠 葉叶 號号 嘆叹 嘰叽 嚇吓 呂吕 嗎吗 噸吨 聽听 啟启 吳吴 嘔呕 員员 嗚呜 詠咏 響响 啞哑 喚唤
+問问 啓启 團团 園园 圍围 國国 圖图 圓圆 聖圣 場场 壞坏 塊块 堅坚 壇坛 壩坝 墳坟 墜坠 壟垄 壘垒 墾垦
+聲声 處处 備备 復复 夠够 頭头 誇夸 奪夺 奮奋 獎奖 婦妇 媽妈 嫵妩 姍姗 薑姜 婁娄 孫孙 學学 寶宝 實实
+寵宠 審审 憲宪 宮宫 寬宽 賓宾 將将 尋寻 對对 導导 爾尔 塵尘 嘗尝 堯尧 層层 屬属 屢屡 歲岁 島岛 嶺岭
+嶽岳 幣币 帥帅 師师 帳帐 帶带 幫帮 幹干 並并 廣广 莊庄 慶庆 廬庐 庫库 應应 廟庙 廢废 開开 異异 棄弃
+張张 彌弥 彎弯 歸归 當当 錄录 彙汇 徹彻 徑径 憶忆 懺忏 憂忧 懷怀 態态 總总 戀恋 懇恳 惡恶 惱恼 悅悦
+懸悬 驚惊 慘惨 慚惭 慣惯 願愿 懶懒 戰战 戲戏 戶户 撲扑 執执 擴扩 掃扫 揚扬 擾扰 撫抚 拋抛 搶抢 護护
+報报 擔担 擬拟 攏拢 揀拣 擁拥 攔拦 擰拧 撥拨 擇择 掛挂 摯挚 撈捞 損损 換换 據据 擄掳 擺摆 攜携 搖摇
+攝摄 數数 斂敛 齋斋 斬斩 斷断 無无 舊旧 時时 曠旷 曇昙 晝昼 顯显 晉晋 曬晒 曉晓 暫暂 條条 來来 楊杨
+極极 構构 槍枪 楓枫 櫃柜 檸柠 樹树 標标 棧栈 棟栋 欄栏 樣样 檔档 橋桥 機机 權权 橫横 檢检 樓楼 歡欢
+歐欧 殘残 殺杀 毀毁 氣气 漢汉 湯汤 溝沟 沒没 瀋沈 滬沪 淚泪 潑泼 澤泽 潔洁 灑洒 濁浊 測测 濟济 渾浑
+濃浓 濤涛 漁渔 溫温 滿满 濾滤 濫滥 滅灭 燈灯 災灾 爐炉 點点 煉炼 煙烟 熱热 愛爱 爺爷 牆墙 獨独 獄狱
+獅狮 猶犹 貓猫 獻献 環环 現现 瑪玛 畫画 暢畅 畢毕 療疗 瘋疯 瘡疮 癢痒 盜盗 蓋盖 監监 盤盘 睜睁 礦矿
+碼码 磚砖 確确 礎础 禮礼 禍祸 離离 種种 積积 稱称 穩稳 窮穷 竊窃 競竞 筆笔 節节 範范 築筑 簡简 糧粮
+糾纠 紀纪 約约 紅红 級级 紙纸 納纳 純纯 線线 練练 組组 細细 終终 結结 給给 絕绝 統统 經经 綠绿 網网
+緊紧 維维 編编 緣缘 績绩 續续 繼继 罰罚 羅罗 聯联 聰聪 職职 聞闻 腦脑 膚肤 脅胁 腳脚 臉脸 艦舰 藝艺
+蘋苹 莖茎 薦荐 藥药 蟲虫 蝦虾 螞蚂 補补 裝装 製制 複复 見见 規规 視视 覺觉 覽览 觀观 觸触 計计 訂订
+認认 討讨 讓让 訓训 議议 記记 講讲 許许 論论 設设 訪访 證证 評评 識识 詞词 試试 詩诗 話话 誠诚 該该
+詳详 語语 誤误 說说 請请 讀读 課课 誰谁 調调 談谈 謝谢 謎谜 豬猪 貝贝 負负 財财 責责 貨货 質质 購购
+貴贵 費费 資资 賽赛 贊赞 趕赶 趙赵 躍跃 車车 軟软 較较 載载 輕轻 輛辆 輸输 轉转 辭辞 邊边 達达 遷迁
+過过 運运 還还 這这 進进 遠远 違违 連连 遲迟 適适 選选 遺遗 鄧邓 鄭郑 醜丑 釋释 針针 鐵铁 銀银 銷销
+錯错 鍵键 鏡镜 長长 門门 閃闪 閉闭 間间 閱阅 隊队 陽阳 陰阴 陣阵 際际 陸陆 隨随 險险 隱隐 雖虽 雞鸡
+難难 電电 靈灵 靜静 韓韩 頁页 項项 順顺 須须 預预 領领 頻频 題题 顏颜 額额 風风 飛飞 飯饭 飲饮 館馆
+馬马 駕驾 驗验 髮发 鬥斗 魚鱼 鮮鲜 鳥鸟 鳴鸣 鴨鸭 鵝鹅 麥麦 黃黄 齊齐 齒齿 龍龙 龜龟 臺台 檯台 颱台
+後后 裡里 鐘钟 鬆松 麵面 誌志 準准 隻只 蔔卜 穀谷 彆别 係系 繫系 鹹咸 捨舍 傑杰 儘尽 盡尽
+`;
+
+const TO_SIMPLIFIED = new Map<string, string>();
+// Several Traditional characters can share one Simplified form (髮 / 發 → 发)
+const TO_TRADITIONAL = new Map<string, string[]>();
+PAIRS.split(/\s+/).filter(Boolean).forEach(pair => {
+  const [traditional, simplified] = Array.from(pair);
+  TO_SIMPLIFIED.set(traditional, simplified);
+  TO_TRADITIONAL.set(simplified, [...(TO_TRADITIONAL.get(simplified) ?? []), traditional]);
+});
+
+// Simplified form of a Traditional character; the character itself when it has none
+export const toSimplified = (char: string): string => TO_SIMPLIFIED.get(char) ?? char;
+
+export const toSimplifiedText = (text: string): string => Array.from(text).map(toSimplified).join('');
+
+// Traditional forms of a Simplified character; empty when it has none
+export const toTraditional = (char: string): string[] => TO_TRADITIONAL.get(char) ?? [];
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, quotes and line breaks', () => {
+    expect(parseCsv('a,"b, ""c""","d\ne"\n').map(row => row.cells)).toEqual([['a', 'b, "c"', 'd\ne']]);
+  });
+
+  it('numbers rows by the line they start on', () => {
+    const text = 'file,prompt\r\n\r\nposter.png,"Keep\r\nthe logo"\r\n   \nmenu.png,\n';
+    expect(parseCsv(text).map(row => row.line)).toEqual([1, 3, 6]);
+  });
+
+  it('counts a lone CR inside quotes as a line break', () => {
+    expect(parseCsv('"a\rb"\nc').map(row => row.line)).toEqual([1, 3]);
+  });
+
+  it('reads back what toCsv writes', () => {
+    const rows = [['file', 'prompt'], ['a.png', 'Say "hi",\nthen stop']];
+    expect(parseCsv(toCsv(rows)).map(row => row.cells)).toEqual(rows);
+  });
+});
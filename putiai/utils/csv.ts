@@ -0,0 +1,63 @@
+// Small RFC 4180 CSV reader / writer (quoted fields, escaped quotes, CRLF or LF)
+
+export interface CsvRow {
+  // 1-based line the row starts on; quoted fields may span several
+  line: number;
+  cells: string[];
+}
+
+export const parseCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  // Excel adds a BOM to UTF-8 exports
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // A CRLF inside a field is one line break
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+  }
+  // Drop blank lines
+  return rows.filter(({ cells }) => cells.some(cell => cell.trim()));
+};
+
+const escapeField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]): string =>
+  // BOM so Excel opens the file as UTF-8
+  '\uFEFF' + rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,63 @@
+import { canvasToBlob, loadImage } from './image';
+
+export interface DiffResult {
+  // Object URL of a transparent PNG highlighting changed pixels
+  url: string;
+  // Share of pixels whose difference exceeds the threshold (0–1)
+  changedRatio: number;
+}
+
+// Diffs are computed on a downscaled copy; full 4K would block the main thread for seconds
+const DIFF_MAX_EDGE = 1024;
+// Per-pixel colour distance (0–255) below which a pixel counts as unchanged.
+// Re-encoding alone shifts pixels a little, so this filters out that noise.
+const DIFF_THRESHOLD = 40;
+
+// Heatmap from yellow (small change) to red (large change)
+const heatColor = (intensity: number): [number, number, number] => [255, Math.round(220 * (1 - intensity)), 0];
+
+// Pixel-difference heatmap between a source and a generated result.
+// The source is stretched onto the result's frame, matching how the viewer overlays them.
+export const computeDiffHeatmap = async (before: Blob, after: Blob): Promise<DiffResult> => {
+  const [beforeImg, afterImg] = await Promise.all([loadImage(before), loadImage(after)]);
+  const scale = Math.min(1, DIFF_MAX_EDGE / Math.max(afterImg.naturalWidth, afterImg.naturalHeight));
+  const width = Math.round(afterImg.naturalWidth * scale);
+  const height = Math.round(afterImg.naturalHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+  ctx.drawImage(beforeImg, 0, 0, width, height);
+  const beforeData = ctx.getImageData(0, 0, width, height).data;
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(afterImg, 0, 0, width, height);
+  const afterData = ctx.getImageData(0, 0, width, height).data;
+
+  const heatmap = ctx.createImageData(width, height);
+  const out = heatmap.data;
+  let changed = 0;
+
+  for (let i = 0; i < beforeData.length; i += 4) {
+    const distance = Math.max(
+      Math.abs(beforeData[i] - afterData[i]),
+      Math.abs(beforeData[i + 1] - afterData[i + 1]),
+      Math.abs(beforeData[i + 2] - afterData[i + 2])
+    );
+    if (distance < DIFF_THRESHOLD) continue;
+
+    changed++;
+    const intensity = (distance - DIFF_THRESHOLD) / (255 - DIFF_THRESHOLD);
+    const [r, g, b] = heatColor(intensity);
+    out[i] = r;
+    out[i + 1] = g;
+    out[i + 2] = b;
+    out[i + 3] = Math.round(120 + 135 * intensity);
+  }
+
+  ctx.putImageData(heatmap, 0, 0);
+  const blob = await canvasToBlob(canvas);
+
+  return { url: URL.createObjectURL(blob), changedRatio: changed / (width * height) };
+};
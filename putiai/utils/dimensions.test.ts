@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { readImageDimensions } from './dimensions';
+
+const bytes = (...parts: number[][]) => new Uint8Array(parts.flat());
+const uint16 = (value: number, little = false) => little ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff];
+const uint32 = (value: number, little = false) => {
+  const big = [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+  return little ? big.reverse() : big;
+};
+
+// APP1 segment with a single IFD0 entry: the orientation tag
+const exif = (orientation: number, little = false) => {
+  const tiff = [
+    ...(little ? [0x49, 0x49] : [0x4d, 0x4d]), ...uint16(42, little), ...uint32(8, little),
+    ...uint16(1, little),
+    ...uint16(0x0112, little), ...uint16(3, little), ...uint32(1, little), ...uint16(orientation, little), 0, 0,
+    ...uint32(0, little)
+  ];
+  const payload = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff];
+  return [0xff, 0xe1, ...uint16(payload.length + 2), ...payload];
+};
+
+const sof = (width: number, height: number) => [0xff, 0xc0, ...uint16(17), 8, ...uint16(height), ...uint16(width), 3, ...new Array(9).fill(0)];
+
+const jpeg = (width: number, height: number, ...segments: number[][]) =>
+  bytes([0xff, 0xd8], ...segments, sof(width, height), [0xff, 0xd9]);
+
+describe('readImageDimensions', () => {
+  it('reads PNG headers', () => {
+    const png = bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], uint32(13), [0x49, 0x48, 0x44, 0x52], uint32(1600), uint32(900), [8, 6, 0, 0, 0]);
+    expect(readImageDimensions(png)).toEqual({ width: 1600, height: 900 });
+  });
+
+  it('reads the JPEG frame size, skipping other segments', () => {
+    const app0 = [0xff, 0xe0, ...uint16(16), ...new Array(14).fill(0)];
+    expect(readImageDimensions(jpeg(4032, 3024, app0))).toEqual({ width: 4032, height: 3024 });
+  });
+
+  it('swaps JPEG sizes for quarter-turn Exif orientations', () => {
+    expect(readImageDimensions(jpeg(4032, 3024, exif(6)))).toEqual({ width: 3024, height: 4032 });
+    expect(readImageDimensions(jpeg(4032, 3024, exif(8, true)))).toEqual({ width: 3024, height: 4032 });
+    expect(readImageDimensions(jpeg(4032, 3024, exif(5)))).toEqual({ width: 3024, height: 4032 });
+  });
+
+  it('keeps JPEG sizes for upright and half-turn orientations', () => {
+    expect(readImageDimensions(jpeg(4032, 3024, exif(1)))).toEqual({ width: 4032, height: 3024 });
+    expect(readImageDimensions(jpeg(4032, 3024, exif(3, true)))).toEqual({ width: 4032, height: 3024 });
+  });
+
+  it('ignores truncated Exif data', () => {
+    const truncated = [0xff, 0xe1, ...uint16(10), 0x45, 0x78, 0x69, 0x66, 0, 0, 0x4d, 0x4d];
+    expect(readImageDimensions(jpeg(800, 600, truncated))).toEqual({ width: 800, height: 600 });
+  });
+
+  it('returns undefined for other formats', () => {
+    expect(readImageDimensions(bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61], new Array(20).fill(0)))).toBeUndefined();
+  });
+});
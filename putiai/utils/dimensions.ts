@@ -0,0 +1,95 @@
+// Pixel dimensions read straight from a PNG, JPEG or WebP header, for places
+// without an image decoder (the Node CLI). JPEG sizes follow the Exif orientation,
+// so they match what loadImage reports in the browser. Undefined for anything else.
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const readPng = (view: DataView): ImageDimensions | undefined => {
+  // Signature, then IHDR is always the first chunk
+  if (view.byteLength < 24 || view.getUint32(0) !== 0x89504e47) return undefined;
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+};
+
+// Start-of-frame markers: baseline, progressive and the rarer lossless / arithmetic variants
+const SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+// Orientation from an APP1 Exif segment starting at offset (the marker), 1 when absent
+const readExifOrientation = (view: DataView, offset: number, length: number): number => {
+  const end = Math.min(offset + 2 + length, view.byteLength);
+  const tiff = offset + 10;
+  // "Exif\0\0", then a TIFF header
+  if (tiff + 8 > end || view.getUint32(offset + 4) !== 0x45786966 || view.getUint16(offset + 8) !== 0) return 1;
+  const byteOrder = view.getUint16(tiff);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return 1;
+  const little = byteOrder === 0x4949;
+
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  if (ifd + 2 > end) return 1;
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > end) break;
+    if (view.getUint16(entry, little) === EXIF_ORIENTATION_TAG) return view.getUint16(entry + 8, little);
+  }
+  return 1;
+};
+
+const readJpeg = (view: DataView): ImageDimensions | undefined => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return undefined;
+  let offset = 2;
+  let orientation = 1;
+  while (offset + 9 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return undefined;
+    const marker = view.getUint8(offset + 1);
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xe1 && orientation === 1) orientation = readExifOrientation(view, offset, length);
+    if (SOF_MARKERS.has(marker)) {
+      const height = view.getUint16(offset + 5);
+      const width = view.getUint16(offset + 7);
+      // Orientations 5 to 8 turn the image a quarter, as browsers do when decoding
+      return orientation >= 5 && orientation <= 8 ? { width: height, height: width } : { width, height };
+    }
+    offset += 2 + length;
+  }
+  return undefined;
+};
+
+const readWebp = (bytes: Uint8Array, view: DataView): ImageDimensions | undefined => {
+  if (view.byteLength < 30 || ascii(bytes, 0, 4) !== 'RIFF' || ascii(bytes, 8, 4) !== 'WEBP') return undefined;
+  const uint24 = (offset: number) => view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+
+  switch (ascii(bytes, 12, 4)) {
+    case 'VP8X':
+      return { width: uint24(24) + 1, height: uint24(27) + 1 };
+    case 'VP8L': {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8 ':
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    default:
+      return undefined;
+  }
+};
+
+export const readImageDimensions = (bytes: Uint8Array): ImageDimensions | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return readPng(view) ?? readJpeg(view) ?? readWebp(bytes, view);
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { SUPPORTED_ASPECT_RATIOS, base64ToBlob, blobToBase64, getClosestAspectRatio, parseAspectRatio } from './image';
+
+describe('getClosestAspectRatio', () => {
+  it('returns exact matches', () => {
+    expect(getClosestAspectRatio(1000, 1000)).toBe('1:1');
+    expect(getClosestAspectRatio(1920, 1080)).toBe('16:9');
+    expect(getClosestAspectRatio(1080, 1920)).toBe('9:16');
+    expect(getClosestAspectRatio(2100, 900)).toBe('21:9');
+  });
+
+  it('picks the nearest ratio for sizes in between', () => {
+    // A4 portrait, 0.707: just closer to 2:3 (0.667) than 3:4 (0.75)
+    expect(getClosestAspectRatio(2480, 3508)).toBe('2:3');
+    // Phone screenshot, 0.462: narrower than anything supported
+    expect(getClosestAspectRatio(1170, 2532)).toBe('9:16');
+    // Ultra-wide banner, 4:1
+    expect(getClosestAspectRatio(4000, 1000)).toBe('21:9');
+    expect(getClosestAspectRatio(1100, 1000)).toBe('1:1');
+  });
+
+  it('tells close landscape ratios apart', () => {
+    expect(getClosestAspectRatio(1500, 1000)).toBe('3:2');
+    expect(getClosestAspectRatio(1400, 1000)).toBe('4:3');
+    expect(getClosestAspectRatio(1260, 1000)).toBe('5:4');
+  });
+
+  // Shapes that went out as 3:4, 4:3 or 16:9 before the narrower and wider ratios were added
+  it.each([
+    ['A4 portrait', 2480, 3508, '2:3'],
+    ['4x6 photo', 1200, 1800, '2:3'],
+    ['6x4 photo', 1800, 1200, '3:2'],
+    ['Instagram portrait', 1080, 1350, '4:5'],
+    ['8x10 print', 3000, 2400, '5:4'],
+    ['ultra-wide banner', 3440, 1440, '21:9']
+  ])('sends a %s (%i x %i) as %s', (_name, width, height, expected) => {
+    expect(getClosestAspectRatio(width, height)).toBe(expected);
+  });
+
+  it('keeps shapes that fit one of the first five ratios on it', () => {
+    expect(getClosestAspectRatio(1024, 1024)).toBe('1:1');
+    expect(getClosestAspectRatio(768, 1024)).toBe('3:4');
+    expect(getClosestAspectRatio(1024, 768)).toBe('4:3');
+    expect(getClosestAspectRatio(720, 1280)).toBe('9:16');
+    expect(getClosestAspectRatio(1280, 720)).toBe('16:9');
+  });
+
+  it('only returns ratios the API accepts', () => {
+    const ids = SUPPORTED_ASPECT_RATIOS.map(ratio => ratio.id);
+    for (let width = 100; width <= 3000; width += 290) {
+      expect(ids).toContain(getClosestAspectRatio(width, 1000));
+    }
+  });
+});
+
+describe('parseAspectRatio', () => {
+  it('agrees with the rounded values in the ratio table', () => {
+    for (const { id, val } of SUPPORTED_ASPECT_RATIOS) {
+      expect(parseAspectRatio(id)).toBeCloseTo(val, 3);
+    }
+  });
+});
+
+describe('base64 conversion', () => {
+  it('round-trips binary data', async () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 254, 255]);
+    const blob = base64ToBlob(await blobToBase64(new Blob([bytes])), 'image/png');
+    expect(blob.type).toBe('image/png');
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(bytes);
+  });
+});
@@ -0,0 +1,93 @@
+// Aspect ratios accepted by imageConfig.aspectRatio
+export const SUPPORTED_ASPECT_RATIOS = [
+  { id: "1:1", val: 1.0 },
+  { id: "2:3", val: 0.6667 },
+  { id: "3:2", val: 1.5 },
+  { id: "3:4", val: 0.75 },
+  { id: "4:3", val: 1.3333 },
+  { id: "4:5", val: 0.8 },
+  { id: "5:4", val: 1.25 },
+  { id: "9:16", val: 0.5625 },
+  { id: "16:9", val: 1.7778 },
+  { id: "21:9", val: 2.3333 }
+];
+
+// Exact width / height of a ratio id such as "16:9"
+export const parseAspectRatio = (id: string): number => {
+  const [w, h] = id.split(':').map(Number);
+  return w / h;
+};
+
+// Find the closest supported ratio
+export const getClosestAspectRatio = (width: number, height: number): string => {
+  const ratio = width / height;
+  const bestMatch = SUPPORTED_ASPECT_RATIOS.reduce((prev, curr) =>
+    Math.abs(curr.val - ratio) < Math.abs(prev.val - ratio) ? curr : prev
+  );
+  return bestMatch.id;
+};
+
+export const loadImage = (blob: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = (err) => {
+      URL.revokeObjectURL(url);
+      reject(err);
+    };
+    img.src = url;
+  });
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Canvas export failed")), type, quality);
+  });
+};
+
+// Helper to detect the closest supported Aspect Ratio of an image file
+export const detectAspectRatio = async (file: Blob): Promise<string> => {
+  const img = await loadImage(file);
+  return getClosestAspectRatio(img.naturalWidth, img.naturalHeight);
+};
+
+// Base64 payload of a blob, without the data URL prefix.
+// Falls back to arrayBuffer() + btoa where there is no FileReader (the Node CLI).
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  if (typeof FileReader === 'undefined') {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    // Chunked so String.fromCharCode doesn't exceed the argument limit
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Decode a base64 payload (no data URL prefix) into a Blob
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
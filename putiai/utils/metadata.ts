@@ -0,0 +1,98 @@
+// Copies metadata blocks (text, EXIF, XMP, provenance) from one encoded image
+// to another of the same format. Canvas re-encoding drops all of them.
+// Blocks are copied byte for byte, so their checksums stay valid.
+
+const PNG_SIGNATURE_LENGTH = 8;
+// Ancillary chunks that carry metadata rather than pixels or colour data
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'caBX']);
+
+const JPEG_SOS = 0xda;
+const JPEG_APP0 = 0xe0;
+// APP1 (EXIF / XMP), APP11 (C2PA), APP13 (IPTC) and comments
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xeb, 0xed, 0xfe]);
+
+interface Block {
+  type: string | number;
+  start: number;
+  end: number;
+}
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const readPngChunks = (bytes: Uint8Array): Block[] => {
+  const chunks: Block[] = [];
+  let offset = PNG_SIGNATURE_LENGTH;
+  while (offset + 12 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    chunks.push({ type, start: offset, end });
+    if (type === 'IEND') break;
+    offset = end;
+  }
+  return chunks;
+};
+
+// Segments up to the start of scan; everything after is entropy-coded image data
+const readJpegSegments = (bytes: Uint8Array): Block[] => {
+  const segments: Block[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === JPEG_SOS) break;
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) break;
+    segments.push({ type: marker, start: offset, end });
+    offset = end;
+  }
+  return segments;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+};
+
+const isPng = (type: string) => type === 'image/png';
+const isJpeg = (type: string) => type === 'image/jpeg';
+
+// Only same-format copies are supported: PNG to PNG and JPEG to JPEG
+export const canCopyMetadata = (fromType: string, toType: string): boolean =>
+  fromType === toType && (isPng(fromType) || isJpeg(fromType));
+
+export const copyMetadata = async (from: Blob, to: Blob): Promise<Blob> => {
+  if (!canCopyMetadata(from.type, to.type)) return to;
+  const source = new Uint8Array(await from.arrayBuffer());
+  const target = new Uint8Array(await to.arrayBuffer());
+
+  if (isPng(to.type)) {
+    const blocks = readPngChunks(source).filter(chunk => PNG_METADATA_CHUNKS.has(chunk.type as string));
+    if (blocks.length === 0) return to;
+    // Right after IHDR, which must stay the first chunk
+    const ihdr = readPngChunks(target)[0];
+    if (!ihdr || ihdr.type !== 'IHDR') return to;
+    return new Blob([concat([
+      target.subarray(0, ihdr.end),
+      ...blocks.map(chunk => source.subarray(chunk.start, chunk.end)),
+      target.subarray(ihdr.end)
+    ])], { type: to.type });
+  }
+
+  const blocks = readJpegSegments(source).filter(segment => JPEG_METADATA_MARKERS.has(segment.type as number));
+  if (blocks.length === 0) return to;
+  // After SOI, and after the JFIF header when the encoder wrote one
+  const first = readJpegSegments(target)[0];
+  const insertAt = first?.type === JPEG_APP0 ? first.end : 2;
+  return new Blob([concat([
+    target.subarray(0, insertAt),
+    ...blocks.map(segment => source.subarray(segment.start, segment.end)),
+    target.subarray(insertAt)
+  ])], { type: to.type });
+};
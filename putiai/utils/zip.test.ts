@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { ZipRecord, centralHeader, createZip, endRecords, localHeader } from './zip';
+
+// Reads back the central directory the way unzip tools do: from the end record, through ZIP64 when flagged
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  let count = view.getUint16(end + 10, true);
+  let centralOffset = view.getUint32(end + 16, true);
+  let zip64 = false;
+  if (count === 0xffff || centralOffset === 0xffffffff) {
+    zip64 = true;
+    const locator = end - 20;
+    expect(view.getUint32(locator, true)).toBe(0x07064b50);
+    const record = Number(view.getBigUint64(locator + 8, true));
+    expect(view.getUint32(record, true)).toBe(0x06064b50);
+    count = Number(view.getBigUint64(record + 32, true));
+    centralOffset = Number(view.getBigUint64(record + 48, true));
+  }
+
+  const decoder = new TextDecoder();
+  const files: { name: string; data: Uint8Array }[] = [];
+  let position = centralOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const local = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    files.push({ name, data: bytes.subarray(dataStart, dataStart + size) });
+    position += 46 + nameLength + extraLength;
+  }
+  return { files, zip64 };
+};
+
+describe('createZip', () => {
+  it('stores text and binary entries under UTF-8 names', async () => {
+    const { files, zip64 } = await readZip(await createZip([
+      { name: 'manifest.json', data: '{"ok":true}' },
+      { name: '海報/result.png', data: new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])]) }
+    ]));
+
+    expect(zip64).toBe(false);
+    expect(files.map(file => file.name)).toEqual(['manifest.json', '海報/result.png']);
+    expect(new TextDecoder().decode(files[0].data)).toBe('{"ok":true}');
+    expect(Array.from(files[1].data)).toEqual([0x89, 0x50, 0x4e, 0x47]);
+  });
+
+  it('writes a CRC readers can check', async () => {
+    const bytes = new Uint8Array(await (await createZip([{ name: 'a.txt', data: 'hello' }])).arrayBuffer());
+    // CRC-32 of "hello"
+    expect(new DataView(bytes.buffer).getUint32(14, true)).toBe(0x3610a686);
+  });
+
+  it('switches to ZIP64 end records past 65,535 entries', async () => {
+    const entries = Array.from({ length: 70000 }, (_, i) => ({ name: `${i}.txt`, data: String(i) }));
+    const { files, zip64 } = await readZip(await createZip(entries));
+
+    expect(zip64).toBe(true);
+    expect(files).toHaveLength(70000);
+    expect(files[69999].name).toBe('69999.txt');
+    expect(new TextDecoder().decode(files[69999].data)).toBe('69999');
+  }, 20000);
+
+  it('streams Blob entries without changing their bytes', async () => {
+    const image = new Uint8Array(200_000).map((_, i) => i % 251);
+    const { files } = await readZip(await createZip([{ name: 'big.png', data: new Blob([image]) }]));
+    expect(files[0].data).toEqual(image);
+  });
+});
+
+// Headers for entries past 4 GB, checked without building such an archive
+describe('ZIP64 headers', () => {
+  const GB = 1024 ** 3;
+  const record = (patch: Partial<ZipRecord>): ZipRecord => ({
+    nameBytes: new TextEncoder().encode('a.png'),
+    crc: 0x3610a686,
+    size: 5,
+    offset: 0,
+    date: new Date(2024, 0, 1),
+    ...patch
+  });
+  const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The ZIP64 extended information field, which follows the 5-byte name
+  const extraValues = (header: DataView, fixedLength: number) => {
+    const start = fixedLength + 5;
+    expect(header.getUint16(start, true)).toBe(0x0001);
+    const length = header.getUint16(start + 2, true);
+    return Array.from({ length: length / 8 }, (_, i) => Number(header.getBigUint64(start + 4 + i * 8, true)));
+  };
+
+  it('keeps 32-bit fields below 4 GB', () => {
+    const central = view(centralHeader(record({ offset: 4 * GB - 2 })));
+    expect(central.getUint16(6, true)).toBe(20);
+    expect(central.getUint16(30, true)).toBe(0);
+    expect(central.getUint32(42, true)).toBe(4 * GB - 2);
+  });
+
+  it('moves an offset past 4 GB into the central extra field', () => {
+    const central = view(centralHeader(record({ offset: 5 * GB })));
+    expect(central.getUint16(6, true)).toBe(45);
+    expect(central.getUint32(20, true)).toBe(5);
+    expect(central.getUint32(42, true)).toBe(0xffffffff);
+    expect(extraValues(central, 46)).toEqual([5 * GB]);
+  });
+
+  it('moves sizes past 4 GB into both extra fields, before the offset', () => {
+    const local = view(localHeader(record({ size: 6 * GB })));
+    expect(local.getUint16(4, true)).toBe(45);
+    expect(local.getUint32(18, true)).toBe(0xffffffff);
+    expect(local.getUint32(22, true)).toBe(0xffffffff);
+    expect(extraValues(local, 30)).toEqual([6 * GB, 6 * GB]);
+
+    const central = view(centralHeader(record({ size: 6 * GB, offset: 5 * GB })));
+    expect(central.getUint32(20, true)).toBe(0xffffffff);
+    expect(extraValues(central, 46)).toEqual([6 * GB, 6 * GB, 5 * GB]);
+  });
+
+  it('points the end records at a central directory past 4 GB', () => {
+    const [record64, locator, end] = endRecords(3, 300, 7 * GB).map(buffer => new DataView(buffer));
+    expect(record64.getUint32(0, true)).toBe(0x06064b50);
+    expect(Number(record64.getBigUint64(32, true))).toBe(3);
+    expect(Number(record64.getBigUint64(40, true))).toBe(300);
+    expect(Number(record64.getBigUint64(48, true))).toBe(7 * GB);
+    expect(Number(locator.getBigUint64(8, true))).toBe(7 * GB + 300);
+    expect(end.getUint16(10, true)).toBe(3);
+    expect(end.getUint32(16, true)).toBe(0xffffffff);
+  });
+
+  it('writes only the classic end record for small archives', () => {
+    expect(endRecords(3, 300, 1000)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,181 @@
+// Minimal ZIP writer (STORE method, no compression), with ZIP64 records for
+// archives past 4 GB or 65,535 entries.
+// Generated images are already compressed, so deflating them again gains nothing.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob | string;
+  date?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Read in chunks so a large image is never held in memory twice
+const crc32 = async (blob: Blob): Promise<number> => {
+  let crc = 0xffffffff;
+  const reader = blob.stream().getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    const bytes = chunk.value;
+    for (let i = 0; i < bytes.length; i++) {
+      crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date/time as stored in ZIP headers (2-second resolution, local time)
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+// Field values at or above these are stored in ZIP64 records instead; the field itself holds the maximum
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+const ZIP64_EXTRA_ID = 0x0001;
+// Version needed to extract: 2.0 for plain STORE, 4.5 once ZIP64 fields appear
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+// ZIP64 extended information: only the 64-bit values whose 32-bit fields overflowed, in this order
+const zip64Extra = (values: number[]): Uint8Array => {
+  if (values.length === 0) return new Uint8Array(0);
+  const extra = new DataView(new ArrayBuffer(4 + values.length * 8));
+  extra.setUint16(0, ZIP64_EXTRA_ID, true);
+  extra.setUint16(2, values.length * 8, true);
+  values.forEach((value, i) => extra.setBigUint64(4 + i * 8, BigInt(value), true));
+  return new Uint8Array(extra.buffer);
+};
+
+const clamp32 = (value: number) => Math.min(value, MAX_UINT32);
+
+// What the local and central headers of one entry describe
+export interface ZipRecord {
+  nameBytes: Uint8Array;
+  crc: number;
+  size: number;
+  // Where the entry's local header starts
+  offset: number;
+  date: Date;
+}
+
+export const localHeader = ({ nameBytes, crc, size, date }: ZipRecord): Uint8Array => {
+  const largeData = size >= MAX_UINT32;
+  const extra = zip64Extra(largeData ? [size, size] : []);
+  const dos = toDosDateTime(date);
+
+  const header = new DataView(new ArrayBuffer(30 + nameBytes.length + extra.length));
+  header.setUint32(0, 0x04034b50, true);
+  header.setUint16(4, largeData ? VERSION_ZIP64 : VERSION_DEFAULT, true); // version needed
+  header.setUint16(6, 0x0800, true); // UTF-8 file names
+  header.setUint16(8, 0, true); // STORE
+  header.setUint16(10, dos.time, true);
+  header.setUint16(12, dos.date, true);
+  header.setUint32(14, crc, true);
+  header.setUint32(18, clamp32(size), true);
+  header.setUint32(22, clamp32(size), true);
+  header.setUint16(26, nameBytes.length, true);
+  header.setUint16(28, extra.length, true);
+  new Uint8Array(header.buffer).set(nameBytes, 30);
+  new Uint8Array(header.buffer).set(extra, 30 + nameBytes.length);
+  return new Uint8Array(header.buffer);
+};
+
+export const centralHeader = ({ nameBytes, crc, size, offset, date }: ZipRecord): Uint8Array => {
+  const extra = zip64Extra([
+    ...(size >= MAX_UINT32 ? [size, size] : []),
+    ...(offset >= MAX_UINT32 ? [offset] : [])
+  ]);
+  const dos = toDosDateTime(date);
+
+  const header = new DataView(new ArrayBuffer(46 + nameBytes.length + extra.length));
+  header.setUint32(0, 0x02014b50, true);
+  const version = extra.length ? VERSION_ZIP64 : VERSION_DEFAULT;
+  header.setUint16(4, version, true); // version made by
+  header.setUint16(6, version, true);
+  header.setUint16(8, 0x0800, true);
+  header.setUint16(10, 0, true);
+  header.setUint16(12, dos.time, true);
+  header.setUint16(14, dos.date, true);
+  header.setUint32(16, crc, true);
+  header.setUint32(20, clamp32(size), true);
+  header.setUint32(24, clamp32(size), true);
+  header.setUint16(28, nameBytes.length, true);
+  header.setUint16(30, extra.length, true);
+  header.setUint32(42, clamp32(offset), true);
+  new Uint8Array(header.buffer).set(nameBytes, 46);
+  new Uint8Array(header.buffer).set(extra, 46 + nameBytes.length);
+  return new Uint8Array(header.buffer);
+};
+
+// The end of central directory record, preceded past 65,535 entries or 4 GB by a
+// ZIP64 end record holding the real values and a locator pointing at it
+export const endRecords = (count: number, centralSize: number, centralOffset: number): ArrayBuffer[] => {
+  const trailer: ArrayBuffer[] = [];
+
+  if (count >= MAX_UINT16 || centralSize >= MAX_UINT32 || centralOffset >= MAX_UINT32) {
+    const record = new DataView(new ArrayBuffer(56));
+    record.setUint32(0, 0x06064b50, true);
+    record.setBigUint64(4, 44n, true); // size of the rest of the record
+    record.setUint16(12, VERSION_ZIP64, true);
+    record.setUint16(14, VERSION_ZIP64, true);
+    record.setBigUint64(24, BigInt(count), true);
+    record.setBigUint64(32, BigInt(count), true);
+    record.setBigUint64(40, BigInt(centralSize), true);
+    record.setBigUint64(48, BigInt(centralOffset), true);
+
+    const locator = new DataView(new ArrayBuffer(20));
+    locator.setUint32(0, 0x07064b50, true);
+    locator.setBigUint64(8, BigInt(centralOffset + centralSize), true);
+    locator.setUint32(16, 1, true); // total number of disks
+
+    trailer.push(record.buffer, locator.buffer);
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, Math.min(count, MAX_UINT16), true);
+  end.setUint16(10, Math.min(count, MAX_UINT16), true);
+  end.setUint32(12, clamp32(centralSize), true);
+  end.setUint32(16, clamp32(centralOffset), true);
+  trailer.push(end.buffer);
+  return trailer;
+};
+
+// Entry data stays in the Blobs it came in; only the headers are built as bytes
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const chunks: BlobPart[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const data = typeof entry.data === 'string' ? new Blob([entry.data]) : entry.data;
+    const record: ZipRecord = {
+      nameBytes: encoder.encode(entry.name),
+      crc: await crc32(data),
+      size: data.size,
+      offset,
+      date: entry.date ?? new Date()
+    };
+    const local = localHeader(record);
+
+    chunks.push(local, data);
+    centralDirectory.push(centralHeader(record));
+    offset += local.length + data.size;
+  }
+
+  const centralSize = centralDirectory.reduce((sum, record) => sum + record.length, 0);
+  return new Blob([...chunks, ...centralDirectory, ...endRecords(entries.length, centralSize, offset)], { type: 'application/zip' });
+};
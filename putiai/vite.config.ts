@@ -4,15 +4,25 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // aistudio | direct | proxy, see services/providers/keyMode.ts
+    const keyMode = env.PUTI_KEY_MODE || 'aistudio';
+    // With the proxy the key stays on the server and must never reach the bundle
+    const apiKey = keyMode === 'proxy' ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // `npm run dev` alongside `npm run server` on its default port
+        proxy: keyMode === 'proxy' && !env.PUTI_PROXY_URL
+          ? { '/v1beta': `http://localhost:${env.PORT || 8787}` }
+          : undefined,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.KEY_MODE': JSON.stringify(keyMode),
+        'process.env.PROXY_URL': JSON.stringify(env.PUTI_PROXY_URL || '')
       },
       resolve: {
         alias: {